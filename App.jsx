@@ -1,10 +1,20 @@
 // Main App Component
-import { useState, useCallback, useMemo, useEffect } from 'react';
-import { createNotebookChatSession } from './services/geminiService.js';
-import { sendOllamaMessage } from './services/ollamaService.js';
-import { LlmSelector } from './components/LlmSelector.js';
-import { ChatWindow } from './components/ChatWindow.js';
-import { MessageInput } from './components/MessageInput.js';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { llmHelpers } from './services/llmServiceFactory.js';
+import { conversationStore } from './services/conversationStore.js';
+import { DocumentCorpusLoader } from './services/documentCorpus.js';
+import { qaCache } from './services/cacheService.js';
+import { cooldownManager } from './services/cooldownManager.js';
+import { serviceStats } from './services/serviceStats.js';
+import { usageLedger } from './services/usageLedger.js';
+import { getConfig } from './config/apiConfig.js';
+import LlmSelector from './components/LlmSelector.js';
+import ConversationSidebar from './components/ConversationSidebar.js';
+import ChatWindow from './components/ChatWindow.js';
+import StatsPanel from './components/StatsPanel.js';
+import MessageInput from './components/MessageInput.js';
+import { ApiResponseStatus, BudgetLevel } from './types/api.js';
+import faqData from './data/faq.json';
 
 // Role constants
 const Role = {
@@ -12,6 +22,18 @@ const Role = {
   MODEL: 'model',
 };
 
+const PDF_BASE_URL = 'https://ggawoos-bot.github.io/chat2/pdf/';
+
+// 빌드 시 dist/pdf/에 함께 배포한 문서 코퍼스 위치
+const CORPUS_BASE_URL = './pdf/';
+
+// 사용량 예산 표시 이름
+const USAGE_PERIOD_LABELS = { minute: '분당', day: '일일' };
+const USAGE_METRIC_LABELS = { tokens: '토큰', requests: '요청' };
+
+// 빌드 시 생성한 문서 코퍼스 로더 (코퍼스를 쓸 수 없는 문서만 PDF_BASE_URL에서 받아 파싱)
+const corpusLoader = new DocumentCorpusLoader(CORPUS_BASE_URL, PDF_BASE_URL);
+
 const App = () => {
   const [sourceText, setSourceText] = useState('');
   const [messages, setMessages] = useState([]);
@@ -23,68 +45,89 @@ const App = () => {
   const [error, setError] = useState(null);
   
   // LLM 관련 상태
-  const [currentService, setCurrentService] = useState('gemini');
-  const [currentModel, setCurrentModel] = useState('exaone3.5:latest');
+  const [currentService, setCurrentService] = useState(() => llmHelpers.getCurrentServiceType());
+  
+  // 저장된 대화 관련 상태
+  const [conversationId, setConversationId] = useState(null);
+  
+  // 진행 중인 응답 생성을 중지하기 위한 컨트롤러
+  const abortControllerRef = useRef(null);
   
   // 새로운 상태 추가
   const [lastMessageTime, setLastMessageTime] = useState(0);
-  const [cacheStats, setCacheStats] = useState({
-    totalItems: 0,
-    hitRate: 0,
-    totalSize: 0
-  });
-  const [queueStatus, setQueueStatus] = useState({
-    totalLength: 0,
-    pendingCount: 0,
-    processingCount: 0,
-    failedCount: 0
-  });
   const [showStats, setShowStats] = useState(false);
   
-  // 다음 시도 가능시간 관련 상태
+  // 전환 순서의 모든 백엔드를 막고 있는 한도 초과 대기 상태 (서버가 알려준 재시도 시점, 새로고침해도 유지)
+  // 대기 없이 요청할 수 있는 백엔드가 하나라도 있으면 null
+  const [cooldown, setCooldown] = useState(null);
   const [retryCountdown, setRetryCountdown] = useState(0);
-  const [nextRetryTime, setNextRetryTime] = useState(null);
-
-  const PDF_BASE_URL = 'https://ggawoos-bot.github.io/chat2/pdf/';
-
-  const chatSession = useMemo(() => {
-    if (sourceText.trim()) {
-      try {
-        if (currentService === 'gemini') {
-          return createNotebookChatSession(sourceText);
-        }
-        return null; // Ollama는 별도 처리
-      } catch (e) {
-        console.error("Error creating chat session:", e);
-        setError(e instanceof Error ? e.message : "Failed to create chat session.");
-        return null;
-      }
-    }
-    return null;
+
+  useEffect(() => {
+    let active = true;
+    const syncCooldown = async () => {
+      const blocking = await llmHelpers.getBlockingCooldown();
+      if (active) setCooldown(blocking);
+    };
+    syncCooldown();
+    cooldownManager.on('cooldownStarted', syncCooldown);
+    cooldownManager.on('cooldownEnded', syncCooldown);
+    return () => {
+      active = false;
+      cooldownManager.off('cooldownStarted', syncCooldown);
+      cooldownManager.off('cooldownEnded', syncCooldown);
+    };
+  }, [currentService]);
+
+  // 소프트·하드 한도에 도달한 사용량 예산 (기간이 바뀌면 풀리도록 1분마다 다시 확인)
+  const [budgetAlerts, setBudgetAlerts] = useState([]);
+
+  useEffect(() => {
+    const syncBudgets = () => {
+      setBudgetAlerts(usageLedger.getBudgetStatuses().filter(status => status.level !== BudgetLevel.OK));
+    };
+    syncBudgets();
+    usageLedger.on('usageRecorded', syncBudgets);
+    usageLedger.on('budgetsChanged', syncBudgets);
+    const timer = setInterval(syncBudgets, 60 * 1000);
+    return () => {
+      usageLedger.off('usageRecorded', syncBudgets);
+      usageLedger.off('budgetsChanged', syncBudgets);
+      clearInterval(timer);
+    };
+  }, []);
+
+  // 대기 중에는 남은 시간(초)을 1초마다 갱신
+  useEffect(() => {
+    const tick = () => setRetryCountdown(cooldown ? Math.max(0, Math.ceil((cooldown.until - Date.now()) / 1000)) : 0);
+    tick();
+    if (!cooldown) return;
+
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [cooldown]);
+
+  // 문서가 로드되면 현재 LLM 서비스에 전달 (검색 인덱스 생성)
+  useEffect(() => {
+    if (!sourceText.trim()) return;
+
+    llmHelpers.setSourceText(sourceText).catch((e) => {
+      console.error("Error setting source text:", e);
+      setError(e instanceof Error ? e.message : "Failed to prepare documents.");
+    });
   }, [sourceText, currentService]);
   
-  const parsePdfFromUrl = async (url) => {
-    try {
-      const pdfData = await fetch(url).then(res => {
-        if (!res.ok) throw new Error(`Failed to fetch PDF: ${res.status}`);
-        return res.arrayBuffer();
-      });
-      
-      const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(pdfData) }).promise;
-      let fullText = '';
-      
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items.map(item => item.str).join(' ');
-        fullText += `\n--- PAGE ${i} ---\n${pageText}\n`;
-      }
-      
-      return fullText;
-    } catch (error) {
-      console.error(`Error parsing PDF from ${url}:`, error);
-      return `Error parsing PDF: ${error.message}`;
+  // pdf.js로 PDF 페이지별 텍스트 추출 (코퍼스에 없거나 바뀐 문서만)
+  const parsePdfPages = async (data) => {
+    const pdf = await pdfjsLib.getDocument({ data }).promise;
+    const pages = [];
+    
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      pages.push(textContent.items.map(item => item.str).join(' '));
     }
+    
+    return pages;
   };
 
   const discoverAndParsePdfs = async () => {
@@ -92,19 +135,10 @@ const App = () => {
       setIsParsing(true);
       setError(null);
       
-      const manifestUrl = PDF_BASE_URL + 'manifest.json';
-      const manifestResponse = await fetch(manifestUrl);
-      
-      if (!manifestResponse.ok) {
-        throw new Error(`Failed to fetch manifest: ${manifestResponse.status}`);
-      }
-      
-      const pdfFiles = await manifestResponse.json();
-      setDiscoveredFiles(pdfFiles);
-      
-      const parsingPromises = pdfFiles.map(file => parsePdfFromUrl(PDF_BASE_URL + file));
-      const texts = await Promise.all(parsingPromises);
-      const combinedText = texts.join('\n--- END OF DOCUMENT ---\n\n--- START OF DOCUMENT ---\n');
+      // 빌드 시 추출한 코퍼스를 우선 사용하고, PDF가 바뀌었거나 코퍼스에 없는 문서만 직접 파싱
+      const documents = await corpusLoader.loadDocuments(parsePdfPages);
+      setDiscoveredFiles(documents.map(document => document.fileName));
+      const combinedText = corpusLoader.buildSourceText(documents);
       
       setSourceText(combinedText);
       setIsParsing(false);
@@ -115,105 +149,189 @@ const App = () => {
     }
   };
 
-  const handleSendMessage = useCallback(async (e) => {
-    e.preventDefault();
+  // 현재 대화를 저장소에 기록 (처음 저장 시 새 대화 생성)
+  const persistConversation = useCallback(async (nextMessages) => {
+    const serviceType = llmHelpers.getCurrentServiceType();
+    const model = llmHelpers.getCurrentModel();
+
+    try {
+      if (conversationId) {
+        await conversationStore.update(conversationId, nextMessages, serviceType, model);
+      } else {
+        const conversation = await conversationStore.create(nextMessages, serviceType, model);
+        setConversationId(conversation.id);
+      }
+    } catch (error) {
+      console.error('Error saving conversation:', error);
+    }
+  }, [conversationId]);
+
+  // 답변을 스트리밍으로 받아 진행 중인 메시지에 이어 붙임
+  // prefix가 있으면 그 답변을 이어서 생성 (캐시를 건너뛰고 같은 질문의 답변으로 기록), 도중에 실패하면 받은 내용과 에러를 메시지에 남김
+  const streamAnswer = useCallback(async (question, baseMessages, prefix = '') => {
+    setIsLoading(true);
     
-    if (isLoading || !currentMessage.trim()) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const startedAt = Date.now();
+    let timeToFirstToken;
+    let streamedContent = prefix;
+    let nextMessages = baseMessages;
     
-    const userMessage = { role: Role.USER, content: currentMessage.trim() };
-    setMessages(prev => [...prev, userMessage]);
-    setLastSentMessage(currentMessage.trim());
-    setCurrentMessage('');
-    setIsLoading(true);
-    setLastMessageTime(Date.now());
+    const renderStreaming = () => {
+      setMessages([...baseMessages, { role: Role.MODEL, content: streamedContent, streaming: true, timeToFirstToken }]);
+    };
+    if (prefix) {
+      renderStreaming();
+    }
     
     try {
-      let response;
+      const response = await llmHelpers.sendMessageStream(
+        question,
+        (chunk) => {
+          if (timeToFirstToken === undefined) {
+            timeToFirstToken = Date.now() - startedAt;
+          }
+          streamedContent += chunk;
+          renderStreaming();
+        },
+        controller.signal,
+        prefix ? { continueFrom: prefix } : undefined
+      );
+      const cancelled = response.status === ApiResponseStatus.CANCELLED;
       
-      if (currentService === 'gemini' && chatSession) {
-        const stream = await chatSession.sendMessageStream({ message: userMessage.content });
-        response = stream.response.text();
-      } else if (currentService === 'ollama') {
-        response = await sendOllamaMessage(userMessage.content, sourceText, currentModel);
-      } else {
-        throw new Error('No valid service available');
+      if (response.error && !cancelled) {
+        throw Object.assign(new Error(response.error), { status: response.status });
       }
       
-      const modelMessage = { role: Role.MODEL, content: response, timestamp: Date.now() };
-      setMessages(prev => [...prev, modelMessage]);
+      // 중지한 경우에도 그때까지 받은 내용은 남김
+      const modelMessage = {
+        role: Role.MODEL,
+        content: streamedContent,
+        timestamp: Date.now(),
+        citations: response.citations,
+        backend: response.backend && llmHelpers.getProviderName(response.backend),
+        cacheSimilarity: response.cacheSimilarity,
+        timeToFirstToken,
+        ...(cancelled && { cancelled: true })
+      };
+      nextMessages = [...baseMessages, modelMessage];
+      setMessages(nextMessages);
       setError(null);
     } catch (error) {
       console.error('Error sending message:', error);
       
-      if (error.message.includes('quota') || error.message.includes('429')) {
-        const retryDelay = 60000; // 1분
-        setRetryCountdown(retryDelay);
-        
-        const nextRetry = new Date(Date.now() + retryDelay);
-        setNextRetryTime(nextRetry);
-        
-        const retryTimeString = nextRetry.toLocaleTimeString('ko-KR', {
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit'
-        });
-        
-        setError(`API 한도 초과. 다음 시도 가능 시간: ${retryTimeString}`);
-        
-        const countdownSeconds = Math.floor(retryDelay / 1000);
-        setRetryCountdown(countdownSeconds);
-        
-        const countdownTimer = setInterval(() => {
-          setRetryCountdown(prev => {
-            if (prev <= 1) {
-              clearInterval(countdownTimer);
-              setError(null);
-              setNextRetryTime(null);
-              return 0;
-            }
-            return prev - 1;
-          });
-        }, 1000);
-      } else {
+      // 받은 내용이 있으면 버리지 않고 메시지 안에 에러와 계속 생성 버튼을 표시
+      if (streamedContent) {
+        nextMessages = [...baseMessages, {
+          role: Role.MODEL,
+          content: streamedContent,
+          timestamp: Date.now(),
+          timeToFirstToken,
+          error: error.message
+        }];
+      }
+      setMessages(nextMessages);
+      
+      // 모든 백엔드가 한도 초과로 대기 중이면 배너에 표시
+      const coolingDown = error.status === ApiResponseStatus.RATE_LIMITED && !!(await llmHelpers.getBlockingCooldown());
+      if (!streamedContent && !coolingDown) {
         setError(`메시지 전송 실패: ${error.message}`);
       }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      persistConversation(nextMessages);
     }
-  }, [currentMessage, isLoading, chatSession, currentService, currentModel, sourceText]);
-
-  const updateStats = useCallback(() => {
-    // 실제 구현에서는 캐시와 큐 상태를 업데이트
-    setCacheStats({
-      totalItems: Math.floor(Math.random() * 100),
-      hitRate: Math.random() * 0.5,
-      totalSize: Math.floor(Math.random() * 1000000)
-    });
+  }, [persistConversation]);
+
+  const handleSendMessage = useCallback(async (e) => {
+    e.preventDefault();
     
-    setQueueStatus({
-      totalLength: Math.floor(Math.random() * 10),
-      pendingCount: Math.floor(Math.random() * 5),
-      processingCount: Math.floor(Math.random() * 3),
-      failedCount: Math.floor(Math.random() * 2)
+    if (isLoading || !currentMessage.trim()) return;
+    
+    const userMessage = { role: Role.USER, content: currentMessage.trim(), timestamp: Date.now() };
+    const nextMessages = [...messages, userMessage];
+    setMessages(nextMessages);
+    setLastSentMessage(currentMessage.trim());
+    setCurrentMessage('');
+    setLastMessageTime(Date.now());
+    
+    await streamAnswer(userMessage.content, nextMessages);
+  }, [currentMessage, isLoading, messages, streamAnswer]);
+
+  // 도중에 실패한 마지막 답변을 끊긴 지점부터 이어서 생성
+  const handleContinueGeneration = useCallback(async () => {
+    const partial = messages[messages.length - 1];
+    const question = messages[messages.length - 2];
+    if (isLoading || !partial?.error || partial.role !== Role.MODEL || question?.role !== Role.USER) return;
+    
+    setError(null);
+    setLastMessageTime(Date.now());
+    await streamAnswer(question.content, messages.slice(0, -1), partial.content);
+  }, [isLoading, messages, streamAnswer]);
+
+  const handleStopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // 앱 시작 시 검수한 FAQ 답변으로 캐시 미리 채우기
+  useEffect(() => {
+    qaCache.prewarm(faqData).catch((e) => {
+      console.error('Error pre-warming FAQ cache:', e);
     });
   }, []);
 
   useEffect(() => {
     discoverAndParsePdfs();
     
-    const interval = setInterval(updateStats, 5000);
-    return () => clearInterval(interval);
-  }, [updateStats]);
+    // 통계 패널을 열기 전의 요청도 집계되도록 앱 시작 시 수집 시작
+    serviceStats.start();
+    return () => serviceStats.stop();
+  }, []);
 
   const handleServiceChange = async (serviceType) => {
+    await llmHelpers.setServiceType(serviceType);
     setCurrentService(serviceType);
-    if (serviceType === 'ollama') {
-      setCurrentModel('exaone3.5:latest');
-    }
   };
 
   const handleModelChange = async (modelName) => {
-    setCurrentModel(modelName);
+    await llmHelpers.setModel(modelName);
+  };
+
+  const handleNewConversation = () => {
+    setMessages([]);
+    setConversationId(null);
+    setError(null);
+    llmHelpers.resetConversation();
+  };
+
+  // 저장된 대화를 불러와 당시 사용한 서비스/모델로 이어서 대화
+  const handleSelectConversation = async (conversation) => {
+    if (isLoading || conversation.id === conversationId) return;
+
+    try {
+      if (conversation.serviceType !== currentService) {
+        await handleServiceChange(conversation.serviceType);
+      }
+      if (conversation.model && conversation.model !== llmHelpers.getCurrentModel()) {
+        await handleModelChange(conversation.model);
+      }
+      setError(null);
+    } catch (error) {
+      console.error('Error restoring conversation backend:', error);
+      setError(`이전 AI 서비스로 전환하지 못해 현재 서비스로 이어갑니다: ${error.message}`);
+    }
+
+    setMessages(conversation.messages);
+    setConversationId(conversation.id);
+    llmHelpers.restoreConversation(conversationStore.toConversationTurns(conversation.messages));
+  };
+
+  const handleConversationDeleted = (id) => {
+    if (id === conversationId) {
+      handleNewConversation();
+    }
   };
 
   return (
@@ -237,17 +355,37 @@ const App = () => {
                 onServiceChange={handleServiceChange}
                 onModelChange={handleModelChange}
               />
+              <ConversationSidebar
+                currentConversationId={conversationId}
+                onSelectConversation={handleSelectConversation}
+                onNewConversation={handleNewConversation}
+                onConversationDeleted={handleConversationDeleted}
+              />
+              <button
+                onClick={() => setShowStats(prev => !prev)}
+                className="w-full px-3 py-2 text-sm rounded bg-brand-surface text-brand-text-secondary hover:text-brand-primary"
+              >
+                {showStats ? '서비스 통계 숨기기' : '서비스 통계 보기'}
+              </button>
+              {showStats && <StatsPanel />}
             </div>
 
             {/* 메인 채팅 영역 */}
             <div className="lg:col-span-3">
               <div className="bg-brand-surface rounded-lg shadow-lg overflow-hidden">
-                {error && (
+                {(error || cooldown) && (
                   <div className="p-4 bg-red-900/50 text-red-300 border-b border-red-700">
-                    <div className="whitespace-pre-line text-sm">{error}</div>
+                    {error && <div className="whitespace-pre-line text-sm">{error}</div>}
                     
-                    {retryCountdown > 0 && (
-                      <div className="mt-3 space-y-2">
+                    {cooldown && (
+                      <div className={`${error ? 'mt-3 ' : ''}space-y-2`}>
+                        <div className="text-sm">
+                          API 한도 초과. 다음 시도 가능 시간: {new Date(cooldown.until).toLocaleTimeString('ko-KR', {
+                            hour: '2-digit',
+                            minute: '2-digit',
+                            second: '2-digit'
+                          })}
+                        </div>
                         <div className="flex items-center justify-between text-sm">
                           <div className="flex items-center gap-2">
                             <div className="w-3 h-3 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
@@ -261,7 +399,7 @@ const App = () => {
                         <div className="w-full bg-red-800 rounded-full h-2">
                           <div 
                             className="bg-gradient-to-r from-yellow-400 to-green-400 h-2 rounded-full transition-all duration-1000"
-                            style={{ width: `${100 - (retryCountdown / (retryCountdown > 0 ? Math.max(retryCountdown, 60) : 60)) * 100}%` }}
+                            style={{ width: `${100 - (retryCountdown * 1000 / Math.max(cooldown.until - cooldown.startedAt, 1000)) * 100}%` }}
                           ></div>
                         </div>
                         
@@ -274,16 +412,35 @@ const App = () => {
                     )}
                   </div>
                 )}
+                {budgetAlerts.length > 0 && (
+                  <div className="p-3 bg-yellow-900/30 text-yellow-200 border-b border-yellow-700 text-sm space-y-1">
+                    {budgetAlerts.map(({ budget, used, level, resetAt }) => (
+                      <div key={`${budget.backend}-${budget.model ?? ''}-${budget.period}-${budget.metric}`}>
+                        {level === BudgetLevel.HARD ? '⛔' : '⚠️'}{' '}
+                        {llmHelpers.getProviderName(budget.backend)}{budget.model ? ` (${budget.model})` : ''}{' '}
+                        {USAGE_PERIOD_LABELS[budget.period]} {USAGE_METRIC_LABELS[budget.metric]} 사용량{' '}
+                        {used.toLocaleString()}/{(budget.hardLimit ?? budget.softLimit).toLocaleString()}
+                        {level === BudgetLevel.HARD
+                          ? ` - 한도 도달, ${getConfig().USAGE.HARD_LIMIT_ACTION === 'reroute' ? '다른 백엔드로 전환' : '요청 차단'} 중`
+                          : ' - 한도에 가까워지고 있습니다'}
+                        {' '}({new Date(resetAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })} 초기화)
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <ChatWindow 
                   messages={messages} 
                   isLoading={isLoading} 
                   sourceProvided={!!sourceText}
                   isParsingDocs={isParsing}
+                  pdfBaseUrl={PDF_BASE_URL}
+                  onContinue={retryCountdown > 0 ? undefined : handleContinueGeneration}
                 />
                 <MessageInput
                   currentMessage={currentMessage}
                   setCurrentMessage={setCurrentMessage}
                   onSendMessage={handleSendMessage}
+                  onStop={handleStopGeneration}
                   isLoading={isLoading}
                   disabled={!sourceText || isParsing || retryCountdown > 0}
                   lastMessageTime={lastMessageTime}
@@ -0,0 +1,87 @@
+/**
+ * 채팅 창 컴포넌트
+ * 메시지 목록과 문서 로딩/응답 대기 상태 표시
+ */
+
+import React, { useRef, useEffect } from 'react';
+import Message, { ChatMessage } from './Message.js';
+import BotIcon from './icons/BotIcon.js';
+import DocumentIcon from './icons/DocumentIcon.js';
+
+interface ChatWindowProps {
+  messages: ChatMessage[];
+  isLoading: boolean;
+  sourceProvided: boolean;
+  isParsingDocs: boolean;
+  pdfBaseUrl: string;
+  /** 도중에 실패한 마지막 답변 이어서 생성 */
+  onContinue?: () => void;
+}
+
+const ChatWindow: React.FC<ChatWindowProps> = ({
+  messages,
+  isLoading,
+  sourceProvided,
+  isParsingDocs,
+  pdfBaseUrl,
+  onContinue
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages, isLoading]);
+
+  return (
+    <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+      {messages.length === 0 && isParsingDocs && (
+        <div className="text-center text-brand-text-secondary p-8 flex flex-col items-center justify-center h-full">
+          <div className="w-8 h-8 border-4 border-brand-primary border-t-transparent rounded-full animate-spin mb-4"></div>
+          <h3 className="text-xl font-semibold text-brand-text-primary">자료 로딩 중</h3>
+          <p>챗봇을 시작하기 위해 문서를 준비하고 있습니다.</p>
+        </div>
+      )}
+      {messages.length === 0 && !isParsingDocs && !sourceProvided && (
+        <div className="text-center text-brand-text-secondary p-8 flex flex-col items-center justify-center h-full">
+          <DocumentIcon className="w-12 h-12 mb-4 text-brand-secondary" />
+          <h3 className="text-xl font-semibold text-brand-text-primary">오류 발생</h3>
+          <p>문서 로딩에 실패했습니다. 페이지를 새로고침 해주세요.</p>
+        </div>
+      )}
+      {messages.length === 0 && !isParsingDocs && sourceProvided && (
+        <div className="text-center text-brand-text-secondary p-8 flex flex-col items-center">
+          <BotIcon className="w-12 h-12 mb-4 text-brand-primary" />
+          <h3 className="text-xl font-semibold text-brand-text-primary">채팅 준비 완료</h3>
+          <p>문서가 로드되었습니다. 질문을 시작하세요.</p>
+        </div>
+      )}
+      {messages.map((msg, index) => (
+        <Message
+          key={index}
+          message={msg}
+          pdfBaseUrl={pdfBaseUrl}
+          onContinue={!isLoading && index === messages.length - 1 ? onContinue : undefined}
+        />
+      ))}
+      {isLoading && messages.length > 0 && messages[messages.length - 1].role === 'user' && (
+        <div className="flex items-start gap-4 p-4 bg-brand-surface/50 rounded-lg">
+          <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-brand-primary">
+            <BotIcon className="w-5 h-5 text-brand-bg" />
+          </div>
+          <div className="flex-1 pt-1">
+            <p className="font-semibold text-brand-text-primary mb-1">Assistant</p>
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 bg-brand-text-secondary rounded-full animate-pulse [animation-delay:-0.3s]"></span>
+              <span className="w-2 h-2 bg-brand-text-secondary rounded-full animate-pulse [animation-delay:-0.15s]"></span>
+              <span className="w-2 h-2 bg-brand-text-secondary rounded-full animate-pulse"></span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatWindow;
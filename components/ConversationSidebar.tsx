@@ -0,0 +1,180 @@
+/**
+ * 대화 기록 사이드바 컴포넌트
+ * 저장된 대화 목록 표시, 검색, 이름 변경, 삭제 및 이어서 대화하기 기능
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { conversationStore } from '../services/conversationStore.js';
+import { StoredConversation } from '../types/api.js';
+
+interface ConversationSidebarProps {
+  currentConversationId: string | null;
+  onSelectConversation: (conversation: StoredConversation) => void;
+  onNewConversation: () => void;
+  onConversationDeleted?: (id: string) => void;
+  className?: string;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  currentConversationId,
+  onSelectConversation,
+  onNewConversation,
+  onConversationDeleted,
+  className = ""
+}) => {
+  const [conversations, setConversations] = useState<StoredConversation[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      setConversations(await conversationStore.list(searchQuery));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+      setError('대화 기록을 불러올 수 없습니다.');
+    }
+  }, [searchQuery]);
+
+  // 검색어가 바뀌거나 저장소가 갱신되면 목록 다시 조회
+  useEffect(() => {
+    loadConversations();
+
+    const events = ['conversationCreated', 'conversationUpdated', 'conversationRenamed', 'conversationDeleted'];
+    events.forEach(event => conversationStore.on(event, loadConversations));
+    return () => events.forEach(event => conversationStore.off(event, loadConversations));
+  }, [loadConversations]);
+
+  // 이름 변경 시작
+  const startRename = (conversation: StoredConversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  // 이름 변경 저장
+  const submitRename = async () => {
+    if (!editingId) return;
+
+    try {
+      await conversationStore.rename(editingId, editingTitle);
+    } catch (err) {
+      console.error('Failed to rename conversation:', err);
+      setError('대화 이름을 변경할 수 없습니다.');
+    } finally {
+      setEditingId(null);
+    }
+  };
+
+  // 대화 삭제
+  const handleDelete = async (conversation: StoredConversation) => {
+    if (!window.confirm(`"${conversation.title}" 대화를 삭제할까요?`)) return;
+
+    try {
+      await conversationStore.delete(conversation.id);
+      onConversationDeleted?.(conversation.id);
+    } catch (err) {
+      console.error('Failed to delete conversation:', err);
+      setError('대화를 삭제할 수 없습니다.');
+    }
+  };
+
+  // 마지막 수정 시간 표시
+  const formatUpdatedAt = (timestamp: number): string => {
+    return new Date(timestamp).toLocaleString('ko-KR', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className={`bg-brand-surface rounded-lg p-4 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-brand-primary">대화 기록</h3>
+        <button
+          onClick={onNewConversation}
+          className="px-3 py-1 text-sm rounded bg-brand-primary text-white hover:bg-brand-primary/80"
+        >
+          새 대화
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder="대화 검색..."
+        className="w-full p-2 rounded bg-brand-bg border border-brand-secondary text-sm text-brand-text-primary focus:outline-none focus:border-brand-primary"
+      />
+
+      {error && (
+        <div className="text-sm text-red-400 bg-red-900/20 p-2 rounded">{error}</div>
+      )}
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {conversations.length === 0 ? (
+          <div className="text-sm text-brand-text-secondary text-center py-4">
+            {searchQuery ? '검색 결과가 없습니다.' : '저장된 대화가 없습니다.'}
+          </div>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`p-2 rounded-lg border-2 transition-all ${
+                currentConversationId === conversation.id
+                  ? 'border-brand-primary bg-brand-primary/10'
+                  : 'border-brand-secondary hover:border-brand-primary/50'
+              }`}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  type="text"
+                  value={editingTitle}
+                  autoFocus
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={submitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full p-1 rounded bg-brand-bg border border-brand-primary text-sm text-brand-text-primary focus:outline-none"
+                />
+              ) : (
+                <button
+                  onClick={() => onSelectConversation(conversation)}
+                  title="이 대화 이어서 하기"
+                  className="w-full text-left"
+                >
+                  <div className="text-sm font-medium text-brand-text-primary truncate">{conversation.title}</div>
+                  <div className="text-xs text-brand-text-secondary mt-1">
+                    {formatUpdatedAt(conversation.updatedAt)} · {conversation.model || conversation.serviceType} · {conversation.messages.length}개 메시지
+                  </div>
+                </button>
+              )}
+
+              <div className="flex justify-end gap-2 mt-1 text-xs">
+                <button
+                  onClick={() => startRename(conversation)}
+                  className="text-brand-text-secondary hover:text-brand-primary"
+                >
+                  이름 변경
+                </button>
+                <button
+                  onClick={() => handleDelete(conversation)}
+                  className="text-brand-text-secondary hover:text-red-400"
+                >
+                  삭제
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSidebar;
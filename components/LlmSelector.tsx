@@ -1,63 +1,99 @@
 /**
  * LLM 선택 컴포넌트
- * GEMINI와 Ollama 서비스 간 전환 및 모델 선택 기능
+ * 프로바이더 레지스트리에 등록된 서비스 간 전환, 모델 선택·설치·삭제, 모델별 답변 생성 설정(고급 설정) 기능
  */
 
 import React, { useState, useEffect } from 'react';
-
-interface LlmService {
-  type: 'gemini' | 'ollama';
-  name: string;
-  description: string;
-  available: boolean;
-}
-
-interface OllamaModel {
-  name: string;
-  size: number;
-  description: string;
-  recommended: boolean;
-}
+import { llmHelpers } from '../services/llmServiceFactory.js';
+import { generationProfiles } from '../services/generationProfiles.js';
+import ModelCatalog from './ModelCatalog.js';
+import { LlmProviderInfo, LlmModelInfo, GenerationProfile, MemoryFit } from '../types/api.js';
 
 interface LlmSelectorProps {
-  currentService: 'gemini' | 'ollama';
-  onServiceChange: (service: 'gemini' | 'ollama') => void;
+  currentService: string;
+  onServiceChange: (service: string) => void;
   onModelChange?: (model: string) => void;
   className?: string;
 }
 
+/**
+ * 메모리 적합도 표시
+ */
+const MEMORY_FIT_STATUS: Record<MemoryFit, { color: string; text: string }> = {
+  ok: { color: 'text-green-400', text: '메모리 충분' },
+  tight: { color: 'text-yellow-400', text: '메모리 주의' },
+  insufficient: { color: 'text-red-400', text: '메모리 부족' }
+};
+
+type NumericProfileKey = Exclude<keyof GenerationProfile, 'stop'>;
+
+/**
+ * 고급 설정 입력 중인 값 (입력 그대로 문자열로 보관)
+ */
+type ProfileDraft = Record<keyof GenerationProfile, string>;
+
+/**
+ * 고급 설정 숫자 항목
+ */
+const PROFILE_FIELDS: { key: NumericProfileKey; label: string; step: string; hint: string }[] = [
+  { key: 'temperature', label: 'Temperature', step: '0.1', hint: '높을수록 다양한 답변 (0~2)' },
+  { key: 'topP', label: 'Top P', step: '0.05', hint: '누적 확률 상위 후보만 사용 (0~1)' },
+  { key: 'topK', label: 'Top K', step: '1', hint: '상위 K개 후보만 사용' },
+  { key: 'numCtx', label: '컨텍스트 길이', step: '512', hint: 'num_ctx, Ollama 전용' },
+  { key: 'numPredict', label: '최대 생성 토큰', step: '256', hint: '-1은 제한 없음' },
+  { key: 'repeatPenalty', label: '반복 억제', step: '0.05', hint: 'repeat_penalty, Ollama 전용' },
+  { key: 'seed', label: 'Seed', step: '1', hint: '같은 값이면 같은 답변 재현' }
+];
+
+/**
+ * 설정을 입력값으로 변환
+ */
+const toProfileDraft = (profile: GenerationProfile): ProfileDraft => ({
+  ...(Object.fromEntries(PROFILE_FIELDS.map(({ key }) => [key, profile[key]?.toString() ?? ''])) as Record<NumericProfileKey, string>),
+  stop: (profile.stop ?? []).join(', ')
+});
+
+/**
+ * 입력값을 설정으로 변환 (비운 항목은 기본값 사용)
+ */
+const fromProfileDraft = (draft: ProfileDraft): GenerationProfile => {
+  const profile: GenerationProfile = {};
+  PROFILE_FIELDS.forEach(({ key }) => {
+    if (draft[key].trim() !== '') {
+      profile[key] = Number(draft[key]);
+    }
+  });
+  const stop = draft.stop.split(',').map(sequence => sequence.trim()).filter(Boolean);
+  if (stop.length > 0) {
+    profile.stop = stop;
+  }
+  return profile;
+};
+
 const LlmSelector: React.FC<LlmSelectorProps> = ({
   currentService,
   onServiceChange,
   onModelChange,
   className = ""
 }) => {
-  const [availableServices, setAvailableServices] = useState<LlmService[]>([]);
-  const [availableModels, setAvailableModels] = useState<OllamaModel[]>([]);
+  const [availableServices, setAvailableServices] = useState<LlmProviderInfo[]>([]);
+  const [availableModels, setAvailableModels] = useState<LlmModelInfo[]>([]);
   const [currentModel, setCurrentModel] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft | null>(null);
+  const [hasProfileOverride, setHasProfileOverride] = useState(false);
 
-  // 사용 가능한 서비스 목록 조회
+  const currentProvider = availableServices.find(s => s.type === currentService);
+  const profileModel = currentModel || llmHelpers.getCurrentModel() || '';
+  const modelManager = currentProvider?.supportsModelManagement ? llmHelpers.getModelManager() : null;
+
+  // 사용 가능한 서비스 목록 조회 (레지스트리 기준)
   useEffect(() => {
     const fetchServices = async () => {
       try {
-        // 실제 구현에서는 API 호출
-        const services: LlmService[] = [
-          {
-            type: 'gemini',
-            name: 'Google Gemini',
-            description: 'Google의 Gemini API 서비스 (인터넷 연결 필요)',
-            available: !!process.env.API_KEY
-          },
-          {
-            type: 'ollama',
-            name: 'Ollama (로컬)',
-            description: '로컬 Ollama 서버 (오프라인 가능)',
-            available: true
-          }
-        ];
-        setAvailableServices(services);
+        setAvailableServices(await llmHelpers.getAvailableServices());
       } catch (err) {
         setError('서비스 목록을 불러올 수 없습니다.');
       }
@@ -66,89 +102,73 @@ const LlmSelector: React.FC<LlmSelectorProps> = ({
     fetchServices();
   }, []);
 
-  // Ollama 모델 목록 조회
+  // 현재 프로바이더의 모델 목록 조회
   useEffect(() => {
-    if (currentService === 'ollama') {
+    if (currentProvider?.supportsModels) {
       const fetchModels = async () => {
         try {
           setIsLoading(true);
           setError(null);
           
-          // Ollama API에서 실제 설치된 모델 목록 가져오기
-          const response = await fetch('http://localhost:11434/api/tags');
-          if (!response.ok) {
-            throw new Error(`Ollama 서버 연결 실패: ${response.status}`);
-          }
-          
-          const data = await response.json();
-          const installedModels = data.models || [];
-          
-          // 설치된 모델들을 OllamaModel 형식으로 변환
-          const models: OllamaModel[] = installedModels.map((model: any) => {
-            const sizeInGB = Math.round((model.size || 0) / (1024 * 1024 * 1024) * 100) / 100;
-            const isRecommended = model.name.includes('exaone') || model.name.includes('solar');
-            
-            return {
-              name: model.name,
-              size: sizeInGB,
-              description: getModelDescription(model.name),
-              recommended: isRecommended
-            };
-          });
-          
-          // exaone 모델을 맨 앞으로 정렬
-          models.sort((a, b) => {
-            if (a.name.includes('exaone') && !b.name.includes('exaone')) return -1;
-            if (!a.name.includes('exaone') && b.name.includes('exaone')) return 1;
-            return a.name.localeCompare(b.name);
-          });
-          
-          setAvailableModels(models);
-          
-          // exaone 모델이 있으면 기본값으로 설정, 없으면 첫 번째 모델 선택
-          const exaoneModel = models.find(m => m.name.includes('exaone'));
-          setCurrentModel(exaoneModel?.name || models[0]?.name || '');
+          setAvailableModels((await llmHelpers.getAvailableModels()) || []);
+          setCurrentModel(llmHelpers.getCurrentModel() || '');
           
         } catch (err) {
           console.error('Failed to fetch models:', err);
-          setError('모델 목록을 불러올 수 없습니다. Ollama 서버가 실행 중인지 확인해주세요.');
+          setError(`모델 목록을 불러올 수 없습니다. ${currentProvider.name} 서버가 실행 중인지 확인해주세요.`);
         } finally {
           setIsLoading(false);
         }
       };
 
       fetchModels();
-    }
-  }, [currentService]);
-
-  // 모델 설명 생성 함수
-  const getModelDescription = (modelName: string): string => {
-    if (modelName.includes('exaone')) {
-      return 'Exaone 3.5 - 한국어 특화 고성능 모델';
-    } else if (modelName.includes('solar')) {
-      return 'Solar - 고성능 한국어 특화 모델';
-    } else if (modelName.includes('llama3.2')) {
-      return 'Meta LLaMA 3.2 - 최신 Meta 모델';
-    } else if (modelName.includes('llama3.1')) {
-      return 'Meta LLaMA 3.1 - 안정적 성능의 Meta 모델';
-    } else if (modelName.includes('deepseek')) {
-      return 'DeepSeek R1 - 고성능 추론 모델';
-    } else if (modelName.includes('timHan')) {
-      return 'TimHan LLaMA Korean - 한국어 특화 모델';
-    } else if (modelName.includes('mistral')) {
-      return 'Mistral - 고성능 소형 모델';
-    } else if (modelName.includes('codellama')) {
-      return 'Code Llama - 코드 특화 모델';
-    } else if (modelName.includes('qwen')) {
-      return 'Qwen - 다국어 지원 모델';
-    } else if (modelName.includes('gemma')) {
-      return 'Google Gemma - Google 모델';
     } else {
-      return `${modelName} - 사용자 정의 모델`;
+      setAvailableModels([]);
+      setCurrentModel('');
     }
-  };
+  }, [currentService, currentProvider?.supportsModels]);
+
+  // 모델을 설치·삭제하거나 답변 생성 설정(컨텍스트 길이)이 바뀌면 모델 목록과 메모리 평가 다시 조회
+  useEffect(() => {
+    if (!modelManager) return;
 
-  const handleServiceChange = async (serviceType: 'gemini' | 'ollama') => {
+    const refreshModels = async () => {
+      try {
+        setAvailableModels((await llmHelpers.getAvailableModels()) || []);
+      } catch (err) {
+        console.error('Failed to refresh models:', err);
+      }
+    };
+
+    modelManager.on('modelsChanged', refreshModels);
+    generationProfiles.on('profileChanged', refreshModels);
+    return () => {
+      modelManager.off('modelsChanged', refreshModels);
+      generationProfiles.off('profileChanged', refreshModels);
+    };
+  }, [modelManager]);
+
+  // 현재 모델의 답변 생성 설정 조회 (저장 시 다시 조회)
+  useEffect(() => {
+    if (!profileModel) {
+      setProfileDraft(null);
+      return;
+    }
+
+    const loadProfile = () => {
+      setProfileDraft(toProfileDraft(generationProfiles.getProfile(profileModel)));
+      setHasProfileOverride(generationProfiles.hasOverride(profileModel));
+    };
+    const handleProfileChanged = ({ model }: { model: string }) => {
+      if (model === profileModel) loadProfile();
+    };
+
+    loadProfile();
+    generationProfiles.on('profileChanged', handleProfileChanged);
+    return () => generationProfiles.off('profileChanged', handleProfileChanged);
+  }, [profileModel]);
+
+  const handleServiceChange = async (serviceType: string) => {
     try {
       setIsLoading(true);
       setError(null);
@@ -175,14 +195,20 @@ const LlmSelector: React.FC<LlmSelectorProps> = ({
     }
   };
 
-  const formatModelSize = (size: number): string => {
-    return `${size}GB`;
+  const handleProfileSave = () => {
+    if (profileModel && profileDraft) {
+      generationProfiles.setProfile(profileModel, fromProfileDraft(profileDraft));
+    }
   };
 
-  const getMemoryStatus = (size: number): { color: string; text: string } => {
-    if (size <= 4) return { color: 'text-green-400', text: '메모리 충분' };
-    if (size <= 8) return { color: 'text-yellow-400', text: '메모리 주의' };
-    return { color: 'text-red-400', text: '메모리 부족' };
+  const handleProfileReset = () => {
+    if (profileModel) {
+      generationProfiles.resetProfile(profileModel);
+    }
+  };
+
+  const formatModelSize = (size: number): string => {
+    return size > 0 ? `${size}GB` : '알 수 없음';
   };
 
   return (
@@ -237,8 +263,8 @@ const LlmSelector: React.FC<LlmSelectorProps> = ({
         </div>
       </div>
 
-      {/* Ollama 모델 선택 */}
-      {currentService === 'ollama' && (
+      {/* 모델 선택 */}
+      {currentProvider?.supportsModels && (
         <div className="space-y-2">
           <label className="text-sm font-medium text-brand-text-primary">모델 선택</label>
           {isLoading ? (
@@ -249,7 +275,7 @@ const LlmSelector: React.FC<LlmSelectorProps> = ({
           ) : (
             <div className="space-y-2 max-h-60 overflow-y-auto">
               {availableModels.map((model) => {
-                const memoryStatus = getMemoryStatus(model.size);
+                const memoryStatus = model.memory ? MEMORY_FIT_STATUS[model.memory.fit] : null;
                 return (
                   <button
                     key={model.name}
@@ -268,12 +294,26 @@ const LlmSelector: React.FC<LlmSelectorProps> = ({
                           {model.recommended && (
                             <span className="px-2 py-1 text-xs bg-green-600 text-white rounded">추천</span>
                           )}
+                          {model.memory?.rank === 1 && model.memory.fit !== 'insufficient' && (
+                            <span className="px-2 py-1 text-xs bg-brand-primary text-white rounded">이 기기 최적</span>
+                          )}
                         </div>
                         <div className="text-sm text-brand-text-secondary mt-1">{model.description}</div>
                         <div className="flex items-center gap-4 mt-2 text-xs">
                           <span className="text-brand-text-secondary">크기: {formatModelSize(model.size)}</span>
-                          <span className={memoryStatus.color}>{memoryStatus.text}</span>
+                          {memoryStatus && (
+                            <span className={memoryStatus.color} title={model.memory!.reasons.join('\n')}>
+                              {memoryStatus.text} (약 {model.memory!.estimate.totalGB.toFixed(1)}GB)
+                            </span>
+                          )}
                         </div>
+                        {model.memory?.fit === 'insufficient' && (
+                          <ul className="mt-1 text-xs text-red-400/80 list-disc list-inside">
+                            {model.memory.reasons.map(reason => (
+                              <li key={reason}>{reason}</li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
                       {currentModel === model.name && (
                         <div className="w-2 h-2 bg-brand-primary rounded-full mt-2"></div>
@@ -287,16 +327,79 @@ const LlmSelector: React.FC<LlmSelectorProps> = ({
         </div>
       )}
 
+      {/* 모델 설치·삭제 */}
+      {modelManager && (
+        <ModelCatalog manager={modelManager} currentModel={currentModel} />
+      )}
+
+      {/* 고급 설정 (모델별 답변 생성 설정) */}
+      {profileModel && profileDraft && (
+        <div className="space-y-2">
+          <button
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="w-full flex items-center justify-between text-sm font-medium text-brand-text-primary"
+          >
+            <span>고급 설정</span>
+            <span className="text-xs text-brand-text-secondary">
+              {hasProfileOverride ? '사용자 설정 · ' : ''}{showAdvanced ? '접기' : '펼치기'}
+            </span>
+          </button>
+          {showAdvanced && (
+            <div className="space-y-2">
+              <div className="text-xs text-brand-text-secondary">{profileModel} 모델에 적용되며, 비운 항목은 기본값을 사용합니다.</div>
+              <div className="grid grid-cols-2 gap-2">
+                {PROFILE_FIELDS.map(field => (
+                  <label key={field.key} className="text-xs text-brand-text-secondary" title={field.hint}>
+                    {field.label}
+                    <input
+                      type="number"
+                      step={field.step}
+                      value={profileDraft[field.key]}
+                      onChange={(e) => setProfileDraft({ ...profileDraft, [field.key]: e.target.value })}
+                      className="mt-1 w-full p-1 rounded bg-brand-bg text-brand-text-primary border border-brand-secondary"
+                    />
+                  </label>
+                ))}
+              </div>
+              <label className="block text-xs text-brand-text-secondary">
+                중단 문자열 (쉼표로 구분)
+                <input
+                  type="text"
+                  value={profileDraft.stop}
+                  onChange={(e) => setProfileDraft({ ...profileDraft, stop: e.target.value })}
+                  className="mt-1 w-full p-1 rounded bg-brand-bg text-brand-text-primary border border-brand-secondary"
+                />
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleProfileSave}
+                  className="flex-1 px-3 py-1 text-sm rounded bg-brand-primary text-white hover:opacity-90"
+                >
+                  저장
+                </button>
+                <button
+                  onClick={handleProfileReset}
+                  disabled={!hasProfileOverride}
+                  className="flex-1 px-3 py-1 text-sm rounded border border-brand-secondary text-brand-text-primary disabled:opacity-50"
+                >
+                  기본값으로
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 현재 설정 요약 */}
       <div className="pt-2 border-t border-brand-secondary">
         <div className="text-sm text-brand-text-secondary">
           <div className="flex justify-between">
             <span>현재 서비스:</span>
             <span className="text-brand-text-primary">
-              {availableServices.find(s => s.type === currentService)?.name || 'Unknown'}
+              {currentProvider?.name || 'Unknown'}
             </span>
           </div>
-          {currentService === 'ollama' && currentModel && (
+          {currentProvider?.supportsModels && currentModel && (
             <div className="flex justify-between mt-1">
               <span>현재 모델:</span>
               <span className="text-brand-text-primary">{currentModel}</span>
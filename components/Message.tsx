@@ -0,0 +1,96 @@
+/**
+ * 채팅 메시지 컴포넌트
+ */
+
+import React from 'react';
+import { Citation } from '../types/api.js';
+import SourceInfo from './SourceInfo.js';
+import UserIcon from './icons/UserIcon.js';
+import BotIcon from './icons/BotIcon.js';
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  content: string;
+  timestamp?: number;
+  citations?: Citation[];
+  /** 답변한 LLM 백엔드 이름 */
+  backend?: string;
+  /** 사용자가 생성을 중지한 답변 여부 */
+  cancelled?: boolean;
+  /** 캐시 답변의 질문 유사도 (1 미만이면 유사 질문 답변) */
+  cacheSimilarity?: number;
+  /** 응답을 받는 중인 답변 여부 */
+  streaming?: boolean;
+  /** 첫 응답 조각까지 걸린 시간 (밀리초) */
+  timeToFirstToken?: number;
+  /** 생성 도중 실패한 답변의 에러 메시지 */
+  error?: string;
+}
+
+interface MessageProps {
+  message: ChatMessage;
+  pdfBaseUrl: string;
+  /** 도중에 실패한 답변 이어서 생성 */
+  onContinue?: () => void;
+}
+
+const Message: React.FC<MessageProps> = ({ message, pdfBaseUrl, onContinue }) => {
+  const isUser = message.role === 'user';
+
+  return (
+    <div className={`flex items-start gap-4 p-4 ${isUser ? '' : 'bg-brand-surface/50 rounded-lg'}`}>
+      <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${isUser ? 'bg-brand-secondary' : 'bg-brand-primary'}`}>
+        {isUser ? <UserIcon className="w-5 h-5 text-brand-text-primary" /> : <BotIcon className="w-5 h-5 text-brand-bg" />}
+      </div>
+      <div className="flex-1 pt-1 min-w-0">
+        <p className="font-semibold text-brand-text-primary mb-1">
+          {isUser ? 'You' : 'Assistant'}
+          {!isUser && message.backend && (
+            <span className="ml-2 text-xs font-normal text-brand-text-secondary">{message.backend}</span>
+          )}
+          {!isUser && message.cacheSimilarity !== undefined && message.cacheSimilarity < 1 && (
+            <span
+              className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-brand-secondary/40 text-brand-text-secondary"
+              title={`저장된 유사 질문의 답변입니다 (유사도 ${Math.round(message.cacheSimilarity * 100)}%)`}
+            >
+              유사 질문 답변 · {Math.round(message.cacheSimilarity * 100)}%
+            </span>
+          )}
+          {!isUser && message.timeToFirstToken !== undefined && (
+            <span className="ml-2 text-xs font-normal text-brand-text-secondary" title="질문을 보낸 뒤 첫 응답까지 걸린 시간">
+              첫 응답 {(message.timeToFirstToken / 1000).toFixed(1)}초
+            </span>
+          )}
+        </p>
+        <p className="text-brand-text-secondary whitespace-pre-wrap">
+          {message.content}
+          {message.streaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-brand-text-secondary animate-pulse" aria-hidden="true"></span>
+          )}
+        </p>
+        {!isUser && message.cancelled && (
+          <p className="mt-1 text-xs text-yellow-400">응답 생성을 중지했습니다.</p>
+        )}
+        {!isUser && message.error && (
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-red-300">
+            <span>답변 생성이 중단되었습니다: {message.error}</span>
+            {onContinue && (
+              <button
+                type="button"
+                onClick={onContinue}
+                className="px-2 py-1 rounded bg-brand-primary text-brand-bg font-semibold hover:bg-brand-primary/80 transition-colors"
+              >
+                계속 생성
+              </button>
+            )}
+          </div>
+        )}
+        {!isUser && message.citations && (
+          <SourceInfo citations={message.citations} pdfBaseUrl={pdfBaseUrl} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Message;
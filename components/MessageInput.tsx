@@ -0,0 +1,182 @@
+/**
+ * 메시지 입력 컴포넌트
+ * 입력 길이·전송 간격 제한과 응답 생성 중지 버튼 제공
+ */
+
+import React, { useState, useEffect } from 'react';
+import SendIcon from './icons/SendIcon.js';
+import StopIcon from './icons/StopIcon.js';
+
+interface MessageInputProps {
+  currentMessage: string;
+  setCurrentMessage: (message: string) => void;
+  onSendMessage: (e: React.FormEvent) => void;
+  /** 진행 중인 응답 생성 중지 (지정하면 응답 대기 중 중지 버튼 표시) */
+  onStop?: () => void;
+  isLoading: boolean;
+  disabled: boolean;
+  lastMessageTime?: number;
+  maxLength?: number;
+  minInterval?: number;
+  retryCountdown?: number;
+  lastSentMessage?: string;
+}
+
+const MessageInput: React.FC<MessageInputProps> = ({
+  currentMessage,
+  setCurrentMessage,
+  onSendMessage,
+  onStop,
+  isLoading,
+  disabled,
+  lastMessageTime = 0,
+  maxLength = 500,
+  minInterval = 5000,
+  retryCountdown = 0
+}) => {
+  const [inputError, setInputError] = useState('');
+  const [remainingTime, setRemainingTime] = useState(0);
+
+  const isInputDisabled = isLoading || disabled || remainingTime > 0;
+  const timeSinceLastMessage = Date.now() - lastMessageTime;
+  const canSend = timeSinceLastMessage >= minInterval;
+
+  // 남은 시간 계산
+  useEffect(() => {
+    if (!canSend && lastMessageTime > 0) {
+      const interval = setInterval(() => {
+        const elapsed = Date.now() - lastMessageTime;
+        const remaining = Math.max(0, minInterval - elapsed);
+        setRemainingTime(remaining);
+
+        if (remaining === 0) {
+          clearInterval(interval);
+        }
+      }, 100);
+
+      return () => clearInterval(interval);
+    }
+  }, [canSend, lastMessageTime, minInterval]);
+
+  // 입력 검증
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+
+    if (value.length > maxLength) {
+      setInputError(`메시지는 ${maxLength}자를 초과할 수 없습니다.`);
+      return;
+    }
+
+    setInputError('');
+    setCurrentMessage(value);
+  };
+
+  // 전송 처리
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!currentMessage.trim()) {
+      setInputError('메시지를 입력해주세요.');
+      return;
+    }
+
+    if (!canSend) {
+      setInputError(`잠시 후 다시 시도해주세요. (${Math.ceil(remainingTime / 1000)}초 남음)`);
+      return;
+    }
+
+    setInputError('');
+    onSendMessage(e);
+  };
+
+  const formatTime = (ms: number) => Math.ceil(ms / 1000);
+  const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-brand-surface">
+      {/* 입력 제한 상태 표시 */}
+      {remainingTime > 0 && (
+        <div className="mb-2 p-2 bg-yellow-900/20 border border-yellow-600/30 rounded text-yellow-300 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
+            <span>다음 메시지까지 {formatTime(remainingTime)}초 대기 중...</span>
+          </div>
+        </div>
+      )}
+
+      {/* 에러 메시지 */}
+      {inputError && (
+        <div className="mb-2 p-2 bg-red-900/20 border border-red-600/30 rounded text-red-300 text-sm">
+          {inputError}
+        </div>
+      )}
+
+      <div className="relative">
+        <input
+          type="text"
+          value={currentMessage}
+          onChange={handleInputChange}
+          onKeyDown={(e) => {
+            // 스페이스바 입력 보장
+            if (e.key === ' ') {
+              e.stopPropagation();
+            }
+          }}
+          onKeyUp={(e) => {
+            if (e.key === ' ') {
+              e.stopPropagation();
+            }
+          }}
+          placeholder={
+            disabled ? "자료를 로딩 중입니다..." :
+            retryCountdown > 0 ? `질문을 입력하세요 (${formatCountdown(retryCountdown)} 후 전송 가능)` :
+            remainingTime > 0 ? "잠시 후 다시 시도해주세요..." :
+            "질문을 입력하세요..."
+          }
+          disabled={isInputDisabled}
+          className="w-full bg-brand-bg border border-brand-secondary rounded-full py-3 pl-4 pr-12 text-brand-text-primary focus:outline-none focus:ring-2 focus:ring-brand-primary disabled:opacity-50"
+          maxLength={maxLength}
+        />
+        {isLoading && onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            title="중지"
+            aria-label="중지"
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full text-red-400 hover:bg-red-400/20 transition-colors"
+          >
+            <StopIcon className="w-6 h-6" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={isInputDisabled || !currentMessage.trim() || retryCountdown > 0}
+            title={
+              retryCountdown > 0 ? `API 한도 초과 - ${formatCountdown(retryCountdown)} 후 사용 가능` :
+              remainingTime > 0 ? "잠시 후 다시 시도해주세요" :
+              isLoading ? "처리 중입니다..." :
+              !currentMessage.trim() ? "질문을 입력하세요" :
+              "전송"
+            }
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full text-brand-primary hover:bg-brand-primary/20 disabled:text-brand-secondary disabled:hover:bg-transparent transition-colors"
+          >
+            <SendIcon className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+
+      {/* 글자 수 표시 */}
+      <div className="mt-2 flex justify-between text-xs text-brand-text-secondary">
+        <span>{currentMessage.length} / {maxLength}자</span>
+        {lastMessageTime > 0 && (
+          <span>
+            마지막 메시지: {formatTime(timeSinceLastMessage)}초 전
+          </span>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default MessageInput;
@@ -0,0 +1,166 @@
+/**
+ * 모델 카탈로그 컴포넌트
+ * 추천 모델과 설치된 모델을 함께 보여주고, 모델 설치(다운로드 진행률·취소·이어받기)와 삭제, 디스크 사용량 표시
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ModelCatalogEntry, ModelDiskUsage, ModelManager, ModelPullProgress } from '../types/api.js';
+
+interface ModelCatalogProps {
+  manager: ModelManager;
+  currentModel?: string;
+  className?: string;
+}
+
+/**
+ * 바이트를 MB/GB로 표시
+ */
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)}GB`
+    : `${(bytes / (1024 * 1024)).toFixed(0)}MB`;
+
+const ModelCatalog: React.FC<ModelCatalogProps> = ({ manager, currentModel, className = "" }) => {
+  const [entries, setEntries] = useState<ModelCatalogEntry[]>([]);
+  const [diskUsage, setDiskUsage] = useState<ModelDiskUsage | null>(null);
+  const [progress, setProgress] = useState<Record<string, ModelPullProgress>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // 카탈로그·디스크 사용량 조회 및 다운로드 진행률 구독
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const [catalog, usage] = await Promise.all([manager.listCatalog(), manager.getDiskUsage()]);
+        setEntries(catalog);
+        setDiskUsage(usage);
+        setError(null);
+      } catch (err) {
+        setError(`모델 목록을 불러올 수 없습니다: ${err.message}`);
+      }
+    };
+    const handleProgress = (update: ModelPullProgress) => {
+      setProgress(prev => ({ ...prev, [update.model]: update }));
+    };
+
+    setProgress(Object.fromEntries(manager.getPullProgress().map(p => [p.model, p])));
+    refresh();
+
+    manager.on('pullProgress', handleProgress);
+    manager.on('modelsChanged', refresh);
+    return () => {
+      manager.off('pullProgress', handleProgress);
+      manager.off('modelsChanged', refresh);
+    };
+  }, [manager]);
+
+  const handlePull = async (model: string) => {
+    try {
+      setError(null);
+      await manager.pull(model);
+    } catch (err) {
+      setError(`${model} 설치 실패: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (model: string) => {
+    if (!window.confirm(`${model} 모델을 삭제하시겠습니까?`)) return;
+
+    try {
+      setError(null);
+      await manager.deleteModel(model);
+    } catch (err) {
+      setError(`${model} 삭제 실패: ${err.message}`);
+    }
+  };
+
+  // 다운로드 진행률 막대와 취소·이어받기 버튼
+  const renderPullProgress = (entry: ModelCatalogEntry, pull: ModelPullProgress) => {
+    const percent = pull.total > 0 ? Math.min(100, (pull.completed / pull.total) * 100) : 0;
+
+    return (
+      <div className="mt-2 space-y-1">
+        <div className="w-full h-1.5 bg-brand-bg rounded overflow-hidden">
+          <div
+            className={`h-full transition-all ${pull.phase === 'failed' ? 'bg-red-400' : 'bg-brand-primary'}`}
+            style={{ width: `${percent}%` }}
+          ></div>
+        </div>
+        <div className="flex items-center justify-between text-xs text-brand-text-secondary">
+          <span className="truncate">
+            {pull.phase === 'failed' ? pull.error : pull.status}
+            {pull.total > 0 && ` · ${formatBytes(pull.completed)}/${formatBytes(pull.total)} (${percent.toFixed(0)}%)`}
+          </span>
+          {pull.phase === 'pulling' ? (
+            <button onClick={() => manager.cancelPull(entry.name)} className="text-red-400 hover:underline">취소</button>
+          ) : (
+            <button onClick={() => handlePull(entry.name)} className="text-brand-primary hover:underline">
+              {pull.phase === 'cancelled' ? '이어받기' : '다시 시도'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-brand-text-primary">모델 관리</label>
+        {diskUsage && (
+          <span className="text-xs text-brand-text-secondary">
+            설치 {diskUsage.modelCount}개 · {formatBytes(diskUsage.totalBytes)}
+          </span>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {entries.map(entry => {
+          const pull = progress[entry.name];
+          const showProgress = !entry.installed && pull && pull.phase !== 'completed';
+
+          return (
+            <div key={entry.name} className="p-2 rounded bg-brand-bg">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-brand-text-primary truncate">{entry.name}</span>
+                    {entry.recommended && (
+                      <span className="px-1.5 text-xs bg-green-600 text-white rounded">추천</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-brand-text-secondary">
+                    {entry.installed && entry.diskSize !== undefined
+                      ? `설치됨 · ${formatBytes(entry.diskSize)}`
+                      : entry.size > 0 ? `약 ${entry.size}GB` : '크기 알 수 없음'}
+                  </div>
+                </div>
+                {entry.installed ? (
+                  <button
+                    onClick={() => handleDelete(entry.name)}
+                    disabled={entry.name === currentModel}
+                    title={entry.name === currentModel ? '사용 중인 모델은 삭제할 수 없습니다' : undefined}
+                    className="px-2 py-1 text-xs rounded border border-brand-secondary text-red-400 disabled:opacity-50"
+                  >
+                    삭제
+                  </button>
+                ) : !pull || pull.phase === 'completed' ? (
+                  <button
+                    onClick={() => handlePull(entry.name)}
+                    className="px-2 py-1 text-xs rounded bg-brand-primary text-white hover:opacity-90"
+                  >
+                    설치
+                  </button>
+                ) : null}
+              </div>
+              {showProgress && renderPullProgress(entry, pull)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ModelCatalog;
@@ -0,0 +1,58 @@
+/**
+ * 답변 출처 표시 컴포넌트
+ * 문서/페이지별 인용 칩을 보여주고 클릭 시 해당 PDF 페이지를 새 탭으로 연다
+ */
+
+import React from 'react';
+import { Citation } from '../types/api.js';
+import DocumentIcon from './icons/DocumentIcon.js';
+
+interface SourceInfoProps {
+  citations: Citation[];
+  pdfBaseUrl: string;
+  className?: string;
+}
+
+const SourceInfo: React.FC<SourceInfoProps> = ({
+  citations,
+  pdfBaseUrl,
+  className = ""
+}) => {
+  if (citations.length === 0) {
+    return null;
+  }
+
+  // PDF 뷰어의 #page= 프래그먼트로 해당 페이지를 바로 연다
+  const getCitationUrl = (citation: Citation): string => {
+    const url = pdfBaseUrl + encodeURIComponent(citation.documentName);
+    return citation.pageNumber > 0 ? `${url}#page=${citation.pageNumber}` : url;
+  };
+
+  const getCitationLabel = (citation: Citation): string => {
+    const name = citation.documentName.replace(/\.pdf$/i, '');
+    return citation.pageNumber > 0 ? `${name} p.${citation.pageNumber}` : name;
+  };
+
+  return (
+    <div className={`mt-3 space-y-1 ${className}`}>
+      <div className="text-xs text-brand-text-secondary">출처</div>
+      <div className="flex flex-wrap gap-2">
+        {citations.map((citation) => (
+          <a
+            key={`${citation.documentName}#${citation.pageNumber}`}
+            href={getCitationUrl(citation)}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={citation.snippet}
+            className="inline-flex items-center gap-1 max-w-full px-2 py-1 text-xs rounded-full border border-brand-secondary text-brand-primary hover:bg-brand-primary/10 transition-colors"
+          >
+            <DocumentIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{getCitationLabel(citation)}</span>
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SourceInfo;
@@ -0,0 +1,191 @@
+/**
+ * 서비스 통계 패널 컴포넌트
+ * 캐시 히트율, 요청 큐 상태, 응답 시간 백분위수, 재시도, 토큰 생성 속도, 오늘의 모델별 사용량과
+ * 최근 1시간 요청 추이 표시
+ */
+
+import React, { useState, useEffect } from 'react';
+import { serviceStats } from '../services/serviceStats.js';
+import { usageLedger } from '../services/usageLedger.js';
+import { RequestStatus, ServiceStatsSnapshot, StatsTimelineBucket, UsageAggregate } from '../types/api.js';
+
+interface StatsPanelProps {
+  className?: string;
+}
+
+/**
+ * 타임라인 구간이 바뀌지 않아도 차트가 흘러가도록 다시 그리는 간격 (밀리초)
+ */
+const REFRESH_INTERVAL = 30 * 1000;
+
+/**
+ * 요청 상태별 표시 이름
+ */
+const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  [RequestStatus.PENDING]: '대기',
+  [RequestStatus.PROCESSING]: '처리 중',
+  [RequestStatus.RETRYING]: '재시도 대기',
+  [RequestStatus.COMPLETED]: '완료',
+  [RequestStatus.FAILED]: '실패',
+  [RequestStatus.CANCELLED]: '취소'
+};
+
+const CHART_HEIGHT = 60;
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ className = "" }) => {
+  const [snapshot, setSnapshot] = useState<ServiceStatsSnapshot>(() => serviceStats.getSnapshot());
+  const [todayUsage, setTodayUsage] = useState<UsageAggregate[]>(() => usageLedger.getCurrentUsage('day'));
+
+  // 수집기·사용량 장부 이벤트와 주기적 갱신으로 스냅샷 다시 조회
+  useEffect(() => {
+    const refresh = () => setSnapshot(serviceStats.getSnapshot());
+    const refreshUsage = () => setTodayUsage(usageLedger.getCurrentUsage('day'));
+    refresh();
+    refreshUsage();
+
+    serviceStats.on('statsUpdated', refresh);
+    usageLedger.on('usageRecorded', refreshUsage);
+    usageLedger.on('usageCleared', refreshUsage);
+    const timer = setInterval(() => {
+      refresh();
+      refreshUsage();
+    }, REFRESH_INTERVAL);
+    return () => {
+      serviceStats.off('statsUpdated', refresh);
+      usageLedger.off('usageRecorded', refreshUsage);
+      usageLedger.off('usageCleared', refreshUsage);
+      clearInterval(timer);
+    };
+  }, []);
+
+  const { cache, queue, latency, retries, tokensPerSecond, responsesByBackend, timeline } = snapshot;
+  const backendCounts = Object.entries(responsesByBackend);
+
+  // 밀리초를 초 단위로 표시
+  const formatSeconds = (ms: number): string =>
+    latency.count > 0 ? `${(ms / 1000).toFixed(1)}초` : '-';
+
+  // 바이트를 KB/MB로 표시
+  const formatSize = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${(bytes / 1024).toFixed(1)}KB`;
+
+  // 타임라인 구간 시각 표시
+  const formatTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' });
+
+  const maxCount = Math.max(1, ...timeline.map(bucket => bucket.requests + bucket.cacheHits));
+  const barWidth = 100 / Math.max(timeline.length, 1);
+
+  // 구간 막대 (아래부터 LLM 응답, 실패, 캐시 답변 순으로 쌓음)
+  const renderBar = (bucket: StatsTimelineBucket, index: number) => {
+    const scale = (count: number) => (count / maxCount) * CHART_HEIGHT;
+    const succeeded = scale(bucket.requests - bucket.errors);
+    const failed = scale(bucket.errors);
+    const cached = scale(bucket.cacheHits);
+    const x = index * barWidth;
+
+    return (
+      <g key={bucket.startedAt}>
+        <title>
+          {`${formatTime(bucket.startedAt)} - 요청 ${bucket.requests}, 실패 ${bucket.errors}, 캐시 ${bucket.cacheHits}` +
+            (bucket.averageLatency ? `, 평균 ${(bucket.averageLatency / 1000).toFixed(1)}초` : '')}
+        </title>
+        <rect x={x} y={CHART_HEIGHT - succeeded} width={barWidth * 0.8} height={succeeded} className="fill-brand-primary" />
+        <rect x={x} y={CHART_HEIGHT - succeeded - failed} width={barWidth * 0.8} height={failed} className="fill-red-400" />
+        <rect x={x} y={CHART_HEIGHT - succeeded - failed - cached} width={barWidth * 0.8} height={cached} className="fill-green-400" />
+      </g>
+    );
+  };
+
+  return (
+    <div className={`bg-brand-surface rounded-lg p-4 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-brand-primary">서비스 통계</h3>
+        <span className="text-xs text-brand-text-secondary">{snapshot.backend}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="p-2 rounded bg-brand-bg">
+          <div className="text-xs text-brand-text-secondary">캐시 히트율</div>
+          <div className="text-brand-text-primary font-semibold">{(cache.hitRate * 100).toFixed(1)}%</div>
+          <div className="text-xs text-brand-text-secondary">
+            {cache.hitCount}/{cache.hitCount + cache.missCount}회 · {cache.totalItems}개 · {formatSize(cache.totalSize)}
+          </div>
+        </div>
+        <div className="p-2 rounded bg-brand-bg">
+          <div className="text-xs text-brand-text-secondary">평균 응답 시간</div>
+          <div className="text-brand-text-primary font-semibold">{formatSeconds(latency.average)}</div>
+          <div className="text-xs text-brand-text-secondary">
+            p50 {formatSeconds(latency.p50)} · p90 {formatSeconds(latency.p90)} · p99 {formatSeconds(latency.p99)}
+          </div>
+        </div>
+        <div className="p-2 rounded bg-brand-bg">
+          <div className="text-xs text-brand-text-secondary">재시도 (1시간)</div>
+          <div className="text-brand-text-primary font-semibold">{retries}회</div>
+          <div className="text-xs text-brand-text-secondary">
+            응답 {latency.count}건
+            {backendCounts.length > 1 && ` (${backendCounts.map(([backend, count]) => `${backend} ${count}`).join(' · ')})`}
+          </div>
+        </div>
+        <div className="p-2 rounded bg-brand-bg">
+          <div className="text-xs text-brand-text-secondary">생성 속도</div>
+          <div className="text-brand-text-primary font-semibold">
+            {tokensPerSecond !== undefined ? `${tokensPerSecond.toFixed(1)} tok/s` : '-'}
+          </div>
+          <div className="text-xs text-brand-text-secondary">Ollama 응답 기준</div>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs text-brand-text-secondary mb-1">요청 큐 ({queue.totalLength}건)</div>
+        <div className="flex flex-wrap gap-1 text-xs">
+          {(Object.keys(REQUEST_STATUS_LABELS) as RequestStatus[]).map(status => (
+            <span key={status} className="px-2 py-0.5 rounded bg-brand-bg text-brand-text-primary">
+              {REQUEST_STATUS_LABELS[status]} {queue.countsByStatus[status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs text-brand-text-secondary mb-1">오늘 사용량</div>
+        {todayUsage.length === 0 ? (
+          <div className="text-xs text-brand-text-secondary">아직 LLM 요청이 없습니다.</div>
+        ) : (
+          <div className="space-y-1 text-xs">
+            {todayUsage.map(usage => (
+              <div key={`${usage.backend}-${usage.model}`} className="flex justify-between text-brand-text-primary">
+                <span className="truncate">{usage.model}</span>
+                <span className="text-brand-text-secondary whitespace-nowrap">
+                  {usage.requests}회 · 입력 {usage.promptTokens.toLocaleString()} · 생성 {usage.completionTokens.toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-brand-text-secondary mb-1">
+          <span>최근 1시간 요청</span>
+          <span className="flex gap-2">
+            <span className="text-brand-primary">■ 응답</span>
+            <span className="text-red-400">■ 실패</span>
+            <span className="text-green-400">■ 캐시</span>
+          </span>
+        </div>
+        <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 bg-brand-bg rounded">
+          {timeline.map(renderBar)}
+        </svg>
+        {timeline.length > 0 && (
+          <div className="flex justify-between text-xs text-brand-text-secondary mt-1">
+            <span>{formatTime(timeline[0].startedAt)}</span>
+            <span>{formatTime(timeline[timeline.length - 1].startedAt)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,13 @@
+import React from 'react';
+
+interface IconProps {
+  className?: string;
+}
+
+const StopIcon: React.FC<IconProps> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 24 24" fill="currentColor">
+    <path d="M6 6h12v12H6z" />
+  </svg>
+);
+
+export default StopIcon;
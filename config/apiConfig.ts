@@ -3,6 +3,8 @@
  * Gemini API 한도 초과 방지를 위한 설정값들을 중앙 관리
  */
 
+import { GenerationProfile, UsageBudget } from '../types/api.js';
+
 export interface RateLimitConfig {
   /** 분당 최대 요청 수 */
   REQUESTS_PER_MINUTE: number;
@@ -33,14 +35,39 @@ export interface InputLimitConfig {
 }
 
 export interface LlmConfig {
-  /** LLM 서비스 타입 */
-  SERVICE_TYPE: 'gemini' | 'ollama';
+  /** LLM 서비스 타입 (등록된 프로바이더 ID) */
+  SERVICE_TYPE: string;
   /** Ollama 서버 URL */
   OLLAMA_BASE_URL: string;
   /** 기본 Ollama 모델 */
   OLLAMA_DEFAULT_MODEL: string;
   /** 모델 자동 다운로드 여부 */
   AUTO_DOWNLOAD_MODEL: boolean;
+  /** 대화 기록 토큰 예산 (Ollama, OpenAI 호환) */
+  CONVERSATION_TOKEN_BUDGET: number;
+  /** OpenAI 호환 서버 URL (llama.cpp server, vLLM, LM Studio 등) */
+  OPENAI_COMPAT_BASE_URL: string;
+  /** OpenAI 호환 서버 기본 모델 (비어 있으면 서버의 첫 번째 모델) */
+  OPENAI_COMPAT_DEFAULT_MODEL: string;
+  /** 백엔드 장애 시 다른 백엔드로 자동 전환 여부 */
+  FAILOVER_ENABLED: boolean;
+  /** 자동 전환 순서 (현재 서비스 다음으로 시도할 프로바이더 ID) */
+  FAILOVER_ORDER: string[];
+  /** 기본 답변 생성 설정 */
+  GENERATION_PROFILE: GenerationProfile;
+  /** 모델별 기본 답변 생성 설정 (모델 이름 앞부분으로 찾으며, 가장 길게 일치하는 항목 사용) */
+  MODEL_GENERATION_PROFILES: Record<string, GenerationProfile>;
+  /** Ollama 서버의 시스템 메모리 (GB, 0이면 브라우저가 알려주는 값 사용) */
+  SYSTEM_MEMORY_GB: number;
+  /** 운영체제·브라우저 등 모델 외 용도로 남겨둘 메모리 (GB, 시스템 메모리의 절반까지만 적용) */
+  MEMORY_RESERVE_GB: number;
+}
+
+export interface UsageConfig {
+  /** 백엔드·기간별 사용량 예산 */
+  BUDGETS: UsageBudget[];
+  /** 하드 한도 도달 시 동작 (block: 요청 차단, reroute: 다음 백엔드로 전환) */
+  HARD_LIMIT_ACTION: 'block' | 'reroute';
 }
 
 export interface ApiConfig {
@@ -48,6 +75,7 @@ export interface ApiConfig {
   CACHE: CacheConfig;
   INPUT_LIMIT: InputLimitConfig;
   LLM: LlmConfig;
+  USAGE: UsageConfig;
 }
 
 /**
@@ -75,7 +103,35 @@ export const API_CONFIG: ApiConfig = {
     SERVICE_TYPE: 'ollama',  // 기본값을 ollama로 설정
     OLLAMA_BASE_URL: 'http://localhost:11434',
     OLLAMA_DEFAULT_MODEL: 'exaone3.5:2.4b',
-    AUTO_DOWNLOAD_MODEL: true
+    AUTO_DOWNLOAD_MODEL: true,
+    CONVERSATION_TOKEN_BUDGET: 2048,
+    OPENAI_COMPAT_BASE_URL: 'http://localhost:8080/v1',
+    OPENAI_COMPAT_DEFAULT_MODEL: '',
+    FAILOVER_ENABLED: true,
+    FAILOVER_ORDER: ['gemini', 'ollama', 'openai-compatible'],
+    GENERATION_PROFILE: {
+      temperature: 0.7,
+      topP: 0.9,
+      numCtx: 4096,
+      numPredict: 2048
+    },
+    MODEL_GENERATION_PROFILES: {
+      // 사고(thinking) 토큰도 최대 생성 토큰에 포함되므로 여유 있게 설정
+      'gemini-2.5': { numPredict: 8192 },
+      'exaone3.5': { numCtx: 8192, repeatPenalty: 1.1 },
+      'solar': { numCtx: 4096, repeatPenalty: 1.1 }
+    },
+    SYSTEM_MEMORY_GB: 0,
+    MEMORY_RESERVE_GB: 4
+  },
+  USAGE: {
+    // Gemini 2.5 Flash 무료 등급 한도(일 250회, 분당 250,000토큰)보다 조금 낮게 설정
+    // Gemini 일일 한도는 태평양 시간 자정에 초기화됨
+    BUDGETS: [
+      { backend: 'gemini', period: 'day', metric: 'requests', softLimit: 200, hardLimit: 240, timeZone: 'America/Los_Angeles' },
+      { backend: 'gemini', period: 'minute', metric: 'tokens', softLimit: 200000, hardLimit: 240000 }
+    ],
+    HARD_LIMIT_ACTION: 'reroute'
   }
 };
 
@@ -114,7 +170,7 @@ export const getConfig = (): ApiConfig => {
  * 설정값이 유효한 범위 내에 있는지 확인
  */
 export const validateConfig = (config: ApiConfig): boolean => {
-  const { RATE_LIMIT, CACHE, INPUT_LIMIT } = config;
+  const { RATE_LIMIT, CACHE, INPUT_LIMIT, LLM, USAGE } = config;
   
   // Rate Limit 검증
   if (RATE_LIMIT.REQUESTS_PER_MINUTE <= 0 || RATE_LIMIT.REQUESTS_PER_MINUTE > 100) {
@@ -154,6 +210,25 @@ export const validateConfig = (config: ApiConfig): boolean => {
     return false;
   }
   
+  // LLM 검증
+  if (LLM.SYSTEM_MEMORY_GB < 0 || LLM.MEMORY_RESERVE_GB < 0) {
+    console.warn('SYSTEM_MEMORY_GB and MEMORY_RESERVE_GB should not be negative');
+    return false;
+  }
+  
+  // Usage 검증
+  for (const budget of USAGE.BUDGETS) {
+    const { softLimit, hardLimit } = budget;
+    if ((softLimit !== undefined && softLimit <= 0) || (hardLimit !== undefined && hardLimit <= 0)) {
+      console.warn(`Usage budget limits for ${budget.backend} should be positive`);
+      return false;
+    }
+    if (softLimit !== undefined && hardLimit !== undefined && softLimit > hardLimit) {
+      console.warn(`Usage budget softLimit for ${budget.backend} should not exceed hardLimit`);
+      return false;
+    }
+  }
+  
   return true;
 };
 
@@ -0,0 +1,146 @@
+/**
+ * 문서 코퍼스 생성 스크립트
+ * pdf/ 폴더의 PDF에서 페이지별 텍스트를 추출해 버전이 있는 JSON 코퍼스로 저장
+ * (vite build 시 vite.config.ts의 플러그인에서 실행되며, 단독 실행도 가능)
+ * 단독 실행하면 PDF 해시를 담은 manifest.json도 함께 작성 (PDF와 함께 배포)
+ *
+ * 사용법: node scripts/buildCorpus.js [pdf 폴더] [출력 파일]
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * 코퍼스 형식 버전 (types/api.ts의 DOCUMENT_CORPUS_VERSION과 일치해야 함)
+ */
+export const CORPUS_VERSION = 1;
+
+/**
+ * 코퍼스 파일명 (pdf/manifest.json과 같은 위치에 배포)
+ */
+export const CORPUS_FILE_NAME = 'corpus.json';
+
+/**
+ * PDF 목록 파일명 (파일명과 PDF 해시, 브라우저가 코퍼스와 비교해 바뀐 문서만 다시 파싱)
+ */
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+/**
+ * SHA-256 해시 (16진수)
+ */
+function sha256(data) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * 파일명으로 고정 문서 ID 생성 (내용이 바뀌어도 유지)
+ */
+function createDocumentId(fileName) {
+  return `doc_${sha256(fileName).slice(0, 12)}`;
+}
+
+/**
+ * PDF에서 페이지별 텍스트 추출
+ * 브라우저의 App.jsx와 같은 방식(텍스트 항목을 공백으로 연결)으로 추출
+ */
+async function extractPages(data) {
+  const pdfjsLib = require('pdfjs-dist/legacy/build/pdf.js');
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  const pages = [];
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const text = textContent.items.map(item => item.str).join(' ');
+      pages.push({ pageNumber: i, text, hash: sha256(text) });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+}
+
+/**
+ * PDF 폴더로 코퍼스 생성
+ * manifest.json이 있으면 그 순서를 따르고, 없으면 파일명 순으로 정렬
+ */
+export async function buildCorpus(pdfDir) {
+  const entries = await readdir(pdfDir);
+  const pdfFiles = entries.filter(file => file.toLowerCase().endsWith('.pdf'));
+  const manifestOrder = await readManifest(pdfDir);
+
+  pdfFiles.sort((a, b) => orderOf(manifestOrder, a) - orderOf(manifestOrder, b) || a.localeCompare(b));
+
+  const documents = [];
+  for (const fileName of pdfFiles) {
+    const data = await readFile(path.join(pdfDir, fileName));
+    const pages = await extractPages(new Uint8Array(data));
+
+    documents.push({
+      id: createDocumentId(fileName),
+      fileName,
+      sha256: sha256(data),
+      pageCount: pages.length,
+      pages
+    });
+  }
+
+  return {
+    version: CORPUS_VERSION,
+    generatedAt: new Date().toISOString(),
+    documents
+  };
+}
+
+/**
+ * 코퍼스의 문서 순서대로 파일명과 PDF 해시를 담은 manifest 생성
+ */
+export function createManifest(corpus) {
+  return corpus.documents.map(({ fileName, sha256 }) => ({ fileName, sha256 }));
+}
+
+/**
+ * manifest.json의 파일 순서 조회 (없으면 빈 목록, 파일명 문자열과 { fileName } 항목 모두 지원)
+ */
+async function readManifest(pdfDir) {
+  try {
+    const manifest = JSON.parse(await readFile(path.join(pdfDir, MANIFEST_FILE_NAME), 'utf8'));
+    return manifest.map(entry => (typeof entry === 'string' ? entry : entry.fileName));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * manifest 내 순서 (목록에 없으면 뒤로)
+ */
+function orderOf(manifestOrder, fileName) {
+  const index = manifestOrder.indexOf(fileName);
+  return index === -1 ? manifestOrder.length : index;
+}
+
+// 단독 실행 시 코퍼스 파일과 같은 폴더의 manifest.json 작성
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+  const pdfDir = path.resolve(process.argv[2] || path.join(rootDir, 'pdf'));
+  const outFile = path.resolve(process.argv[3] || path.join(pdfDir, CORPUS_FILE_NAME));
+
+  buildCorpus(pdfDir)
+    .then(async (corpus) => {
+      await writeFile(outFile, JSON.stringify(corpus));
+      await writeFile(path.join(path.dirname(outFile), MANIFEST_FILE_NAME), JSON.stringify(createManifest(corpus), null, 2) + '\n');
+      const pageCount = corpus.documents.reduce((total, doc) => total + doc.pageCount, 0);
+      console.log(`Document corpus written to ${outFile} (${corpus.documents.length} documents, ${pageCount} pages)`);
+    })
+    .catch((error) => {
+      console.error('Failed to build document corpus:', error);
+      process.exit(1);
+    });
+}
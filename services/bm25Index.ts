@@ -0,0 +1,155 @@
+/**
+ * BM25 검색 인덱스
+ * 한국어 조사 제거와 음절 바이그램을 사용하는 로컬 전문 검색
+ */
+
+/**
+ * 어절 끝에서 제거할 조사 (긴 것부터 검사)
+ */
+const KOREAN_PARTICLES = [
+  '으로부터', '에서부터', '으로써', '으로서', '에게서', '이라는', '에서는', '에서의',
+  '으로', '에서', '에게', '까지', '부터', '보다', '처럼', '이나', '이며', '이고', '라는', '께서', '한테',
+  '은', '는', '이', '가', '을', '를', '에', '의', '도', '만', '로', '와', '과', '나'
+];
+
+const HANGUL = /[가-힣]/;
+
+/**
+ * 한국어 친화적 토큰화
+ * - 어절 끝 조사 제거 (남는 어간이 2음절 이상일 때만)
+ * - 한글 어간은 음절 바이그램도 함께 색인해 띄어쓰기·복합어 차이를 흡수
+ */
+export const tokenizeKorean = (text: string): string[] => {
+  const words = text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const tokens: string[] = [];
+
+  for (const word of words) {
+    if (!HANGUL.test(word)) {
+      tokens.push(word);
+      continue;
+    }
+
+    const stem = stripParticle(word);
+    tokens.push(stem);
+
+    for (let i = 0; i < stem.length - 1; i++) {
+      const bigram = stem.slice(i, i + 2);
+      if (bigram !== stem) {
+        tokens.push(bigram);
+      }
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * 어절 끝 조사 제거
+ */
+export const stripParticle = (word: string): string => {
+  for (const particle of KOREAN_PARTICLES) {
+    if (word.endsWith(particle) && word.length - particle.length >= 2) {
+      return word.slice(0, -particle.length);
+    }
+  }
+  return word;
+};
+
+/**
+ * 색인된 문서 정보
+ */
+interface IndexedDocument {
+  id: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * BM25 인덱스 클래스
+ */
+export class Bm25Index {
+  private documents: IndexedDocument[] = [];
+  private documentFrequencies: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  constructor(
+    private k1 = 1.2,
+    private b = 0.75,
+    private tokenize: (text: string) => string[] = tokenizeKorean
+  ) {}
+
+  /**
+   * 문서 추가
+   */
+  add(id: string, text: string): void {
+    const tokens = this.tokenize(text);
+    const termFrequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    termFrequencies.forEach((_, term) => {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    });
+
+    this.documents.push({ id, termFrequencies, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * 질의와 관련도가 높은 문서 검색
+   */
+  search(query: string, limit: number): Array<{ id: string; score: number }> {
+    if (this.documents.length === 0 || limit <= 0) {
+      return [];
+    }
+
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    const averageLength = this.totalLength / this.documents.length;
+    const results: Array<{ id: string; score: number }> = [];
+
+    for (const document of this.documents) {
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const normalization = this.k1 * (1 - this.b + this.b * document.length / averageLength);
+        score += this.idf(term) * (frequency * (this.k1 + 1)) / (frequency + normalization);
+      }
+
+      if (score > 0) {
+        results.push({ id: document.id, score });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * 역문서 빈도
+   */
+  private idf(term: string): number {
+    const documentFrequency = this.documentFrequencies.get(term) || 0;
+    const total = this.documents.length;
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  /**
+   * 색인된 문서 수
+   */
+  size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * 인덱스 초기화
+   */
+  clear(): void {
+    this.documents = [];
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * 캐시 압축
+ * 저장소에 기록하는 CacheItem.data를 압축하고 불러올 때 복원
+ * CompressionStream(gzip)을 우선 사용하고, 없으면 순수 TS LZW 압축으로 대체
+ */
+
+import { CacheCompression } from '../types/api.js';
+
+/**
+ * 압축 결과
+ */
+export interface CompressedData {
+  /** 압축한 데이터 (Base64) */
+  data: string;
+  /** 압축 방식 */
+  compression: CacheCompression;
+  /** 저장 크기 (바이트) */
+  size: number;
+}
+
+/**
+ * LZW 사전 최대 크기 (코드 최대 16비트)
+ */
+const LZW_MAX_DICTIONARY_SIZE = 1 << 16;
+
+/**
+ * 데이터 압축
+ * 압축해도 작아지지 않으면 null을 반환해 원본 그대로 저장하도록 함
+ */
+export async function compressData(data: any): Promise<CompressedData | null> {
+  const json = JSON.stringify(data);
+  const originalSize = new TextEncoder().encode(json).length;
+  const compression: CacheCompression = supportsCompressionStream() ? 'gzip' : 'lz';
+
+  const bytes = compression === 'gzip'
+    ? await gzip(json)
+    : lzwCompress(new TextEncoder().encode(json));
+  const encoded = toBase64(bytes);
+
+  if (encoded.length >= originalSize) {
+    return null;
+  }
+
+  return { data: encoded, compression, size: encoded.length };
+}
+
+/**
+ * 압축한 데이터 복원
+ */
+export async function decompressData(data: string, compression: CacheCompression): Promise<any> {
+  const bytes = fromBase64(data);
+  let json: string;
+
+  if (compression === 'gzip') {
+    if (!supportsCompressionStream()) {
+      throw new Error('DecompressionStream is not available for gzip cache data');
+    }
+    json = await gunzip(bytes);
+  } else {
+    json = new TextDecoder().decode(lzwDecompress(bytes));
+  }
+
+  return JSON.parse(json);
+}
+
+/**
+ * CompressionStream 지원 여부
+ */
+function supportsCompressionStream(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/**
+ * gzip 압축
+ */
+async function gzip(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * gzip 해제
+ */
+async function gunzip(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+/**
+ * i번째 코드의 비트 수 (그 시점 사전의 가장 큰 코드를 표현할 수 있는 크기)
+ * 압축과 해제가 같은 규칙을 쓰므로 별도 표시 없이 비트 수가 맞춰짐
+ */
+function lzwCodeWidth(index: number): number {
+  return Math.min(16, Math.max(9, 32 - Math.clz32(255 + index)));
+}
+
+/**
+ * LZW 압축 (UTF-8 바이트 단위)
+ * 형식: 코드 개수(4바이트) + 가변 길이 코드 비트열
+ */
+export function lzwCompress(input: Uint8Array): Uint8Array {
+  const dictionary = new Map<number, number>();
+  const codes: number[] = [];
+  let nextCode = 256;
+  let current = -1;
+
+  for (const byte of input) {
+    if (current < 0) {
+      current = byte;
+      continue;
+    }
+
+    const key = current * 256 + byte;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    codes.push(current);
+    if (nextCode < LZW_MAX_DICTIONARY_SIZE) {
+      dictionary.set(key, nextCode++);
+    }
+    current = byte;
+  }
+  if (current >= 0) {
+    codes.push(current);
+  }
+
+  const writer = new BitWriter();
+  writer.write(codes.length, 32);
+  codes.forEach((code, index) => writer.write(code, lzwCodeWidth(index)));
+  return writer.toBytes();
+}
+
+/**
+ * LZW 해제
+ */
+export function lzwDecompress(input: Uint8Array): Uint8Array {
+  const reader = new BitReader(input);
+  const codeCount = reader.read(32);
+  if (codeCount === 0) {
+    return new Uint8Array(0);
+  }
+
+  const dictionary: number[][] = [];
+  for (let i = 0; i < 256; i++) {
+    dictionary.push([i]);
+  }
+
+  const output: number[] = [];
+  let previous = dictionary[reader.read(lzwCodeWidth(0))];
+  output.push(...previous);
+
+  for (let index = 1; index < codeCount; index++) {
+    const code = reader.read(lzwCodeWidth(index));
+    let entry: number[];
+
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length) {
+      entry = [...previous, previous[0]];
+    } else {
+      throw new Error(`Invalid LZW code ${code} at position ${index}`);
+    }
+
+    output.push(...entry);
+    if (dictionary.length < LZW_MAX_DICTIONARY_SIZE) {
+      dictionary.push([...previous, entry[0]]);
+    }
+    previous = entry;
+  }
+
+  return new Uint8Array(output);
+}
+
+/**
+ * 비트 단위 기록 (하위 비트부터)
+ */
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private bitCount = 0;
+
+  write(value: number, width: number): void {
+    for (let i = 0; i < width; i++) {
+      this.buffer |= ((Math.floor(value / 2 ** i) & 1) << this.bitCount);
+      this.bitCount++;
+      if (this.bitCount === 8) {
+        this.bytes.push(this.buffer);
+        this.buffer = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  toBytes(): Uint8Array {
+    const bytes = this.bitCount > 0 ? [...this.bytes, this.buffer] : this.bytes;
+    return new Uint8Array(bytes);
+  }
+}
+
+/**
+ * 비트 단위 읽기 (하위 비트부터)
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(width: number): number {
+    let value = 0;
+    for (let i = 0; i < width; i++) {
+      const byte = this.bytes[this.position >> 3];
+      if (byte === undefined) {
+        throw new Error('Unexpected end of LZW data');
+      }
+      value += ((byte >> (this.position & 7)) & 1) * 2 ** i;
+      this.position++;
+    }
+    return value;
+  }
+}
+
+/**
+ * 바이트 배열을 Base64 문자열로 변환
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Base64 문자열을 바이트 배열로 변환
+ */
+function fromBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
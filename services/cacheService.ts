@@ -7,41 +7,113 @@ import {
   CacheItem, 
   CacheStats, 
   CacheConfig, 
+  CacheExport,
+  CacheImportResult,
+  Citation,
+  CACHE_EXPORT_VERSION,
   DEFAULT_CACHE_CONFIG,
-  EventCallback
+  EventCallback,
+  EvictionReason,
+  FAQ_FILE_VERSION,
+  FaqFile,
+  SimilarCacheMatch,
+  TermVector
 } from '../types/api.js';
+import { cosineSimilarity, createQuestionVector, isCompatibleQuestion, normalizeQuestion } from './questionSimilarity.js';
+import { compressData, decompressData } from './cacheCompression.js';
+import { EvictionPolicy, createEvictionPolicy } from './evictionPolicy.js';
+import {
+  CacheStorageAdapter,
+  CacheStorageUsage,
+  LEGACY_CACHE_STORAGE_KEY,
+  createCacheStorage,
+  isQuotaExceededError
+} from './cacheStorage.js';
+
+/**
+ * 질문-답변 캐시 항목
+ */
+export interface QaCacheEntry {
+  question: string;
+  answer: string;
+  citations?: Citation[];
+  /** 조회한 질문과의 유사도 (1이면 같은 질문) */
+  similarity?: number;
+}
+
+/**
+ * 캐시 저장 옵션
+ */
+export interface CacheSetOptions {
+  /** 유사도 검색용 벡터 */
+  vector?: TermVector;
+  /** 무효화 기준 태그 (예: corpus:<지문>, backend:<ID>, model:<이름>) */
+  tags?: string[];
+  /** 고정 여부 (만료되거나 교체 정책으로 내보내지지 않음) */
+  pinned?: boolean;
+}
+
+/**
+ * 답변을 생성한 백엔드 정보
+ */
+export interface QaAnswerSource {
+  /** LLM 백엔드 (프로바이더 ID) */
+  backend: string;
+  /** 모델 이름 */
+  model?: string | null;
+}
+
+/**
+ * 답변 태그 접두사
+ */
+export const CACHE_TAG_PREFIX = {
+  CORPUS: 'corpus:',
+  BACKEND: 'backend:',
+  MODEL: 'model:',
+  FAQ: 'faq:'
+} as const;
 
 /**
  * 캐시 서비스 클래스
- * 메모리 캐시와 localStorage를 결합한 하이브리드 캐시 시스템
+ * 메모리 캐시와 영구 저장소 어댑터(IndexedDB, localStorage, 메모리)를 결합한 하이브리드 캐시 시스템
+ * 조회는 메모리에서 동기로 처리하고, 저장소에는 바뀐 항목만 비동기로 기록
+ * 최대 항목 수나 크기를 넘으면 설정한 교체 정책이 고른 항목부터 내보냄 (고정 항목 제외)
  */
 export class CacheService {
   private memoryCache = new Map<string, CacheItem>();
-  private stats: CacheStats = {
-    totalItems: 0,
-    hitCount: 0,
-    missCount: 0,
-    hitRate: 0,
-    totalSize: 0,
-    averageItemSize: 0,
-    expiredItems: 0,
-    mostAccessedItem: undefined
-  };
+  private stats: CacheStats = this.createInitialStats();
   private eventCallbacks: Map<string, EventCallback[]> = new Map();
+  /** 압축 중인 저장 요청의 순번 (같은 키에 더 나중에 저장한 값이 있으면 앞의 값은 버림) */
+  private pendingWrites = new Map<string, number>();
   private cleanupTimer?: NodeJS.Timeout;
-  private readonly STORAGE_KEY = 'gemini_cache';
-  private readonly MAX_STORAGE_SIZE = 5 * 1024 * 1024; // 5MB
+  private evictionPolicy: EvictionPolicy;
+  private readonly ready: Promise<void>;
 
-  constructor(private config: CacheConfig = DEFAULT_CACHE_CONFIG) {
-    this.loadFromStorage();
+  constructor(
+    private config: CacheConfig = DEFAULT_CACHE_CONFIG,
+    private readonly storage: CacheStorageAdapter = createCacheStorage()
+  ) {
+    this.evictionPolicy = createEvictionPolicy(config.evictionPolicy);
+    this.ready = this.loadFromStorage();
     this.startCleanupTimer();
   }
 
+  /**
+   * 저장소에서 캐시를 모두 불러올 때까지 대기
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
   /**
    * 캐시에서 데이터 조회
+   * filter를 통과하지 못한 항목은 히트/미스 통계에 반영하지 않고 null 반환 (호출자가 다른 방법으로 다시 조회)
    */
-  get<T = any>(key: string): T | null {
+  get<T = any>(key: string, filter?: (item: CacheItem) => boolean): T | null {
     const item = this.memoryCache.get(key);
+    if (item && filter && !filter(item)) {
+      return null;
+    }
     
     if (!item) {
       this.stats.missCount++;
@@ -60,10 +132,7 @@ export class CacheService {
       return null;
     }
 
-    // 접근 정보 업데이트
-    item.lastAccessedAt = Date.now();
-    item.accessCount++;
-    this.updateMostAccessedItem(key, item.accessCount);
+    this.recordAccess(key, item);
     
     this.stats.hitCount++;
     this.updateHitRate();
@@ -72,25 +141,59 @@ export class CacheService {
     return item.data as T;
   }
 
+  /**
+   * 벡터가 가장 비슷한 항목 조회
+   * 유사도가 임계값 이상인 항목 중 가장 높은 것을 반환하며 히트/미스 통계에 반영
+   */
+  findSimilar<T = any>(
+    vector: TermVector,
+    options: { prefix?: string; threshold?: number; filter?: (item: CacheItem) => boolean } = {}
+  ): SimilarCacheMatch<T> | null {
+    const threshold = options.threshold ?? this.config.similarityThreshold;
+    let bestKey: string | null = null;
+    let bestSimilarity = 0;
+
+    if (this.config.semanticLookup) {
+      this.memoryCache.forEach((item, key) => {
+        if (!item.vector || this.isExpired(item)) return;
+        if (options.prefix && !key.startsWith(options.prefix)) return;
+        if (options.filter && !options.filter(item)) return;
+
+        const similarity = cosineSimilarity(vector, item.vector);
+        if (similarity >= threshold && similarity > bestSimilarity) {
+          bestKey = key;
+          bestSimilarity = similarity;
+        }
+      });
+    }
+
+    const item = bestKey ? this.memoryCache.get(bestKey) : undefined;
+    if (!bestKey || !item) {
+      this.stats.missCount++;
+      this.updateHitRate();
+      this.emit('cacheMiss', { vector });
+      return null;
+    }
+
+    this.recordAccess(bestKey, item);
+
+    this.stats.hitCount++;
+    this.updateHitRate();
+    this.emit('cacheHit', { key: bestKey, item, similarity: bestSimilarity });
+
+    return { key: bestKey, data: item.data as T, similarity: bestSimilarity };
+  }
+
   /**
    * 캐시에 데이터 저장
    */
-  set<T = any>(key: string, data: T, ttl?: number): boolean {
+  async set<T = any>(key: string, data: T, ttl?: number, options: CacheSetOptions = {}): Promise<boolean> {
     try {
       const now = Date.now();
       const expiresAt = now + (ttl || this.config.defaultTTL);
       const size = this.calculateSize(data);
-      
-      // 저장소 용량 확인
-      if (this.wouldExceedStorageLimit(size)) {
-        this.cleanupOldItems();
-        if (this.wouldExceedStorageLimit(size)) {
-          this.emit('cacheFull', { key, size });
-          return false;
-        }
-      }
 
-      const item: CacheItem = {
+      return await this.admitItem({
         key,
         data,
         createdAt: now,
@@ -98,25 +201,11 @@ export class CacheService {
         lastAccessedAt: now,
         accessCount: 0,
         size,
-        tags: []
-      };
-
-      // 기존 아이템이 있다면 크기 차이만큼 통계 업데이트
-      const existingItem = this.memoryCache.get(key);
-      if (existingItem) {
-        this.stats.totalSize -= existingItem.size;
-      } else {
-        this.stats.totalItems++;
-      }
-
-      this.memoryCache.set(key, item);
-      this.stats.totalSize += size;
-      this.stats.averageItemSize = this.stats.totalSize / this.stats.totalItems;
-
-      this.saveToStorage();
-      this.emit('cacheSet', { key, item });
-      
-      return true;
+        originalSize: size,
+        tags: options.tags ?? [],
+        vector: options.vector,
+        pinned: options.pinned || undefined
+      });
     } catch (error) {
       console.error('Cache set error:', error);
       this.emit('cacheError', { key, error });
@@ -124,53 +213,194 @@ export class CacheService {
     }
   }
 
+  /**
+   * 고정 항목인지 확인
+   */
+  isPinned(key: string): boolean {
+    return !!this.memoryCache.get(key)?.pinned;
+  }
+
+  /**
+   * 캐시 내보내기
+   * 만료되지 않은 항목을 압축하지 않은 원본 데이터로 내보냄 (접두사로 범위 지정 가능)
+   */
+  exportItems(options: { prefix?: string } = {}): CacheExport {
+    const items: CacheItem[] = [];
+
+    this.memoryCache.forEach((item, key) => {
+      if (this.isExpired(item)) return;
+      if (options.prefix && !key.startsWith(options.prefix)) return;
+      items.push(structuredClone(item));
+    });
+
+    return { version: CACHE_EXPORT_VERSION, exportedAt: new Date().toISOString(), items };
+  }
+
+  /**
+   * 내보낸 캐시 가져오기
+   * 형식 버전이 다르면 에러를 던지고, 형식이 올바르지 않은 항목은 버리며 만료된 항목은 건너뜀
+   * overwrite가 아니면 이미 있는 항목은 그대로 둠
+   */
+  async importItems(data: unknown, options: { overwrite?: boolean } = {}): Promise<CacheImportResult> {
+    if (!this.isValidCacheExport(data)) {
+      const version = typeof data === 'object' && data !== null && 'version' in data ? data.version : undefined;
+      throw new Error(`Unsupported cache export version: ${version}`);
+    }
+
+    await this.ready;
+    const result: CacheImportResult = { imported: 0, skipped: 0, invalid: 0 };
+
+    for (const item of data.items) {
+      if (!this.isValidCacheItem(item)) {
+        result.invalid++;
+        continue;
+      }
+      if (this.isExpired(item) || (!options.overwrite && this.memoryCache.has(item.key))) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const decoded = await this.decodeFromStorage(item);
+        const size = this.calculateSize(decoded.data);
+        if (await this.admitItem({ ...decoded, size, originalSize: size })) {
+          result.imported++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        result.invalid++;
+        this.emit('cacheError', { key: item.key, error });
+      }
+    }
+
+    this.emit('cacheImported', result);
+    return result;
+  }
+
   /**
    * 캐시에서 데이터 제거
    */
   remove(key: string): boolean {
-    const item = this.memoryCache.get(key);
+    this.pendingWrites.delete(key);
+    const item = this.detachItem(key);
     if (!item) {
       return false;
     }
 
-    this.memoryCache.delete(key);
-    this.stats.totalItems--;
-    this.stats.totalSize -= item.size;
-    this.stats.averageItemSize = this.stats.totalItems > 0 
-      ? this.stats.totalSize / this.stats.totalItems 
-      : 0;
-
-    this.saveToStorage();
+    this.deleteFromStorage(key);
     this.emit('cacheRemoved', { key, item });
     
     return true;
   }
 
   /**
-   * 캐시 초기화
+   * 태그가 붙은 항목의 키 조회
+   */
+  getKeysByTag(tag: string): string[] {
+    const keys: string[] = [];
+    this.memoryCache.forEach((item, key) => {
+      if (item.tags?.includes(tag)) {
+        keys.push(key);
+      }
+    });
+    return keys;
+  }
+
+  /**
+   * 태그가 붙은 항목 무효화
+   */
+  invalidateByTag(tag: string): number {
+    return this.invalidateWhere(item => !!item.tags?.includes(tag), { tag });
+  }
+
+  /**
+   * 태그 중 하나라도 붙은 항목 무효화
+   */
+  invalidateByTags(tags: string[]): number {
+    return this.invalidateWhere(item => tags.some(tag => item.tags?.includes(tag)), { tags });
+  }
+
+  /**
+   * 조건에 맞는 항목 무효화
+   * 한 번에 지우고 저장소에는 한 번만 기록
+   */
+  invalidateWhere(predicate: (item: CacheItem) => boolean, reason: any = {}): number {
+    const removed: CacheItem[] = [];
+
+    this.memoryCache.forEach((item, key) => {
+      if (predicate(item)) {
+        this.memoryCache.delete(key);
+        this.evictionPolicy.onRemove(key);
+        removed.push(item);
+      }
+    });
+
+    if (removed.length === 0) {
+      return 0;
+    }
+
+    this.updateStatsFromMemory();
+    removed.forEach(item => this.deleteFromStorage(item.key));
+    this.emit('cacheInvalidated', { count: removed.length, keys: removed.map(item => item.key), reason });
+
+    return removed.length;
+  }
+
+  /**
+   * 캐시 초기화 (검수한 FAQ 답변처럼 고정한 항목은 유지)
    */
   clear(): void {
+    const pinnedItems = Array.from(this.memoryCache.values()).filter(item => item.pinned);
+
     this.memoryCache.clear();
-    this.stats = {
-      totalItems: 0,
-      hitCount: 0,
-      missCount: 0,
-      hitRate: 0,
-      totalSize: 0,
-      averageItemSize: 0,
-      expiredItems: 0,
-      mostAccessedItem: undefined
-    };
+    this.pendingWrites.clear();
+    this.evictionPolicy.clear();
+    pinnedItems.forEach(item => this.memoryCache.set(item.key, item));
+    this.stats = this.createInitialStats();
+    this.updateStatsFromMemory();
     
-    localStorage.removeItem(this.STORAGE_KEY);
-    this.emit('cacheCleared', {});
+    // 저장소를 비운 뒤 고정 항목을 다시 기록
+    this.storage.clear().then(() => {
+      return Promise.all(pinnedItems.map(async (item) => this.persistItem(item, await this.encodeForStorage(item))));
+    }).catch(error => {
+      console.error('Cache clear error:', error);
+      this.emit('cacheError', { error });
+    });
+    this.emit('cacheCleared', { keptCount: pinnedItems.length });
   }
 
   /**
    * 캐시 통계 조회
    */
   getStats(): CacheStats {
-    return { ...this.stats };
+    return { ...this.stats, evictionsByReason: { ...this.stats.evictionsByReason } };
+  }
+
+  /**
+   * 설정 업데이트
+   * 교체 정책이 바뀌면 현재 항목으로 장부를 다시 만들고, 줄어든 한도에 맞춰 항목을 내보냄
+   */
+  updateConfig(newConfig: Partial<CacheConfig>): void {
+    const previousPolicy = this.config.evictionPolicy;
+    this.config = { ...this.config, ...newConfig };
+
+    if (this.config.evictionPolicy !== previousPolicy) {
+      this.evictionPolicy = createEvictionPolicy(this.config.evictionPolicy);
+      this.rebuildEvictionPolicy();
+    }
+    this.enforceLimits();
+  }
+
+  /**
+   * 저장소 사용량 조회
+   */
+  async getStorageUsage(): Promise<CacheStorageUsage | null> {
+    try {
+      return await this.storage.getUsage();
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -209,29 +439,146 @@ export class CacheService {
   }
 
   /**
-   * 오래된 아이템 정리 (LRU 기반)
+   * 저장 크기를 계산한 뒤 항목 저장
+   * 압축을 쓰면 압축한 크기로 한도를 적용하고, 압축하는 동안 제거되었거나
+   * 같은 키에 더 나중에 저장한 값이 있으면 저장하지 않음
    */
-  private cleanupOldItems(): void {
-    const items: Array<{ key: string; item: CacheItem; lastAccessed: number }> = [];
-    
-    this.memoryCache.forEach((item, key) => {
-      items.push({ key, item, lastAccessed: item.lastAccessedAt });
-    });
-    
-    items.sort((a, b) => a.lastAccessed - b.lastAccessed);
+  private async admitItem(item: CacheItem): Promise<boolean> {
+    const version = (this.pendingWrites.get(item.key) ?? 0) + 1;
+    this.pendingWrites.set(item.key, version);
 
-    // 가장 오래된 20% 제거
-    const removeCount = Math.ceil(items.length * 0.2);
-    for (let i = 0; i < removeCount; i++) {
-      this.remove(items[i].key);
+    try {
+      const stored = await this.encodeForStorage(item);
+      if (this.pendingWrites.get(item.key) !== version) {
+        return false;
+      }
+
+      item.size = stored.size;
+      return this.storeItem(item, stored);
+    } finally {
+      if (this.pendingWrites.get(item.key) === version) {
+        this.pendingWrites.delete(item.key);
+      }
     }
   }
 
   /**
-   * 아이템 만료 확인
+   * 항목을 메모리에 넣고 저장소에 기록
+   * 한도를 넘으면 교체 정책으로 자리를 만들고, 고정 항목만 남아 자리가 없으면 저장하지 않음
+   */
+  private storeItem(item: CacheItem, stored: CacheItem): boolean {
+    // 항목 하나가 최대 캐시 크기보다 크면 저장하지 않음
+    if (item.size > this.config.maxSize) {
+      this.emit('cacheFull', { key: item.key, size: item.size });
+      return false;
+    }
+
+    // 기존 아이템은 떼어낸 뒤 새 아이템이 들어갈 자리를 확보
+    this.detachItem(item.key);
+    if (!this.enforceLimits(1, item.size)) {
+      this.deleteFromStorage(item.key);
+      this.emit('cacheFull', { key: item.key, size: item.size });
+      return false;
+    }
+
+    this.memoryCache.set(item.key, item);
+    if (!item.pinned) {
+      this.evictionPolicy.onInsert(item);
+    }
+    this.stats.totalItems++;
+    this.stats.totalSize += item.size;
+    this.stats.totalOriginalSize += item.originalSize ?? item.size;
+    this.updateDerivedStats();
+
+    this.persistItem(item, stored);
+    this.emit('cacheSet', { key: item.key, item });
+
+    return true;
+  }
+
+  /**
+   * 접근 정보 업데이트
+   */
+  private recordAccess(key: string, item: CacheItem): void {
+    item.lastAccessedAt = Date.now();
+    item.accessCount++;
+    this.updateMostAccessedItem(key, item.accessCount);
+    if (!item.pinned) {
+      this.evictionPolicy.onAccess(item);
+    }
+  }
+
+  /**
+   * 최대 항목 수와 크기 한도 적용
+   * 들어올 항목 수와 크기만큼 자리가 생길 때까지 교체 정책이 고른 항목을 내보냄
+   * 고정 항목만 남아 자리를 만들 수 없으면 false
+   */
+  private enforceLimits(incomingCount = 0, incomingSize = 0): boolean {
+    while (this.memoryCache.size + incomingCount > this.config.maxItems) {
+      if (!this.evict(EvictionReason.MAX_ITEMS)) return false;
+    }
+    while (this.stats.totalSize + incomingSize > this.config.maxSize) {
+      if (!this.evict(EvictionReason.MAX_SIZE)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * 교체 정책이 고른 항목 하나를 내보냄 (내보낼 항목이 없으면 false)
+   */
+  private evict(reason: EvictionReason): boolean {
+    let key = this.evictionPolicy.selectVictim();
+    // 장부가 메모리와 어긋났으면 다시 만든 뒤 한 번 더 선택
+    if (key === undefined || !this.memoryCache.has(key)) {
+      this.rebuildEvictionPolicy();
+      key = this.evictionPolicy.selectVictim();
+    }
+    if (key === undefined) {
+      return false;
+    }
+
+    const item = this.detachItem(key)!;
+    this.deleteFromStorage(key);
+    this.stats.evictedItems++;
+    this.stats.evictionsByReason[reason]++;
+    this.emit('cacheEvicted', { key, item, reason, policy: this.evictionPolicy.type });
+    return true;
+  }
+
+  /**
+   * 메모리와 교체 정책 장부에서 항목을 떼어내고 통계 갱신 (저장소는 그대로)
+   */
+  private detachItem(key: string): CacheItem | undefined {
+    this.evictionPolicy.onRemove(key);
+    const item = this.memoryCache.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    this.memoryCache.delete(key);
+    this.stats.totalItems--;
+    this.stats.totalSize -= item.size;
+    this.stats.totalOriginalSize -= item.originalSize ?? item.size;
+    this.updateDerivedStats();
+    return item;
+  }
+
+  /**
+   * 메모리의 항목으로 교체 정책 장부 재구성 (고정 항목 제외, 마지막 접근 순서대로 추가)
+   */
+  private rebuildEvictionPolicy(): void {
+    this.evictionPolicy.clear();
+    Array.from(this.memoryCache.values())
+      .filter(item => !item.pinned)
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)
+      .forEach(item => this.evictionPolicy.onInsert(item));
+  }
+
+  /**
+   * 아이템 만료 확인 (고정 항목은 만료되지 않음)
    */
   private isExpired(item: CacheItem): boolean {
-    return Date.now() > item.expiresAt;
+    return !item.pinned && Date.now() > item.expiresAt;
   }
 
   /**
@@ -245,13 +592,6 @@ export class CacheService {
     }
   }
 
-  /**
-   * 저장소 용량 초과 확인
-   */
-  private wouldExceedStorageLimit(additionalSize: number): boolean {
-    return this.stats.totalSize + additionalSize > this.config.maxSize;
-  }
-
   /**
    * 히트율 업데이트
    */
@@ -275,24 +615,35 @@ export class CacheService {
   }
 
   /**
-   * localStorage에서 로드
+   * 저장소를 열고 로드 (이전 localStorage 캐시가 있으면 먼저 옮김)
+   * 로드 전에 저장된 항목이 더 최신이므로 덮어쓰지 않음
    */
-  private loadFromStorage(): void {
+  private async loadFromStorage(): Promise<void> {
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      if (!stored) return;
+      await this.storage.open?.();
+      await this.migrateLegacyStorage();
+      const items = await this.storage.loadAll();
 
-      const data = JSON.parse(stored);
-      if (!Array.isArray(data)) return;
+      for (const item of items) {
+        if (!this.isValidCacheItem(item) || this.isExpired(item)) {
+          this.deleteFromStorage(item.key);
+          continue;
+        }
+        if (this.memoryCache.has(item.key)) continue;
 
-      for (const item of data) {
-        if (this.isValidCacheItem(item) && !this.isExpired(item)) {
-          this.memoryCache.set(item.key, item);
+        try {
+          this.memoryCache.set(item.key, await this.decodeFromStorage(item));
+        } catch (error) {
+          // 복원할 수 없는 항목은 버림
+          this.deleteFromStorage(item.key);
+          this.emit('cacheError', { key: item.key, error });
         }
       }
 
       this.updateStatsFromMemory();
-      this.emit('cacheLoaded', { count: this.memoryCache.size });
+      this.rebuildEvictionPolicy();
+      this.enforceLimits();
+      this.emit('cacheLoaded', { count: this.memoryCache.size, storage: this.storage.name });
     } catch (error) {
       console.error('Cache load error:', error);
       this.emit('cacheError', { error });
@@ -300,31 +651,102 @@ export class CacheService {
   }
 
   /**
-   * localStorage에 저장
+   * 이전 버전의 localStorage 캐시(gemini_cache)를 현재 저장소로 이전
    */
-  private saveToStorage(): void {
+  private async migrateLegacyStorage(): Promise<void> {
+    if (this.storage.name === 'localStorage' || typeof localStorage === 'undefined') return;
+
+    const stored = localStorage.getItem(LEGACY_CACHE_STORAGE_KEY);
+    if (!stored) return;
+
+    let migratedCount = 0;
     try {
-      const data: CacheItem[] = [];
-      this.memoryCache.forEach(item => {
-        data.push(item);
-      });
-      
-      const json = JSON.stringify(data);
-      
-      if (json.length > this.MAX_STORAGE_SIZE) {
-        this.cleanupOldItems();
-        const newData: CacheItem[] = [];
-        this.memoryCache.forEach(item => {
-          newData.push(item);
-        });
-        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(newData));
-      } else {
-        localStorage.setItem(this.STORAGE_KEY, json);
+      const data = JSON.parse(stored);
+      if (Array.isArray(data)) {
+        for (const item of data) {
+          if (this.isValidCacheItem(item) && !this.isExpired(item)) {
+            await this.storage.put(item);
+            migratedCount++;
+          }
+        }
       }
     } catch (error) {
-      console.error('Cache save error:', error);
-      this.emit('cacheError', { error });
+      // 손상된 이전 캐시는 옮기지 않고 버림
+      console.error('Cache migration error:', error);
     }
+
+    localStorage.removeItem(LEGACY_CACHE_STORAGE_KEY);
+    this.emit('cacheMigrated', { count: migratedCount, from: 'localStorage', to: this.storage.name });
+  }
+
+  /**
+   * 항목을 저장소에 기록
+   * 용량이 부족하면 교체 정책으로 항목의 20%를 내보낸 뒤 한 번 더 시도
+   */
+  private persistItem(item: CacheItem, stored: CacheItem, retryOnQuota = true): void {
+    this.storage.put(stored).catch(error => {
+      if (!isQuotaExceededError(error)) {
+        console.error('Cache save error:', error);
+        this.emit('cacheError', { key: item.key, error });
+        return;
+      }
+
+      this.emit('cacheQuotaExceeded', { key: item.key, storage: this.storage.name });
+      if (retryOnQuota) {
+        const evictCount = Math.ceil(this.memoryCache.size * 0.2);
+        for (let i = 0; i < evictCount; i++) {
+          if (!this.evict(EvictionReason.QUOTA)) break;
+        }
+        // 정리 중 제거되었거나 새 값으로 바뀐 항목은 다시 기록하지 않음
+        if (this.memoryCache.get(item.key) === item) {
+          this.persistItem(item, stored, false);
+        }
+      }
+    });
+  }
+
+  /**
+   * 저장소 기록용 항목 생성
+   * 압축을 쓰면 data를 압축하고 size를 저장 크기로 바꾼 사본을 반환 (압축해도 작아지지 않으면 원본)
+   */
+  private async encodeForStorage(item: CacheItem): Promise<CacheItem> {
+    if (!this.config.useCompression) {
+      return item;
+    }
+
+    const compressed = await compressData(item.data);
+    if (!compressed) {
+      return item;
+    }
+
+    return {
+      ...item,
+      data: compressed.data,
+      compression: compressed.compression,
+      size: compressed.size
+    };
+  }
+
+  /**
+   * 저장소에서 읽은 항목의 압축 해제
+   */
+  private async decodeFromStorage(item: CacheItem): Promise<CacheItem> {
+    if (!item.compression) {
+      return item;
+    }
+
+    const { compression, ...rest } = item;
+    return { ...rest, data: await decompressData(item.data, compression) };
+  }
+
+  /**
+   * 저장소에서 항목 삭제
+   */
+  private deleteFromStorage(key: string): void {
+    this.storage.delete(key).catch(error => {
+      console.error('Cache delete error:', error);
+      this.emit('cacheError', { key, error });
+    });
   }
 
   /**
@@ -340,19 +762,65 @@ export class CacheService {
            typeof item.size === 'number';
   }
 
+  /**
+   * 캐시 내보내기 파일 유효성 검사
+   */
+  private isValidCacheExport(data: any): data is CacheExport {
+    return !!data &&
+           data.version === CACHE_EXPORT_VERSION &&
+           Array.isArray(data.items);
+  }
+
   /**
    * 메모리에서 통계 업데이트
    */
   private updateStatsFromMemory(): void {
     this.stats.totalItems = this.memoryCache.size;
     let totalSize = 0;
+    let totalOriginalSize = 0;
     this.memoryCache.forEach(item => {
       totalSize += item.size;
+      totalOriginalSize += item.originalSize ?? item.size;
     });
     this.stats.totalSize = totalSize;
+    this.stats.totalOriginalSize = totalOriginalSize;
+    this.updateDerivedStats();
+  }
+
+  /**
+   * 초기 통계 생성
+   */
+  private createInitialStats(): CacheStats {
+    return {
+      totalItems: 0,
+      hitCount: 0,
+      missCount: 0,
+      hitRate: 0,
+      totalSize: 0,
+      averageItemSize: 0,
+      totalOriginalSize: 0,
+      compressionRatio: 1,
+      expiredItems: 0,
+      evictedItems: 0,
+      evictionsByReason: {
+        [EvictionReason.MAX_ITEMS]: 0,
+        [EvictionReason.MAX_SIZE]: 0,
+        [EvictionReason.QUOTA]: 0
+      },
+      mostAccessedItem: undefined
+    };
+  }
+
+  /**
+   * 평균 크기와 압축률 갱신
+   */
+  private updateDerivedStats(): void {
     this.stats.averageItemSize = this.stats.totalItems > 0 
       ? this.stats.totalSize / this.stats.totalItems 
       : 0;
+    this.stats.compressionRatio = this.stats.totalOriginalSize > 0
+      ? this.stats.totalSize / this.stats.totalOriginalSize
+      : 1;
   }
 
   /**
@@ -422,7 +890,6 @@ export class CacheService {
    */
   destroy(): void {
     this.stopCleanupTimer();
-    this.saveToStorage();
   }
 }
 
@@ -445,7 +912,7 @@ export const cacheHelpers = {
   /**
    * 캐시에 데이터 저장
    */
-  set<T = any>(key: string, data: T, ttl?: number): boolean {
+  async set<T = any>(key: string, data: T, ttl?: number): Promise<boolean> {
     return cacheService.set(key, data, ttl);
   },
 
@@ -484,6 +951,27 @@ export const cacheHelpers = {
     return cacheService.size();
   },
 
+  /**
+   * 태그가 붙은 항목 무효화
+   */
+  invalidateByTag(tag: string): number {
+    return cacheService.invalidateByTag(tag);
+  },
+
+  /**
+   * 캐시 내보내기
+   */
+  exportItems(options?: { prefix?: string }): CacheExport {
+    return cacheService.exportItems(options);
+  },
+
+  /**
+   * 내보낸 캐시 가져오기
+   */
+  importItems(data: unknown, options?: { overwrite?: boolean }): Promise<CacheImportResult> {
+    return cacheService.importItems(data, options);
+  },
+
   /**
    * 이벤트 리스너 등록
    */
@@ -499,34 +987,196 @@ export const cacheHelpers = {
   }
 };
 
+/**
+ * 현재 문서 코퍼스 지문 (답변 태그에 사용)
+ */
+let currentSourceFingerprint: string | null = null;
+
 /**
  * 질문-답변 쌍을 위한 특화된 캐시 함수들
  */
 export const qaCache = {
   /**
    * 질문-답변 쌍 저장
+   * 현재 코퍼스 지문과 답변한 백엔드/모델을 태그로 남김
    */
-  setAnswer(question: string, answer: string, ttl?: number): boolean {
+  async setAnswer(
+    question: string,
+    answer: string,
+    ttl?: number,
+    citations?: Citation[],
+    source?: QaAnswerSource
+  ): Promise<boolean> {
     const key = this.generateQuestionKey(question);
-    return cacheService.set(key, { question, answer }, ttl);
+    // 검수한 FAQ 답변은 생성한 답변으로 덮어쓰지 않음
+    if (cacheService.isPinned(key)) {
+      return false;
+    }
+
+    const entry: QaCacheEntry = { question, answer, citations };
+    const tags: string[] = [];
+
+    if (currentSourceFingerprint) {
+      tags.push(CACHE_TAG_PREFIX.CORPUS + currentSourceFingerprint);
+    }
+    if (source) {
+      tags.push(CACHE_TAG_PREFIX.BACKEND + source.backend);
+      if (source.model) {
+        tags.push(CACHE_TAG_PREFIX.MODEL + source.model);
+      }
+    }
+
+    return cacheService.set(key, entry, ttl, { vector: createQuestionVector(question), tags });
+  },
+
+  /**
+   * 문서 코퍼스 지정
+   * 지문이 다른 코퍼스로 만든 답변(태그가 없는 이전 답변 포함)은 모두 무효화
+   * 저장소 로드가 끝난 뒤 비교해야 이전 세션의 답변까지 정리됨 (고정한 FAQ 답변은 유지)
+   */
+  async setSource(sourceText: string): Promise<number> {
+    const fingerprint = this.createFingerprint(sourceText);
+    if (fingerprint === currentSourceFingerprint) {
+      return 0;
+    }
+
+    currentSourceFingerprint = fingerprint;
+    await cacheService.whenReady();
+    const corpusTag = CACHE_TAG_PREFIX.CORPUS + fingerprint;
+    return cacheService.invalidateWhere(
+      item => item.key.startsWith('qa_') && !item.pinned && !item.tags?.includes(corpusTag),
+      { sourceChanged: true, fingerprint }
+    );
+  },
+
+  /**
+   * 검수한 FAQ로 캐시 미리 채우기
+   * FAQ 답변은 고정 항목으로 저장해 만료·교체·코퍼스 변경 무효화 대상에서 제외
+   * 다른 FAQ 파일로 채운 답변은 지우고, 같은 파일로 이미 채워져 있으면 다시 기록하지 않음
+   */
+  async prewarm(faq: FaqFile): Promise<number> {
+    if (!faq || faq.version !== FAQ_FILE_VERSION || !Array.isArray(faq.entries)) {
+      throw new Error(`Unsupported FAQ file version: ${faq?.version}`);
+    }
+
+    const entries = faq.entries.filter(entry =>
+      typeof entry?.question === 'string' && entry.question.trim() &&
+      typeof entry.answer === 'string' && entry.answer.trim()
+    );
+    const faqTag = CACHE_TAG_PREFIX.FAQ + this.createFingerprint(JSON.stringify(entries));
+    const keys = new Set(entries.map(entry => this.generateQuestionKey(entry.question)));
+
+    await cacheService.whenReady();
+    cacheService.invalidateWhere(
+      item => !!item.tags?.some(tag => tag.startsWith(CACHE_TAG_PREFIX.FAQ) && tag !== faqTag),
+      { faqChanged: true }
+    );
+    if (cacheService.getKeysByTag(faqTag).length === keys.size) {
+      return 0;
+    }
+
+    const results = await Promise.all(entries.map(({ question, answer, citations }) => {
+      const entry: QaCacheEntry = { question, answer, citations };
+      return cacheService.set(this.generateQuestionKey(question), entry, undefined, {
+        vector: createQuestionVector(question),
+        tags: [faqTag],
+        pinned: true
+      });
+    }));
+
+    return results.filter(Boolean).length;
+  },
+
+  /**
+   * 현재 코퍼스 지문 조회
+   */
+  getSourceFingerprint(): string | null {
+    return currentSourceFingerprint;
+  },
+
+  /**
+   * 백엔드가 만든 답변 무효화
+   */
+  invalidateBackend(backend: string): number {
+    return cacheService.invalidateByTag(CACHE_TAG_PREFIX.BACKEND + backend);
+  },
+
+  /**
+   * 모델이 만든 답변 무효화
+   */
+  invalidateModel(model: string): number {
+    return cacheService.invalidateByTag(CACHE_TAG_PREFIX.MODEL + model);
   },
 
   /**
    * 질문에 대한 답변 조회
    */
-  getAnswer(question: string): string | null {
+  getAnswer(question: string, source?: QaAnswerSource): string | null {
+    const entry = this.getEntry(question, source);
+    return entry ? entry.answer : null;
+  },
+
+  /**
+   * 질문에 대한 답변과 출처 조회
+   * 같은 질문이 없으면 표현만 다른 유사 질문의 답변을 찾고 유사도를 함께 반환
+   * (부정 여부나 숫자가 다른 유사 질문은 제외)
+   * source를 지정하면 다른 백엔드·모델이 만든 답변은 제외 (백엔드와 무관한 FAQ 답변은 포함)
+   */
+  getEntry(question: string, source?: QaAnswerSource): QaCacheEntry | null {
+    const filter = source ? (item: CacheItem) => this.matchesSource(item, source) : undefined;
     const key = this.generateQuestionKey(question);
-    const result = cacheService.get<{ question: string; answer: string }>(key);
-    return result ? result.answer : null;
+    if (cacheService.has(key)) {
+      const entry = cacheService.get<QaCacheEntry>(key, filter);
+      if (entry) {
+        return { ...entry, similarity: 1 };
+      }
+    }
+
+    const match = cacheService.findSimilar<QaCacheEntry>(createQuestionVector(question), {
+      prefix: 'qa_',
+      filter: item => isCompatibleQuestion(question, (item.data as QaCacheEntry).question) && (!filter || filter(item))
+    });
+    return match ? { ...match.data, similarity: match.similarity } : null;
+  },
+
+  /**
+   * 답변이 지정한 백엔드·모델로 만들어졌는지 확인 (백엔드 태그가 없는 답변은 백엔드와 무관)
+   */
+  matchesSource(item: CacheItem, source: QaAnswerSource): boolean {
+    const tags = item.tags ?? [];
+    if (!tags.some(tag => tag.startsWith(CACHE_TAG_PREFIX.BACKEND))) {
+      return true;
+    }
+    if (!tags.includes(CACHE_TAG_PREFIX.BACKEND + source.backend)) {
+      return false;
+    }
+    return !source.model || !tags.some(tag => tag.startsWith(CACHE_TAG_PREFIX.MODEL)) ||
+      tags.includes(CACHE_TAG_PREFIX.MODEL + source.model);
   },
 
   /**
    * 질문 키 생성
    */
   generateQuestionKey(question: string): string {
-    // 질문을 정규화하여 키 생성
-    const normalized = question.trim().toLowerCase().replace(/\s+/g, ' ');
-    return `qa_${this.hashString(normalized)}`;
+    // 조사·문장부호·띄어쓰기 차이를 없앤 질문으로 키 생성
+    return `qa_${this.hashString(normalizeQuestion(question))}`;
+  },
+
+  /**
+   * 코퍼스 지문 생성 (53비트 해시와 길이 조합)
+   */
+  createFingerprint(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charCodeAt(i);
+      h1 = Math.imul(h1 ^ char, 2654435761);
+      h2 = Math.imul(h2 ^ char, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+    return `${hash.toString(36)}_${text.length.toString(36)}`;
   },
 
   /**
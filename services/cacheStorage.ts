@@ -0,0 +1,322 @@
+/**
+ * 캐시 저장소 어댑터
+ * CacheService의 영구 저장 백엔드 (IndexedDB, localStorage, 메모리)
+ * IndexedDB는 항목 단위로 기록하고, 없거나 열 수 없으면 localStorage, 그것도 안 되면(Node 테스트 등) 메모리를 사용
+ */
+
+import { CacheItem } from '../types/api.js';
+
+/**
+ * 이전 버전이 전체 캐시를 저장하던 localStorage 키
+ */
+export const LEGACY_CACHE_STORAGE_KEY = 'gemini_cache';
+
+/**
+ * 저장소 사용량
+ */
+export interface CacheStorageUsage {
+  /** 사용 중인 용량 (바이트) */
+  usage: number;
+  /** 사용 가능한 전체 용량 (바이트) */
+  quota: number;
+}
+
+/**
+ * 캐시 저장소 어댑터 인터페이스
+ */
+export interface CacheStorageAdapter {
+  /** 저장소 이름 */
+  readonly name: string;
+  /** 저장소 열기 (열 수 없으면 에러, 다른 메서드보다 먼저 호출) */
+  open?(): Promise<void>;
+  loadAll(): Promise<CacheItem[]>;
+  put(item: CacheItem): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  /** 사용량 조회 (알 수 없으면 null) */
+  getUsage(): Promise<CacheStorageUsage | null>;
+}
+
+/**
+ * 저장 용량 초과 에러인지 확인
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof Error && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  );
+}
+
+/**
+ * 저장 용량 초과 에러 생성
+ */
+function createQuotaExceededError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'QuotaExceededError';
+  return error;
+}
+
+/**
+ * 메모리 캐시 저장소 (새로고침 시 사라짐)
+ */
+export class MemoryCacheStorage implements CacheStorageAdapter {
+  readonly name = 'memory';
+  private items = new Map<string, CacheItem>();
+
+  async loadAll(): Promise<CacheItem[]> {
+    return Array.from(this.items.values()).map(item => structuredClone(item));
+  }
+
+  async put(item: CacheItem): Promise<void> {
+    this.items.set(item.key, structuredClone(item));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.items.clear();
+  }
+
+  async getUsage(): Promise<CacheStorageUsage | null> {
+    return null;
+  }
+}
+
+/**
+ * localStorage 캐시 저장소
+ * 전체 캐시를 하나의 키에 JSON으로 기록하며 최대 크기를 넘으면 용량 초과 에러 발생
+ */
+export class LocalStorageCacheStorage implements CacheStorageAdapter {
+  readonly name = 'localStorage';
+  private items = new Map<string, CacheItem>();
+
+  constructor(
+    private readonly storageKey: string = LEGACY_CACHE_STORAGE_KEY,
+    private readonly maxStorageSize: number = 5 * 1024 * 1024 // 5MB
+  ) {}
+
+  async open(): Promise<void> {
+    // 저장소 접근이 막힌 환경(쿠키 차단 등)에서는 SecurityError 발생
+    localStorage.getItem(this.storageKey);
+  }
+
+  async loadAll(): Promise<CacheItem[]> {
+    const stored = localStorage.getItem(this.storageKey);
+    const data = stored ? JSON.parse(stored) : [];
+
+    this.items.clear();
+    if (Array.isArray(data)) {
+      data.forEach((item: CacheItem) => this.items.set(item.key, item));
+    }
+    return Array.from(this.items.values());
+  }
+
+  async put(item: CacheItem): Promise<void> {
+    const previous = this.items.get(item.key);
+    this.items.set(item.key, item);
+
+    try {
+      this.write();
+    } catch (error) {
+      if (previous) {
+        this.items.set(item.key, previous);
+      } else {
+        this.items.delete(item.key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.items.delete(key)) {
+      this.write();
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.items.clear();
+    localStorage.removeItem(this.storageKey);
+  }
+
+  async getUsage(): Promise<CacheStorageUsage | null> {
+    const stored = localStorage.getItem(this.storageKey) || '';
+    return { usage: stored.length, quota: this.maxStorageSize };
+  }
+
+  /**
+   * 전체 캐시 기록
+   */
+  private write(): void {
+    const json = JSON.stringify(Array.from(this.items.values()));
+    if (json.length > this.maxStorageSize) {
+      throw createQuotaExceededError(`Cache exceeds ${this.maxStorageSize} bytes of localStorage`);
+    }
+    localStorage.setItem(this.storageKey, json);
+  }
+}
+
+/**
+ * IndexedDB 캐시 저장소 (항목 단위 기록)
+ */
+export class IndexedDbCacheStorage implements CacheStorageAdapter {
+  readonly name = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string = 'chatbot_cache',
+    private readonly storeName: string = 'items'
+  ) {}
+
+  async open(): Promise<void> {
+    await this.openDatabase();
+  }
+
+  async loadAll(): Promise<CacheItem[]> {
+    return this.request('readonly', store => store.getAll());
+  }
+
+  async put(item: CacheItem): Promise<void> {
+    await this.request('readwrite', store => store.put(item));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  async getUsage(): Promise<CacheStorageUsage | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+
+  /**
+   * 데이터베이스 열기 (최초 1회, 필요 시 오브젝트 스토어 생성)
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.dbName, 1);
+
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'key' });
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => {
+          this.dbPromise = null;
+          reject(openRequest.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 오브젝트 스토어 요청 실행
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * 대체 저장소가 있는 캐시 저장소
+ * 처음 사용할 때 앞의 저장소부터 열어 보고, 열리지 않으면(사생활 보호 모드의 IndexedDB 등) 다음 저장소를 사용
+ */
+export class FallbackCacheStorage implements CacheStorageAdapter {
+  private current: CacheStorageAdapter;
+  private opening: Promise<void> | null = null;
+
+  constructor(private readonly candidates: CacheStorageAdapter[]) {
+    this.current = candidates[0];
+  }
+
+  get name(): string {
+    return this.current.name;
+  }
+
+  open(): Promise<void> {
+    this.opening ??= this.openFirstAvailable();
+    return this.opening;
+  }
+
+  async loadAll(): Promise<CacheItem[]> {
+    await this.open();
+    return this.current.loadAll();
+  }
+
+  async put(item: CacheItem): Promise<void> {
+    await this.open();
+    return this.current.put(item);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.open();
+    return this.current.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.open();
+    return this.current.clear();
+  }
+
+  async getUsage(): Promise<CacheStorageUsage | null> {
+    await this.open();
+    return this.current.getUsage();
+  }
+
+  /**
+   * 열리는 첫 번째 저장소 선택 (모두 실패하면 마지막 에러)
+   */
+  private async openFirstAvailable(): Promise<void> {
+    for (const [index, candidate] of this.candidates.entries()) {
+      try {
+        await candidate.open?.();
+        this.current = candidate;
+        return;
+      } catch (error) {
+        const next = this.candidates[index + 1];
+        if (!next) throw error;
+        console.warn(`Failed to open ${candidate.name} cache storage, falling back to ${next.name}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * 실행 환경에 맞는 캐시 저장소 생성
+ */
+export function createCacheStorage(): CacheStorageAdapter {
+  const candidates: CacheStorageAdapter[] = [];
+  if (typeof indexedDB !== 'undefined') {
+    candidates.push(new IndexedDbCacheStorage());
+  }
+  if (typeof localStorage !== 'undefined') {
+    candidates.push(new LocalStorageCacheStorage());
+  }
+  candidates.push(new MemoryCacheStorage());
+
+  return candidates.length > 1 ? new FallbackCacheStorage(candidates) : candidates[0];
+}
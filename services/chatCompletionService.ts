@@ -0,0 +1,512 @@
+/**
+ * 채팅 API 공통 서비스
+ * Gemini, Ollama, OpenAI 호환 서버처럼 대화 기록을 요청마다 함께 보내는 백엔드의 공통 기능
+ * (답변 캐시, 문서 검색, 대화 기록, 요청 큐, 이벤트)을 제공하고
+ * 백엔드별 클래스는 API 요청과 응답 형식 처리만 구현
+ */
+
+import { cacheService, qaCache, QaCacheEntry } from './cacheService.js';
+import { requestQueue, queueHelpers } from './requestQueue.js';
+import { RetrievalService } from './retrievalService.js';
+import { ConversationMemory, ConversationMessage } from './conversationMemory.js';
+import { pipeTextStream, replayText } from './textStream.js';
+import { getResponseStatusFromError, toApiError, toNonRetryableError } from './errors.js';
+import { getConfig } from '../config/apiConfig.js';
+import {
+  ApiResponse,
+  ApiResponseStatus,
+  ApiErrorType,
+  EventCallback,
+  RetrievedChunk,
+  ConversationTurn,
+  LlmService,
+  RetryPolicy,
+  StreamMessageOptions,
+  TokenUsage,
+  DEFAULT_CONVERSATION_MEMORY_CONFIG
+} from '../types/api.js';
+
+/**
+ * 백엔드에 보낼 채팅 요청
+ */
+export interface ChatCompletionRequest {
+  model: string;
+  /** 시스템 지시사항, 이전 대화, 이번 질문 순의 메시지 */
+  messages: ConversationMessage[];
+}
+
+/**
+ * 채팅 응답 (답변과 토큰 사용량)
+ */
+export interface ChatCompletionResult {
+  answer: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * 채팅 API 공통 서비스 클래스
+ */
+export abstract class ChatCompletionService implements LlmService {
+  protected sourceText: string = '';
+  protected retrieval = new RetrievalService();
+  protected conversation: ConversationMemory;
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  /**
+   * @param backend 프로바이더 ID (캐시 태그와 요청 큐의 한도 초과 대기에 사용)
+   * @param requestIdPrefix 요청 ID 접두어
+   * @param conversationTokenBudget 대화 기록 토큰 예산 (넘치는 오래된 턴은 요약으로 압축)
+   */
+  constructor(
+    protected readonly backend: string,
+    private readonly requestIdPrefix: string,
+    conversationTokenBudget: number = getConfig().LLM.CONVERSATION_TOKEN_BUDGET
+  ) {
+    this.conversation = new ConversationMemory({
+      ...DEFAULT_CONVERSATION_MEMORY_CONFIG,
+      maxTokens: conversationTokenBudget
+    });
+  }
+
+  /**
+   * 현재 모델 조회
+   */
+  abstract getCurrentModel(): string | null;
+
+  /**
+   * 서비스 상태 조회
+   */
+  abstract getServiceStatus(): any;
+
+  /**
+   * 요청에 사용할 모델 결정
+   */
+  protected abstract resolveModel(): Promise<string>;
+
+  /**
+   * 채팅 API 호출 (HTTP·네트워크 에러와 중단 에러는 요청 큐에서 분류되도록 그대로 전달)
+   */
+  protected abstract requestChat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResult>;
+
+  /**
+   * 채팅 API 스트림 호출 (응답 텍스트 조각을 내보내고 토큰 사용량은 onUsage로 전달)
+   */
+  protected abstract requestChatStream(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): AsyncGenerator<string>;
+
+  /**
+   * 요청 전 서비스 준비 상태 확인 (준비되지 않았으면 에러)
+   */
+  protected ensureReady(): void {}
+
+  /**
+   * 요청 큐 재시도 정책 (지정하지 않으면 큐의 기본 정책)
+   */
+  protected createRetryPolicy(): Partial<RetryPolicy> | undefined {
+    return undefined;
+  }
+
+  /**
+   * 시스템 지시사항 생성
+   */
+  protected createSystemInstruction(): string {
+    return `You are an expert assistant. Your name is NotebookLM Assistant.
+Each question comes with excerpts of the source material between ---START OF SOURCE--- and ---END OF SOURCE---.
+You must answer questions based ONLY on those excerpts.
+Do not use any external knowledge or your pre-trained knowledge.
+If the answer cannot be found in the excerpts, you must state that the information is not available in the provided context.
+Be concise, helpful, and cite the excerpts you used by their number in square brackets, e.g. [1].`;
+  }
+
+  /**
+   * 질문과 관련된 청크 검색
+   */
+  protected retrieveContext(message: string): RetrievedChunk[] {
+    const results = this.retrieval.retrieve(message);
+    this.emit('contextRetrieved', { message, chunkCount: results.length });
+    return results;
+  }
+
+  /**
+   * 답변 캐시를 사용할 수 있는지 확인
+   * 이전 대화에 따라 답변이 달라지므로 대화 기록이 비어 있을 때만 캐시를 조회·저장
+   */
+  protected canUseCache(): boolean {
+    return this.conversation.isEmpty();
+  }
+
+  /**
+   * 캐시에서 이 백엔드·모델이 만든 답변 조회 (캐시를 사용할 수 없으면 null)
+   */
+  protected findCachedEntry(message: string): QaCacheEntry | null {
+    if (!this.canUseCache()) {
+      return null;
+    }
+    return qaCache.getEntry(message, { backend: this.backend, model: this.getCurrentModel() });
+  }
+
+  /**
+   * 채팅 요청 생성 (시스템 지시사항, 이전 대화, 발췌문을 붙인 이번 질문)
+   * 이어서 생성할 때는 이미 받은 답변과 이어서 작성하라는 요청을 덧붙임
+   */
+  protected async createRequest(
+    message: string,
+    results: RetrievedChunk[],
+    continueFrom?: string
+  ): Promise<ChatCompletionRequest> {
+    const messages: ConversationMessage[] = [
+      { role: 'system', content: this.createSystemInstruction() },
+      ...this.conversation.getMessages(),
+      { role: 'user', content: this.retrieval.buildPrompt(message, results) }
+    ];
+    if (continueFrom) {
+      messages.push(
+        { role: 'assistant', content: continueFrom },
+        { role: 'user', content: this.retrieval.buildContinuePrompt() }
+      );
+    }
+
+    return { model: await this.resolveModel(), messages };
+  }
+
+  /**
+   * 소스 텍스트 설정
+   */
+  async setSourceText(sourceText: string): Promise<void> {
+    try {
+      this.sourceText = sourceText;
+      const chunkCount = this.retrieval.buildIndex(sourceText);
+      // 문서가 바뀌었으면 이전 문서로 만든 캐시 답변을 무효화
+      await qaCache.setSource(sourceText);
+      this.emit('sourceTextSet', { sourceText, chunkCount });
+    } catch (error) {
+      const apiError = toApiError(error);
+      this.emit('sourceTextError', { error: apiError });
+      throw apiError;
+    }
+  }
+
+  /**
+   * 메시지 전송 (캐시 우선 조회)
+   */
+  async sendMessage(message: string, signal?: AbortSignal): Promise<ApiResponse<string>> {
+    const startTime = Date.now();
+    const requestId = this.generateRequestId();
+
+    try {
+      // 1. 캐시에서 답변 조회 (캐시 답변은 대화 기록에 남기지 않음)
+      const cachedEntry = this.findCachedEntry(message);
+      if (cachedEntry) {
+        const responseTime = Date.now() - startTime;
+        this.emit('cacheHit', { message, answer: cachedEntry.answer, responseTime });
+
+        return {
+          status: ApiResponseStatus.CACHED,
+          data: cachedEntry.answer,
+          responseTime,
+          fromCache: true,
+          cacheSimilarity: cachedEntry.similarity,
+          retryCount: 0,
+          requestId,
+          timestamp: Date.now(),
+          citations: cachedEntry.citations
+        };
+      }
+
+      // 2. 캐시 미스 - 요청 큐를 통해 API 호출
+      this.emit('cacheMiss', { message });
+      this.ensureReady();
+
+      const cacheable = this.canUseCache();
+      const results = this.retrieveContext(message);
+      const request = await this.createRequest(message, results);
+      const { answer, usage } = await requestQueue.addRequest(
+        request,
+        async (requestData, queueSignal) => {
+          try {
+            return await this.requestChat(requestData, queueSignal);
+          } catch (error) {
+            throw this.toQueueError(error);
+          }
+        },
+        { retryPolicy: this.createRetryPolicy(), signal, backend: this.backend }
+      );
+      const citations = this.retrieval.createCitations(answer, results, message);
+      const responseTime = Date.now() - startTime;
+
+      // 3. 성공한 답변을 캐시에 저장하고 대화 기록에 추가 (이전 대화 없이 만든 답변만 캐시)
+      if (cacheable) {
+        qaCache.setAnswer(message, answer, undefined, citations, { backend: this.backend, model: request.model });
+      }
+      this.conversation.addExchange(message, answer);
+
+      this.emit('messageSent', { message, answer, responseTime, usage });
+
+      return {
+        status: ApiResponseStatus.SUCCESS,
+        data: answer,
+        responseTime,
+        fromCache: false,
+        retryCount: 0,
+        requestId,
+        timestamp: Date.now(),
+        citations,
+        model: request.model,
+        usage
+      };
+
+    } catch (error) {
+      return this.createErrorResponse(error, message, startTime, requestId, 'messageCancelled', 'messageError');
+    }
+  }
+
+  /**
+   * 스트림 메시지 전송
+   * 이어서 생성할 때는 캐시를 건너뛰고, 받은 내용을 이전 답변 뒤에 붙여 한 답변으로 기록
+   */
+  async sendMessageStream(
+    message: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    options: StreamMessageOptions = {}
+  ): Promise<ApiResponse<void>> {
+    const startTime = Date.now();
+    const requestId = this.generateRequestId();
+    const { continueFrom } = options;
+    let usage: TokenUsage | undefined;
+
+    try {
+      // 캐시된 답변은 스트림으로 재생하고 모두 전달한 뒤 응답 반환 (캐시 답변은 대화 기록에 남기지 않음)
+      const cachedEntry = continueFrom ? null : this.findCachedEntry(message);
+      if (cachedEntry) {
+        await pipeTextStream(replayText(cachedEntry.answer, signal), onChunk, signal);
+
+        const responseTime = Date.now() - startTime;
+        this.emit('cacheHit', { message, answer: cachedEntry.answer, responseTime });
+
+        return {
+          status: ApiResponseStatus.CACHED,
+          data: undefined,
+          responseTime,
+          fromCache: true,
+          cacheSimilarity: cachedEntry.similarity,
+          retryCount: 0,
+          requestId,
+          timestamp: Date.now(),
+          citations: cachedEntry.citations
+        };
+      }
+
+      this.ensureReady();
+
+      const cacheable = !continueFrom && this.canUseCache();
+      const results = this.retrieveContext(message);
+      const request = await this.createRequest(message, results, continueFrom);
+
+      // 요청 큐를 통해 API 호출 (중단되면 에러가 발생하므로 부분 응답은 캐시와 대화 기록에 남기지 않음)
+      const streamedText = await this.sendStreamWithQueue(request, onChunk, signal, (streamUsage) => { usage = streamUsage; });
+      const fullResponse = (continueFrom ?? '') + streamedText;
+
+      // 스트림 완료 후 캐시에 저장하고 대화 기록에 추가 (이전 대화 없이 만든 답변만 캐시)
+      const citations = this.retrieval.createCitations(fullResponse, results, message);
+      if (cacheable) {
+        qaCache.setAnswer(message, fullResponse, undefined, citations, { backend: this.backend, model: request.model });
+      }
+      this.conversation.addExchange(message, fullResponse);
+
+      const responseTime = Date.now() - startTime;
+      this.emit('messageStreamCompleted', { message, answer: fullResponse, responseTime, usage });
+
+      return {
+        status: ApiResponseStatus.SUCCESS,
+        data: undefined,
+        responseTime,
+        fromCache: false,
+        retryCount: 0,
+        requestId,
+        timestamp: Date.now(),
+        citations,
+        model: request.model,
+        usage
+      };
+
+    } catch (error) {
+      return this.createErrorResponse(error, message, startTime, requestId, 'messageStreamCancelled', 'messageStreamError', usage);
+    }
+  }
+
+  /**
+   * 요청 큐를 통한 스트림 요청
+   * 응답 조각을 전달하기 전의 실패만 큐에서 재시도
+   */
+  private async sendStreamWithQueue(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<string> {
+    return requestQueue.addRequest(
+      request,
+      async (requestData, queueSignal) => {
+        let chunkEmitted = false;
+        try {
+          return await pipeTextStream(this.requestChatStream(requestData, queueSignal, onUsage), (chunk) => {
+            chunkEmitted = true;
+            onChunk(chunk);
+          }, queueSignal);
+        } catch (error) {
+          throw this.toQueueError(error, chunkEmitted);
+        }
+      },
+      { retryPolicy: this.createRetryPolicy(), signal, backend: this.backend }
+    );
+  }
+
+  /**
+   * 큐에서 재시도하지 않을 에러 표시
+   * 응답 조각을 전달한 뒤의 실패는 다시 보내면 답변이 중복되고,
+   * 전환할 백엔드가 있을 때의 한도 초과는 기다리지 않고 팩토리가 다른 백엔드로 넘김
+   */
+  private toQueueError(error: unknown, chunkEmitted = false): unknown {
+    const rateLimited = toApiError(error).type === ApiErrorType.RATE_LIMIT_EXCEEDED;
+    return chunkEmitted || (rateLimited && this.hasFailoverTargets()) ? toNonRetryableError(error) : error;
+  }
+
+  /**
+   * 자동 전환으로 넘길 다른 백엔드가 설정되어 있는지 확인
+   */
+  private hasFailoverTargets(): boolean {
+    const { LLM } = getConfig();
+    return LLM.FAILOVER_ENABLED && LLM.FAILOVER_ORDER.some(backend => backend !== this.backend);
+  }
+
+  /**
+   * 실패한 요청의 응답 생성 (중지는 cancelledEvent, 그 밖의 에러는 errorEvent로 알림)
+   * 도중에 끊긴 스트림은 그때까지 받은 토큰 사용량을 함께 반환
+   */
+  private createErrorResponse<T>(
+    error: unknown,
+    message: string,
+    startTime: number,
+    requestId: string,
+    cancelledEvent: string,
+    errorEvent: string,
+    usage?: TokenUsage
+  ): ApiResponse<T> {
+    const responseTime = Date.now() - startTime;
+    const apiError = toApiError(error);
+
+    this.emit(
+      apiError.type === ApiErrorType.CANCELLED ? cancelledEvent : errorEvent,
+      { message, error: apiError, responseTime }
+    );
+
+    return {
+      status: getResponseStatusFromError(apiError),
+      error: apiError.message,
+      errorType: apiError.type,
+      retryAfter: apiError.retryAfter,
+      responseTime,
+      fromCache: false,
+      retryCount: 0,
+      requestId,
+      timestamp: Date.now(),
+      usage
+    };
+  }
+
+  /**
+   * 대화 기록 초기화
+   */
+  resetConversation(): void {
+    this.conversation.reset();
+    this.emit('conversationReset', {});
+  }
+
+  /**
+   * 저장된 대화 기록 복원
+   */
+  restoreConversation(turns: ConversationTurn[]): void {
+    this.conversation.restore(turns);
+    this.emit('conversationRestored', { turnCount: turns.length });
+  }
+
+  /**
+   * 캐시 통계 조회
+   */
+  getCacheStats() {
+    return cacheService.getStats();
+  }
+
+  /**
+   * 요청 큐 상태 조회
+   */
+  getQueueStatus() {
+    return queueHelpers.getStatus();
+  }
+
+  /**
+   * 캐시 초기화
+   */
+  clearCache(): void {
+    cacheService.clear();
+    this.emit('cacheCleared', {});
+  }
+
+  /**
+   * 요청 큐 초기화
+   */
+  clearQueue(): void {
+    queueHelpers.clear();
+    this.emit('queueCleared', {});
+  }
+
+  /**
+   * 요청 ID 생성
+   */
+  private generateRequestId(): string {
+    return `${this.requestIdPrefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  protected emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in ${this.backend} event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
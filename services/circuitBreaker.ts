@@ -0,0 +1,190 @@
+/**
+ * 서킷 브레이커
+ * 백엔드별로 연속 실패(한도 초과, 네트워크 오류)를 집계해 요청을 차단하고,
+ * 대기 시간이 지나면 시험 요청으로 복구 여부를 확인
+ */
+
+import {
+  ApiErrorType,
+  BackendHealth,
+  CircuitBreakerConfig,
+  CircuitState,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  EventCallback
+} from '../types/api.js';
+
+/**
+ * 서킷 브레이커 클래스
+ */
+export class CircuitBreaker {
+  private state: CircuitState = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private activeProbes = 0;
+  private lastFailureAt?: number;
+  private lastSuccessAt?: number;
+  private lastErrorType?: ApiErrorType;
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(
+    private readonly backend: string,
+    private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG
+  ) {}
+
+  /**
+   * 요청 허용 여부 확인
+   * 차단 상태에서 대기 시간이 지나면 시험 상태로 전환하고 시험 요청을 허용
+   */
+  tryAcquire(): boolean {
+    if (this.state === CircuitState.OPEN) {
+      if (Date.now() - this.openedAt < this.config.resetTimeout) {
+        return false;
+      }
+      this.transitionTo(CircuitState.HALF_OPEN);
+    }
+
+    if (this.state === CircuitState.HALF_OPEN) {
+      if (this.activeProbes >= this.config.halfOpenMaxProbes) {
+        return false;
+      }
+      this.activeProbes++;
+    }
+
+    return true;
+  }
+
+  /**
+   * 성공 기록 (시험 요청이 성공하면 정상 상태로 복구)
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = Date.now();
+    this.releaseProbe();
+
+    if (this.state !== CircuitState.CLOSED) {
+      this.transitionTo(CircuitState.CLOSED);
+    }
+  }
+
+  /**
+   * 실패 기록
+   * 집계 대상 에러만 연속 실패로 세며, 시험 요청 실패 시 바로 다시 차단
+   */
+  recordFailure(errorType: ApiErrorType = ApiErrorType.UNKNOWN): void {
+    this.releaseProbe();
+
+    if (!this.config.tripOn.includes(errorType)) {
+      return;
+    }
+
+    this.consecutiveFailures++;
+    this.lastFailureAt = Date.now();
+    this.lastErrorType = errorType;
+
+    if (this.state === CircuitState.HALF_OPEN || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transitionTo(CircuitState.OPEN);
+    }
+  }
+
+  /**
+   * 시험 요청 슬롯 반환 (집계 대상이 아닌 에러로 끝난 경우 포함)
+   */
+  releaseProbe(): void {
+    if (this.activeProbes > 0) {
+      this.activeProbes--;
+    }
+  }
+
+  /**
+   * 현재 상태 조회
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * 백엔드 상태 조회
+   */
+  getHealth(): BackendHealth {
+    return {
+      backend: this.backend,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureAt: this.lastFailureAt,
+      lastSuccessAt: this.lastSuccessAt,
+      lastErrorType: this.lastErrorType,
+      retryAt: this.state === CircuitState.OPEN ? this.openedAt + this.config.resetTimeout : undefined
+    };
+  }
+
+  /**
+   * 설정 업데이트
+   */
+  updateConfig(newConfig: Partial<CircuitBreakerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * 정상 상태로 초기화
+   */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.activeProbes = 0;
+    this.transitionTo(CircuitState.CLOSED);
+  }
+
+  /**
+   * 상태 전환
+   */
+  private transitionTo(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    if (state !== CircuitState.HALF_OPEN) {
+      this.activeProbes = 0;
+    }
+
+    if (previous !== state) {
+      this.emit('stateChanged', { backend: this.backend, from: previous, to: state, health: this.getHealth() });
+    }
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in circuit breaker event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
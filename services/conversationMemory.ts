@@ -0,0 +1,132 @@
+/**
+ * 대화 기록 관리 서비스
+ * 토큰 예산 안에서 이전 대화를 유지하고, 넘치는 오래된 턴은 요약으로 압축
+ */
+
+import {
+  ConversationTurn,
+  ConversationMemoryConfig,
+  DEFAULT_CONVERSATION_MEMORY_CONFIG
+} from '../types/api.js';
+
+/**
+ * LLM에 전달할 대화 메시지
+ */
+export interface ConversationMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 대화 기록 클래스
+ */
+export class ConversationMemory {
+  private turns: ConversationTurn[] = [];
+  private summary = '';
+
+  constructor(private config: ConversationMemoryConfig = DEFAULT_CONVERSATION_MEMORY_CONFIG) {}
+
+  /**
+   * 질문-답변 한 쌍 추가
+   */
+  addExchange(question: string, answer: string): void {
+    const now = Date.now();
+    this.turns.push(
+      { role: 'user', content: question, timestamp: now },
+      { role: 'assistant', content: answer, timestamp: now }
+    );
+    this.enforceBudget();
+  }
+
+  /**
+   * LLM 요청에 포함할 이전 대화 메시지
+   */
+  getMessages(): ConversationMessage[] {
+    const messages: ConversationMessage[] = [];
+
+    if (this.summary) {
+      messages.push({ role: 'system', content: `이전 대화 요약:\n${this.summary}` });
+    }
+
+    for (const turn of this.turns) {
+      messages.push({ role: turn.role, content: turn.content });
+    }
+
+    return messages;
+  }
+
+  /**
+   * 저장된 대화 턴 조회
+   */
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  /**
+   * 이전 대화가 없는지 확인 (요약 포함)
+   */
+  isEmpty(): boolean {
+    return this.turns.length === 0 && !this.summary;
+  }
+
+  /**
+   * 대화 기록 초기화
+   */
+  reset(): void {
+    this.turns = [];
+    this.summary = '';
+  }
+
+  /**
+   * 저장된 대화 턴으로 기록 교체 (예산을 넘는 앞부분은 요약으로 압축)
+   */
+  restore(turns: ConversationTurn[]): void {
+    this.reset();
+    this.turns = turns.map(turn => ({ ...turn }));
+    this.enforceBudget();
+  }
+
+  /**
+   * 현재 대화 기록의 추정 토큰 수
+   */
+  getTokenCount(): number {
+    return this.turns.reduce(
+      (total, turn) => total + this.estimateTokens(turn.content),
+      this.estimateTokens(this.summary)
+    );
+  }
+
+  /**
+   * 토큰 예산을 넘으면 가장 오래된 질문-답변 쌍부터 요약으로 옮김
+   * 최근 한 쌍은 예산을 넘더라도 유지
+   */
+  private enforceBudget(): void {
+    while (this.turns.length > 2 && this.getTokenCount() > this.config.maxTokens) {
+      const dropped = this.turns.splice(0, 2);
+      this.appendToSummary(dropped);
+    }
+  }
+
+  /**
+   * 잘려나간 턴의 질문을 요약에 누적 (최대 길이 초과 시 앞부분부터 버림)
+   */
+  private appendToSummary(dropped: ConversationTurn[]): void {
+    const question = dropped.find(turn => turn.role === 'user');
+    if (!question) return;
+
+    const line = `- ${question.content.replace(/\s+/g, ' ').trim()}`;
+    const summary = this.summary ? `${this.summary}\n${line}` : line;
+    this.summary = summary.length > this.config.maxSummaryLength
+      ? summary.slice(summary.length - this.config.maxSummaryLength)
+      : summary;
+  }
+
+  /**
+   * 토큰 수 추정
+   * 한글은 음절당 약 1토큰, 그 외 문자는 4자당 약 1토큰으로 계산
+   */
+  private estimateTokens(text: string): number {
+    const hangulCount = (text.match(/[가-힣]/g) || []).length;
+    return hangulCount + Math.ceil((text.length - hangulCount) / 4);
+  }
+}
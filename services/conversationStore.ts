@@ -0,0 +1,322 @@
+/**
+ * 대화 저장소 서비스
+ * 채팅 대화를 IndexedDB에 저장하고 목록 조회, 검색, 이름 변경, 삭제를 제공
+ * IndexedDB가 없는 환경(Node 테스트 등)에서는 메모리 저장소로 대체
+ */
+
+import {
+  StoredConversation,
+  StoredMessage,
+  ConversationTurn,
+  EventCallback
+} from '../types/api.js';
+
+/**
+ * 대화 제목 최대 길이 (문자)
+ */
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * 대화 저장 백엔드 인터페이스
+ */
+export interface ConversationStorage {
+  getAll(): Promise<StoredConversation[]>;
+  get(id: string): Promise<StoredConversation | null>;
+  put(conversation: StoredConversation): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * 메모리 대화 저장소 (새로고침 시 사라짐)
+ */
+export class MemoryConversationStorage implements ConversationStorage {
+  private conversations = new Map<string, StoredConversation>();
+
+  async getAll(): Promise<StoredConversation[]> {
+    return Array.from(this.conversations.values()).map(conversation => structuredClone(conversation));
+  }
+
+  async get(id: string): Promise<StoredConversation | null> {
+    const conversation = this.conversations.get(id);
+    return conversation ? structuredClone(conversation) : null;
+  }
+
+  async put(conversation: StoredConversation): Promise<void> {
+    this.conversations.set(conversation.id, structuredClone(conversation));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.conversations.delete(id);
+  }
+}
+
+/**
+ * IndexedDB 대화 저장소
+ */
+export class IndexedDbConversationStorage implements ConversationStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string = 'chatbot_conversations',
+    private readonly storeName: string = 'conversations'
+  ) {}
+
+  async getAll(): Promise<StoredConversation[]> {
+    return this.request('readonly', store => store.getAll());
+  }
+
+  async get(id: string): Promise<StoredConversation | null> {
+    const conversation = await this.request<StoredConversation | undefined>('readonly', store => store.get(id));
+    return conversation ?? null;
+  }
+
+  async put(conversation: StoredConversation): Promise<void> {
+    await this.request('readwrite', store => store.put(conversation));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  /**
+   * 데이터베이스 열기 (최초 1회, 필요 시 오브젝트 스토어 생성)
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.dbName, 1);
+
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => {
+          this.dbPromise = null;
+          reject(openRequest.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 오브젝트 스토어 요청 실행
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * 실행 환경에 맞는 저장소 생성
+ */
+export function createConversationStorage(): ConversationStorage {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDbConversationStorage()
+    : new MemoryConversationStorage();
+}
+
+/**
+ * 대화 저장소 클래스
+ */
+export class ConversationStore {
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(private storage: ConversationStorage = createConversationStorage()) {}
+
+  /**
+   * 대화 목록 조회 (최근 수정 순)
+   * 검색어가 있으면 제목이나 메시지 내용에 포함된 대화만 반환
+   */
+  async list(query: string = ''): Promise<StoredConversation[]> {
+    const conversations = await this.storage.getAll();
+    const keyword = query.trim().toLowerCase();
+
+    return conversations
+      .filter(conversation => !keyword || this.matches(conversation, keyword))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * 대화 조회
+   */
+  async get(id: string): Promise<StoredConversation | null> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * 새 대화 생성
+   */
+  async create(
+    messages: StoredMessage[],
+    serviceType: string,
+    model: string | null
+  ): Promise<StoredConversation> {
+    const now = Date.now();
+    const conversation: StoredConversation = {
+      id: this.generateId(),
+      title: this.createTitle(messages),
+      messages,
+      serviceType,
+      model,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.storage.put(conversation);
+    this.emit('conversationCreated', { id: conversation.id });
+    return conversation;
+  }
+
+  /**
+   * 대화 메시지와 사용 중인 서비스 정보 갱신
+   */
+  async update(
+    id: string,
+    messages: StoredMessage[],
+    serviceType: string,
+    model: string | null
+  ): Promise<StoredConversation | null> {
+    const conversation = await this.storage.get(id);
+    if (!conversation) return null;
+
+    const updated: StoredConversation = {
+      ...conversation,
+      messages,
+      serviceType,
+      model,
+      updatedAt: Date.now()
+    };
+
+    await this.storage.put(updated);
+    this.emit('conversationUpdated', { id, messageCount: messages.length });
+    return updated;
+  }
+
+  /**
+   * 대화 이름 변경
+   */
+  async rename(id: string, title: string): Promise<boolean> {
+    const conversation = await this.storage.get(id);
+    const trimmed = title.trim();
+    if (!conversation || !trimmed) return false;
+
+    await this.storage.put({ ...conversation, title: trimmed.slice(0, MAX_TITLE_LENGTH) });
+    this.emit('conversationRenamed', { id, title: trimmed });
+    return true;
+  }
+
+  /**
+   * 대화 삭제
+   */
+  async delete(id: string): Promise<void> {
+    await this.storage.delete(id);
+    this.emit('conversationDeleted', { id });
+  }
+
+  /**
+   * 저장된 메시지를 LLM 대화 기록으로 변환
+   * 답변이 없는 질문(오류 등)은 제외하고 질문-답변 쌍만 유지
+   */
+  toConversationTurns(messages: StoredMessage[]): ConversationTurn[] {
+    const turns: ConversationTurn[] = [];
+
+    messages.forEach((message, index) => {
+      const next = messages[index + 1];
+      // 중지되거나 도중에 실패한 답변은 서비스의 대화 기록에도 남기지 않으므로 제외
+      if (message.role !== 'user' || !next || next.role !== 'model' || next.cancelled || next.error) return;
+
+      turns.push(
+        { role: 'user', content: message.content, timestamp: message.timestamp },
+        { role: 'assistant', content: next.content, timestamp: next.timestamp }
+      );
+    });
+
+    return turns;
+  }
+
+  /**
+   * 첫 질문으로 대화 제목 생성
+   */
+  private createTitle(messages: StoredMessage[]): string {
+    const firstQuestion = messages.find(message => message.role === 'user');
+    const title = firstQuestion ? firstQuestion.content.replace(/\s+/g, ' ').trim() : '';
+
+    if (!title) return '새 대화';
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH)}…` : title;
+  }
+
+  /**
+   * 검색어 일치 여부
+   */
+  private matches(conversation: StoredConversation, keyword: string): boolean {
+    return conversation.title.toLowerCase().includes(keyword) ||
+      conversation.messages.some(message => message.content.toLowerCase().includes(keyword));
+  }
+
+  /**
+   * 대화 ID 생성
+   */
+  private generateId(): string {
+    return `conv_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in conversation store event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * 전역 대화 저장소 인스턴스
+ */
+export const conversationStore = new ConversationStore();
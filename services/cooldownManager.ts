@@ -0,0 +1,249 @@
+/**
+ * 요청 대기(쿨다운) 관리 서비스
+ * 서버가 알려준 재시도 시점(retryAfter)까지 해당 백엔드의 요청을 멈추고, 요청 큐와 UI가 같은 대기 상태를 읽도록 공유
+ * 대기 상태는 백엔드별로 localStorage에 저장해 새로고침 후에도 유지
+ */
+
+import { ApiErrorType, CooldownState, EventCallback } from '../types/api.js';
+
+/**
+ * 대기 상태를 저장하는 localStorage 키
+ */
+export const COOLDOWN_STORAGE_KEY = 'llm_cooldown';
+
+/**
+ * 대기 시작 시 함께 기록할 정보
+ */
+export interface CooldownDetails {
+  reason?: ApiErrorType;
+  backend?: string;
+}
+
+/**
+ * 백엔드를 지정하지 않은 대기의 키 (모든 백엔드에 적용)
+ */
+export const ALL_BACKENDS = '*';
+
+/**
+ * 쿨다운 관리 클래스
+ * 대기는 백엔드별로 관리해 한 백엔드의 한도 초과가 다른 백엔드 요청을 막지 않도록 함
+ * 대기 중에 다시 한도 초과가 발생하면 더 늦은 시점으로만 연장
+ */
+export class CooldownManager {
+  private states: Map<string, CooldownState> = new Map();
+  private endTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(private readonly storageKey: string = COOLDOWN_STORAGE_KEY) {
+    this.states = this.load();
+    this.states.forEach((_, key) => this.scheduleEnd(key));
+  }
+
+  /**
+   * 지정한 시간 동안 대기 시작 (이미 더 늦게 끝나는 대기가 있으면 유지)
+   * details.backend가 없으면 모든 백엔드에 적용
+   */
+  start(duration: number, details: CooldownDetails = {}): CooldownState {
+    const key = details.backend ?? ALL_BACKENDS;
+    const now = Date.now();
+    const current = this.getActiveState(key);
+    const until = now + Math.max(0, duration);
+
+    if (current && current.until >= until) {
+      return { ...current };
+    }
+
+    const state: CooldownState = {
+      startedAt: current?.startedAt ?? now,
+      until,
+      ...details
+    };
+    this.states.set(key, state);
+    this.save();
+    this.scheduleEnd(key);
+    this.emit('cooldownStarted', { ...state });
+    return { ...state };
+  }
+
+  /**
+   * 백엔드에 적용되는 대기 상태 조회 (대기 중이 아니면 null)
+   * 백엔드 대기와 전체 대기 중 더 늦게 끝나는 쪽을 반환하며, 백엔드를 지정하지 않으면 전체 대기만 조회
+   */
+  getState(backend?: string): CooldownState | null {
+    const states = [this.getActiveState(ALL_BACKENDS), backend ? this.getActiveState(backend) : null]
+      .filter((state): state is CooldownState => state !== null);
+    if (states.length === 0) return null;
+
+    return { ...states.reduce((latest, state) => state.until > latest.until ? state : latest) };
+  }
+
+  /**
+   * 대기 중인 모든 상태 조회
+   */
+  getActiveStates(): CooldownState[] {
+    return Array.from(this.states.keys())
+      .map(key => this.getActiveState(key))
+      .filter((state): state is CooldownState => state !== null)
+      .map(state => ({ ...state }));
+  }
+
+  /**
+   * 백엔드의 남은 대기 시간 (밀리초)
+   */
+  getRemaining(backend?: string): number {
+    const state = this.getState(backend);
+    return state ? state.until - Date.now() : 0;
+  }
+
+  /**
+   * 백엔드가 대기 중인지 확인
+   */
+  isActive(backend?: string): boolean {
+    return this.getRemaining(backend) > 0;
+  }
+
+  /**
+   * 대기 해제 (백엔드를 지정하지 않으면 모든 대기 해제)
+   */
+  clear(backend?: string): void {
+    const keys = backend ? [backend] : Array.from(this.states.keys());
+    keys.filter(key => this.states.has(key)).forEach(key => this.end(key));
+  }
+
+  /**
+   * 키에 저장된 대기 상태 조회 (끝난 대기는 종료 처리)
+   */
+  private getActiveState(key: string): CooldownState | null {
+    const state = this.states.get(key);
+    if (state && state.until <= Date.now()) {
+      this.end(key);
+      return null;
+    }
+    return state ?? null;
+  }
+
+  /**
+   * 대기 종료 처리
+   */
+  private end(key: string): void {
+    const state = this.states.get(key);
+    this.states.delete(key);
+    const timer = this.endTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.endTimers.delete(key);
+    }
+    this.save();
+    this.emit('cooldownEnded', { ...state });
+  }
+
+  /**
+   * 대기가 끝나는 시점에 종료 이벤트 예약
+   */
+  private scheduleEnd(key: string): void {
+    const timer = this.endTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.endTimers.delete(key);
+    }
+    const state = this.states.get(key);
+    if (!state) return;
+
+    this.endTimers.set(key, setTimeout(() => {
+      this.endTimers.delete(key);
+      this.getActiveState(key);
+    }, Math.max(0, state.until - Date.now())));
+  }
+
+  /**
+   * 저장된 대기 상태 로드 (이미 끝난 대기는 버림)
+   * 백엔드 구분 없이 하나만 저장하던 이전 형식도 읽음
+   */
+  private load(): Map<string, CooldownState> {
+    const states = new Map<string, CooldownState>();
+    if (typeof localStorage === 'undefined') return states;
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return states;
+
+      const data = JSON.parse(stored);
+      const entries: [string, CooldownState][] = typeof data?.until === 'number'
+        ? [[data.backend ?? ALL_BACKENDS, data]]
+        : Object.entries(data ?? {});
+
+      entries.forEach(([key, state]) => {
+        if (typeof state?.until === 'number' && typeof state.startedAt === 'number' && state.until > Date.now()) {
+          states.set(key, state);
+        }
+      });
+      if (states.size === 0) {
+        localStorage.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.warn('Failed to load cooldown state:', error);
+    }
+    return states;
+  }
+
+  /**
+   * 대기 상태 저장
+   */
+  private save(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      if (this.states.size > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(Object.fromEntries(this.states)));
+      } else {
+        localStorage.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.warn('Failed to save cooldown state:', error);
+    }
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * 전역 쿨다운 관리자 인스턴스
+ */
+export const cooldownManager = new CooldownManager();
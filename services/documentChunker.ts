@@ -0,0 +1,158 @@
+/**
+ * 문서 청크 분할 서비스
+ * App에서 합쳐 전달한 PDF 텍스트를 문서/페이지 단위로 나누고 겹치는 청크로 분할
+ */
+
+import {
+  DocumentChunk,
+  RetrievalConfig,
+  DEFAULT_RETRIEVAL_CONFIG
+} from '../types/api.js';
+
+/**
+ * 문서 구분 표시 (App.jsx의 discoverAndParsePdfs 참고)
+ */
+const DOCUMENT_SEPARATOR = /---\s*END OF DOCUMENT\s*---\s*---\s*START OF DOCUMENT\s*---/;
+
+/**
+ * 문서 파일명 표시 (App.jsx의 discoverAndParsePdfs 참고)
+ */
+const DOCUMENT_NAME_MARKER = /---\s*DOCUMENT:\s*(.+?)\s*---/;
+
+/**
+ * 페이지 구분 표시 (App.jsx의 parsePdfFromUrl 참고)
+ */
+const PAGE_MARKER = /---\s*PAGE\s+(\d+)\s*---/g;
+
+/**
+ * 페이지 단위 텍스트
+ */
+interface PageText {
+  documentIndex: number;
+  documentName: string;
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * 문서 청크 분할 클래스
+ */
+export class DocumentChunker {
+  constructor(
+    private config: Pick<RetrievalConfig, 'chunkSize' | 'chunkOverlap'> = DEFAULT_RETRIEVAL_CONFIG
+  ) {}
+
+  /**
+   * 소스 텍스트를 청크 목록으로 변환
+   */
+  chunk(sourceText: string): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const page of this.splitPages(sourceText)) {
+      this.splitText(page.text).forEach((content, index) => {
+        chunks.push({
+          id: `d${page.documentIndex}_p${page.pageNumber}_c${index}`,
+          documentIndex: page.documentIndex,
+          documentName: page.documentName,
+          pageNumber: page.pageNumber,
+          content
+        });
+      });
+    }
+
+    return chunks;
+  }
+
+  /**
+   * 문서와 페이지 표시를 기준으로 텍스트 분리
+   */
+  private splitPages(sourceText: string): PageText[] {
+    const pages: PageText[] = [];
+    const documents = sourceText.split(DOCUMENT_SEPARATOR);
+
+    documents.forEach((rawDocumentText, documentIndex) => {
+      const nameMatch = rawDocumentText.match(DOCUMENT_NAME_MARKER);
+      const documentName = nameMatch ? nameMatch[1] : `문서 ${documentIndex + 1}`;
+      const documentText = nameMatch ? rawDocumentText.replace(nameMatch[0], '') : rawDocumentText;
+      const markers = Array.from(documentText.matchAll(PAGE_MARKER));
+      const base = { documentIndex, documentName };
+
+      // 페이지 표시 이전의 텍스트는 페이지 정보 없이 보관
+      const leading = markers.length > 0 ? documentText.slice(0, markers[0].index) : documentText;
+      this.pushPage(pages, base, 0, leading);
+
+      markers.forEach((marker, i) => {
+        const start = marker.index! + marker[0].length;
+        const end = i + 1 < markers.length ? markers[i + 1].index : documentText.length;
+        this.pushPage(pages, base, Number(marker[1]), documentText.slice(start, end));
+      });
+    });
+
+    return pages;
+  }
+
+  /**
+   * 공백을 정리한 페이지 텍스트 추가 (빈 페이지 제외)
+   */
+  private pushPage(
+    pages: PageText[],
+    document: Pick<PageText, 'documentIndex' | 'documentName'>,
+    pageNumber: number,
+    rawText: string
+  ): void {
+    const text = rawText.replace(/\s+/g, ' ').trim();
+    if (text) {
+      pages.push({ ...document, pageNumber, text });
+    }
+  }
+
+  /**
+   * 페이지 텍스트를 겹치는 청크로 분할
+   * 청크 끝은 가능하면 문장 경계나 공백에 맞춤
+   */
+  private splitText(text: string): string[] {
+    const { chunkSize } = this.config;
+    const overlap = Math.min(this.config.chunkOverlap, Math.floor(chunkSize / 2));
+
+    if (text.length <= chunkSize) {
+      return [text];
+    }
+
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      let end = Math.min(start + chunkSize, text.length);
+
+      if (end < text.length) {
+        end = this.findBreakPoint(text, start + Math.floor(chunkSize * 0.8), end);
+      }
+
+      chunks.push(text.slice(start, end).trim());
+
+      if (end >= text.length) break;
+      start = Math.max(end - overlap, start + 1);
+    }
+
+    return chunks.filter(chunk => chunk.length > 0);
+  }
+
+  /**
+   * [min, max] 구간에서 마지막 문장 경계 또는 공백 위치 탐색
+   */
+  private findBreakPoint(text: string, min: number, max: number): number {
+    const window = text.slice(min, max);
+
+    const sentenceEnd = Math.max(
+      window.lastIndexOf('. '),
+      window.lastIndexOf('? '),
+      window.lastIndexOf('! ')
+    );
+    if (sentenceEnd >= 0) {
+      return min + window.indexOf(' ', sentenceEnd) + 1;
+    }
+
+    const space = window.lastIndexOf(' ');
+    return space >= 0 ? min + space + 1 : max;
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * 문서 코퍼스 로더
+ * 빌드 시 함께 배포한 코퍼스(pdf/corpus.json)로 문서 텍스트를 불러오고,
+ * PDF 목록(manifest.json)의 해시가 코퍼스와 다르거나 코퍼스에 없는 문서만 PDF를 받아 브라우저에서 직접 파싱
+ */
+
+import {
+  DocumentCorpus,
+  CorpusDocument,
+  LoadedDocument,
+  PdfManifestEntry,
+  DOCUMENT_CORPUS_VERSION,
+  EventCallback
+} from '../types/api.js';
+
+/**
+ * PDF 데이터를 페이지별 텍스트로 변환하는 함수 (pdf.js 사용, App.jsx에서 주입)
+ */
+export type PdfPageParser = (data: Uint8Array) => Promise<string[]>;
+
+/**
+ * 코퍼스 파일명 (scripts/buildCorpus.js의 CORPUS_FILE_NAME)
+ */
+const CORPUS_FILE_NAME = 'corpus.json';
+
+/**
+ * PDF 목록 파일명 (scripts/buildCorpus.js의 MANIFEST_FILE_NAME)
+ */
+const MANIFEST_FILE_NAME = 'manifest.json';
+
+/**
+ * 문서 코퍼스 로더 클래스
+ */
+export class DocumentCorpusLoader {
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  /**
+   * @param corpusBaseUrl 빌드 결과물의 코퍼스 위치 (dist/pdf/)
+   * @param pdfBaseUrl 직접 파싱할 때 PDF와 PDF 목록을 받을 위치
+   */
+  constructor(private corpusBaseUrl: string, private pdfBaseUrl: string) {}
+
+  /**
+   * 코퍼스 조회 (없거나 형식 버전이 다르면 null)
+   */
+  async loadCorpus(): Promise<DocumentCorpus | null> {
+    try {
+      const response = await fetch(this.corpusBaseUrl + CORPUS_FILE_NAME);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch corpus: ${response.status}`);
+      }
+
+      const corpus = await response.json();
+      if (!this.isValidCorpus(corpus)) {
+        throw new Error(`Unsupported corpus version: ${corpus?.version}`);
+      }
+
+      this.emit('corpusLoaded', { documentCount: corpus.documents.length, generatedAt: corpus.generatedAt });
+      return corpus;
+    } catch (error) {
+      console.warn('Document corpus unavailable, falling back to live parsing:', error);
+      this.emit('corpusUnavailable', { error });
+      return null;
+    }
+  }
+
+  /**
+   * 문서 목록 불러오기
+   * PDF 목록의 문서를 모두 불러오며, 코퍼스에 있고 PDF 해시가 같으면 코퍼스 텍스트를 사용하고
+   * 코퍼스에 없거나 해시가 다르면 직접 파싱 (PDF 목록을 받지 못하면 코퍼스의 문서만 사용)
+   * 실패한 문서는 건너뛰고 나머지만 반환
+   */
+  async loadDocuments(parsePdf: PdfPageParser): Promise<LoadedDocument[]> {
+    const [corpus, manifest] = await Promise.all([this.loadCorpus(), this.loadManifest()]);
+    const corpusDocuments = new Map<string, CorpusDocument>(
+      (corpus?.documents ?? []).map(document => [document.fileName, document])
+    );
+
+    const entries = manifest ?? corpus?.documents.map(({ fileName, sha256 }) => ({ fileName, sha256 }));
+    if (!entries) {
+      throw new Error('Neither the document corpus nor the PDF manifest is available');
+    }
+
+    const results = await Promise.all(
+      entries.map(entry => this.loadDocument(entry, corpusDocuments.get(entry.fileName), parsePdf))
+    );
+
+    return results.filter((document): document is LoadedDocument => document !== null);
+  }
+
+  /**
+   * PDF 목록 조회 (없거나 형식이 잘못되었으면 null)
+   */
+  private async loadManifest(): Promise<PdfManifestEntry[] | null> {
+    try {
+      const response = await fetch(this.pdfBaseUrl + MANIFEST_FILE_NAME);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch manifest: ${response.status}`);
+      }
+
+      const manifest = await response.json();
+      if (!Array.isArray(manifest)) {
+        throw new Error('Invalid manifest format');
+      }
+
+      // 이전 형식(파일명 문자열 목록)도 지원
+      return manifest.map(entry => (typeof entry === 'string' ? { fileName: entry } : entry));
+    } catch (error) {
+      console.warn('PDF manifest unavailable, using the document corpus only:', error);
+      this.emit('manifestUnavailable', { error });
+      return null;
+    }
+  }
+
+  /**
+   * 문서 하나 불러오기
+   * PDF 목록에 해시가 있으면 코퍼스의 해시와 비교하고, 없으면 PDF를 받아 해시를 계산해 비교
+   * 실패하면 코퍼스 텍스트가 있을 때 그것을 사용
+   */
+  private async loadDocument(
+    entry: PdfManifestEntry,
+    corpusDocument: CorpusDocument | undefined,
+    parsePdf: PdfPageParser
+  ): Promise<LoadedDocument | null> {
+    const { fileName } = entry;
+
+    try {
+      if (!corpusDocument) {
+        return await this.parseDocument(fileName, await this.fetchPdf(fileName), parsePdf, 'notInCorpus');
+      }
+
+      if (entry.sha256) {
+        return entry.sha256 === corpusDocument.sha256
+          ? this.fromCorpus(corpusDocument)
+          : await this.parseDocument(fileName, await this.fetchPdf(fileName), parsePdf, 'hashChanged');
+      }
+
+      const data = await this.fetchPdf(fileName);
+      return await this.hash(data) === corpusDocument.sha256
+        ? this.fromCorpus(corpusDocument)
+        : await this.parseDocument(fileName, data, parsePdf, 'hashChanged');
+    } catch (error) {
+      if (corpusDocument) {
+        console.warn(`Could not verify document ${fileName}, using the corpus text:`, error);
+        return this.fromCorpus(corpusDocument, 'unverified');
+      }
+
+      console.error(`Error loading document ${fileName}:`, error);
+      this.emit('documentError', { fileName, error });
+      return null;
+    }
+  }
+
+  /**
+   * 코퍼스 텍스트로 문서 생성
+   */
+  private fromCorpus(document: CorpusDocument, reason?: 'unverified'): LoadedDocument {
+    this.emit('documentLoaded', { fileName: document.fileName, source: 'corpus', reason });
+    return {
+      fileName: document.fileName,
+      pages: document.pages.map(page => page.text),
+      source: 'corpus'
+    };
+  }
+
+  /**
+   * PDF 받기
+   */
+  private async fetchPdf(fileName: string): Promise<Uint8Array> {
+    const response = await fetch(this.pdfBaseUrl + encodeURIComponent(fileName));
+    if (!response.ok) {
+      throw new Error(`Failed to fetch PDF: ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * PDF 직접 파싱
+   */
+  private async parseDocument(
+    fileName: string,
+    data: Uint8Array,
+    parsePdf: PdfPageParser,
+    reason: 'hashChanged' | 'notInCorpus'
+  ): Promise<LoadedDocument> {
+    const pages = await parsePdf(data);
+    this.emit('documentLoaded', { fileName, source: 'parsed', reason });
+    return { fileName, pages, source: 'parsed' };
+  }
+
+  /**
+   * 불러온 문서를 LLM 서비스에 전달할 소스 텍스트로 결합
+   * 문서/페이지 표시 형식은 services/documentChunker.ts와 맞춤
+   */
+  buildSourceText(documents: LoadedDocument[]): string {
+    return documents
+      .map(document => {
+        const pages = document.pages
+          .map((text, index) => `\n--- PAGE ${index + 1} ---\n${text}\n`)
+          .join('');
+        return `--- DOCUMENT: ${document.fileName} ---\n${pages}`;
+      })
+      .join('\n--- END OF DOCUMENT ---\n\n--- START OF DOCUMENT ---\n');
+  }
+
+  /**
+   * SHA-256 해시 (16진수, scripts/buildCorpus.js와 동일)
+   * Web Crypto는 보안 컨텍스트(HTTPS, localhost)에서만 사용 가능
+   */
+  private async hash(data: Uint8Array): Promise<string> {
+    if (!globalThis.crypto?.subtle) {
+      throw new Error('Web Crypto API is unavailable in this context');
+    }
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * 코퍼스 형식 검증
+   */
+  private isValidCorpus(corpus: any): corpus is DocumentCorpus {
+    return corpus &&
+      corpus.version === DOCUMENT_CORPUS_VERSION &&
+      Array.isArray(corpus.documents) &&
+      corpus.documents.every((document: any) =>
+        typeof document.fileName === 'string' &&
+        typeof document.sha256 === 'string' &&
+        Array.isArray(document.pages)
+      );
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in document corpus event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * API 에러 분류
+ * Gemini SDK 에러, Ollama·OpenAI 호환 서버의 HTTP 응답, fetch 네트워크 실패, 요청 중지를
+ * 상태 코드(statusCode), 재시도 가능 여부(retryable), 재시도 시점(retryAfter)이 채워진 ApiError로 변환
+ */
+
+import { ApiError, ApiErrorType, ApiResponseStatus } from '../types/api.js';
+
+/**
+ * 재시도 시점을 알려주지 않은 한도 초과 에러의 기본 대기 시간 (밀리초)
+ */
+const DEFAULT_RATE_LIMIT_RETRY_AFTER = 5000;
+
+/**
+ * Google API 에러 상태(gRPC 코드)별 HTTP 상태 코드
+ */
+const GOOGLE_STATUS_CODES: Record<string, number> = {
+  INVALID_ARGUMENT: 400,
+  FAILED_PRECONDITION: 400,
+  OUT_OF_RANGE: 400,
+  UNAUTHENTICATED: 401,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  ABORTED: 409,
+  ALREADY_EXISTS: 409,
+  RESOURCE_EXHAUSTED: 429,
+  CANCELLED: 499,
+  INTERNAL: 500,
+  UNKNOWN: 500,
+  DATA_LOSS: 500,
+  UNIMPLEMENTED: 501,
+  UNAVAILABLE: 503,
+  DEADLINE_EXCEEDED: 504
+};
+
+/**
+ * 에러 본문에서 읽은 정보
+ */
+interface ErrorDetails {
+  statusCode?: number;
+  retryAfter?: number;
+  detail?: string;
+}
+
+/**
+ * 중지 에러 생성 (AbortSignal과 같은 이름을 사용해 취소로 분류되도록 함)
+ */
+export function createAbortError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 시간 초과 에러 생성 (AbortSignal.timeout과 같은 이름을 사용해 시간 초과로 분류되도록 함)
+ */
+export function createTimeoutError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'TimeoutError';
+  return error;
+}
+
+/**
+ * 실패한 HTTP 응답으로 ApiError 생성
+ * 본문의 에러 메시지와 Retry-After 헤더를 함께 반영
+ */
+export async function createHttpError(response: Response, source: string): Promise<ApiError> {
+  let body = '';
+  try {
+    body = await response.text();
+  } catch {
+    // 본문을 읽지 못해도 상태 코드로 분류
+  }
+
+  const details = parseErrorBody(body);
+  const detail = details.detail ? ` - ${details.detail}` : '';
+  const error = new Error(`${source} API error: ${response.status} ${response.statusText}${detail}`) as ApiError;
+
+  return classifyError(error, {
+    statusCode: response.status,
+    retryAfter: parseRetryAfterHeader(response.headers.get('retry-after')) ?? details.retryAfter
+  });
+}
+
+/**
+ * 임의의 에러를 ApiError로 변환
+ * 이미 분류된 에러는 그대로 반환하고, 그 밖의 에러는 원본을 cause로 담은 새 ApiError로 반환 (원본은 변경하지 않음)
+ */
+export function toApiError(error: unknown): ApiError {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  const base = error instanceof Error ? error : new Error(String(error));
+  const apiError = new Error(base.message, { cause: error }) as ApiError;
+  apiError.name = base.name;
+  apiError.stack = base.stack;
+
+  if (base.name === 'AbortError') {
+    return assign(apiError, ApiErrorType.CANCELLED, false);
+  }
+  if (base.name === 'TimeoutError') {
+    return assign(apiError, ApiErrorType.TIMEOUT, true);
+  }
+  if (isNetworkError(base)) {
+    return assign(apiError, ApiErrorType.NETWORK_ERROR, true);
+  }
+
+  // Gemini SDK 에러는 status에 HTTP 상태 코드, 메시지에 Google API 에러 본문(JSON)을 담음
+  const details = parseErrorBody(base.message);
+  return classifyError(apiError, {
+    statusCode: 'status' in base && typeof base.status === 'number' ? base.status : details.statusCode,
+    retryAfter: details.retryAfter
+  });
+}
+
+/**
+ * 재시도하지 않도록 표시한 ApiError 생성 (원본은 cause로 보존)
+ */
+export function toNonRetryableError(error: unknown): ApiError {
+  const apiError = toApiError(error);
+  if (!apiError.retryable) {
+    return apiError;
+  }
+
+  const nonRetryable = new Error(apiError.message, { cause: apiError }) as ApiError;
+  nonRetryable.name = apiError.name;
+  nonRetryable.stack = apiError.stack;
+  nonRetryable.statusCode = apiError.statusCode;
+  return assign(nonRetryable, apiError.type, false, apiError.retryAfter);
+}
+
+/**
+ * 분류된 ApiError인지 확인
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof Error &&
+    Object.values(ApiErrorType).includes((error as ApiError).type) &&
+    typeof (error as ApiError).retryable === 'boolean';
+}
+
+/**
+ * 에러 타입에 따른 응답 상태 결정
+ */
+export function getResponseStatusFromError(error: ApiError): ApiResponseStatus {
+  switch (error.type) {
+    case ApiErrorType.RATE_LIMIT_EXCEEDED:
+      return ApiResponseStatus.RATE_LIMITED;
+    case ApiErrorType.NETWORK_ERROR:
+    case ApiErrorType.TIMEOUT:
+    case ApiErrorType.SERVER_ERROR:
+      return ApiResponseStatus.RETRYING;
+    case ApiErrorType.CANCELLED:
+      return ApiResponseStatus.CANCELLED;
+    default:
+      return ApiResponseStatus.ERROR;
+  }
+}
+
+/**
+ * 상태 코드로 에러 분류
+ */
+function classifyError(error: ApiError, { statusCode, retryAfter }: ErrorDetails): ApiError {
+  error.statusCode = statusCode;
+
+  if (statusCode === undefined) {
+    return assign(error, ApiErrorType.UNKNOWN, false);
+  }
+  if (statusCode === 429) {
+    return assign(error, ApiErrorType.RATE_LIMIT_EXCEEDED, true, retryAfter ?? DEFAULT_RATE_LIMIT_RETRY_AFTER);
+  }
+  if (statusCode === 408 || statusCode === 504) {
+    return assign(error, ApiErrorType.TIMEOUT, true, retryAfter);
+  }
+  if (statusCode >= 500) {
+    // 501(미구현)은 다시 보내도 결과가 같음
+    return assign(error, ApiErrorType.SERVER_ERROR, statusCode !== 501, retryAfter);
+  }
+  if (statusCode >= 400) {
+    return assign(error, ApiErrorType.INVALID_REQUEST, false);
+  }
+  return assign(error, ApiErrorType.UNKNOWN, false);
+}
+
+/**
+ * 분류 결과 기록
+ */
+function assign(error: ApiError, type: ApiErrorType, retryable: boolean, retryAfter?: number): ApiError {
+  error.type = type;
+  error.retryable = retryable;
+  if (retryAfter !== undefined) {
+    error.retryAfter = retryAfter;
+  }
+  return error;
+}
+
+/**
+ * fetch 네트워크 실패 확인 (브라우저마다 메시지가 다른 TypeError)
+ */
+function isNetworkError(error: Error): boolean {
+  return error.name === 'TypeError' &&
+    /failed to fetch|fetch failed|networkerror|network request failed|load failed/i.test(error.message);
+}
+
+/**
+ * 에러 본문(JSON) 해석
+ * Google API: { error: { code, status, message, details: [{ retryDelay }] } }
+ * OpenAI 호환: { error: { message, code } }, Ollama: { error: "..." }
+ */
+function parseErrorBody(text: string): ErrorDetails {
+  const start = text.indexOf('{');
+  if (start < 0) {
+    return { detail: text.trim() || undefined };
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(text.slice(start));
+  } catch {
+    return {};
+  }
+
+  const error = body?.error;
+  if (typeof error === 'string') {
+    return { detail: error };
+  }
+  if (!error || typeof error !== 'object') {
+    return {};
+  }
+
+  const statusCode = typeof error.code === 'number'
+    ? error.code
+    : GOOGLE_STATUS_CODES[error.status as string];
+  const retryInfo = Array.isArray(error.details)
+    ? error.details.find((detail: any) => typeof detail?.retryDelay === 'string')
+    : undefined;
+
+  return {
+    statusCode,
+    retryAfter: retryInfo ? parseDuration(retryInfo.retryDelay) : undefined,
+    detail: typeof error.message === 'string' ? error.message : undefined
+  };
+}
+
+/**
+ * Google 기간 문자열 변환 ("37s", "1.5s" → 밀리초)
+ */
+function parseDuration(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(value.trim());
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Retry-After 헤더 변환 (초 또는 HTTP 날짜 → 밀리초)
+ */
+function parseRetryAfterHeader(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,292 @@
+/**
+ * 캐시 교체 정책
+ * CacheService가 용량을 넘을 때 내보낼 항목을 고르는 정책 (LRU, LFU, TTL 우선, GDSF)
+ * 항목 추가·접근·삭제 때마다 장부를 갱신해 교체 시 전체 캐시를 훑지 않음
+ */
+
+import { CacheItem, EvictionPolicyType } from '../types/api.js';
+
+/**
+ * 교체 정책 인터페이스
+ */
+export interface EvictionPolicy {
+  readonly type: EvictionPolicyType;
+  /** 항목 추가 (같은 키가 있으면 교체) */
+  onInsert(item: CacheItem): void;
+  /** 항목 접근 */
+  onAccess(item: CacheItem): void;
+  /** 항목 삭제 */
+  onRemove(key: string): void;
+  /** 내보낼 항목 키 (비어 있으면 undefined) */
+  selectVictim(): string | undefined;
+  /** 장부 초기화 */
+  clear(): void;
+}
+
+/**
+ * LRU 정책 - 가장 오래 접근하지 않은 항목부터 (O(1))
+ * Map의 삽입 순서를 접근 순서로 사용
+ */
+export class LruEvictionPolicy implements EvictionPolicy {
+  readonly type = EvictionPolicyType.LRU;
+  private order = new Map<string, true>();
+
+  onInsert(item: CacheItem): void {
+    this.order.delete(item.key);
+    this.order.set(item.key, true);
+  }
+
+  onAccess(item: CacheItem): void {
+    this.onInsert(item);
+  }
+
+  onRemove(key: string): void {
+    this.order.delete(key);
+  }
+
+  selectVictim(): string | undefined {
+    return this.order.keys().next().value;
+  }
+
+  clear(): void {
+    this.order.clear();
+  }
+}
+
+/**
+ * LFU 정책 - 접근 횟수(accessCount)가 가장 적은 항목부터, 같으면 오래된 순 (O(1))
+ * 접근 횟수별 버킷과 최소 횟수를 유지
+ */
+export class LfuEvictionPolicy implements EvictionPolicy {
+  readonly type = EvictionPolicyType.LFU;
+  private frequencies = new Map<string, number>();
+  private buckets = new Map<number, Set<string>>();
+  private minFrequency = 0;
+
+  onInsert(item: CacheItem): void {
+    this.onRemove(item.key);
+    this.addToBucket(item.key, item.accessCount);
+    if (this.frequencies.size === 1 || item.accessCount < this.minFrequency) {
+      this.minFrequency = item.accessCount;
+    }
+  }
+
+  onAccess(item: CacheItem): void {
+    const frequency = this.frequencies.get(item.key);
+    if (frequency === undefined) {
+      this.onInsert(item);
+      return;
+    }
+
+    this.removeFromBucket(item.key, frequency);
+    this.addToBucket(item.key, frequency + 1);
+    if (frequency === this.minFrequency && !this.buckets.has(frequency)) {
+      this.minFrequency = frequency + 1;
+    }
+  }
+
+  onRemove(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency !== undefined) {
+      this.removeFromBucket(key, frequency);
+    }
+  }
+
+  selectVictim(): string | undefined {
+    if (this.frequencies.size === 0) {
+      return undefined;
+    }
+    // 최소 버킷이 삭제로 비었으면 남은 버킷 중 최소값으로 보정 (버킷 수만큼만 확인)
+    if (!this.buckets.has(this.minFrequency)) {
+      this.minFrequency = Math.min(...this.buckets.keys());
+    }
+    return this.buckets.get(this.minFrequency)!.values().next().value;
+  }
+
+  clear(): void {
+    this.frequencies.clear();
+    this.buckets.clear();
+    this.minFrequency = 0;
+  }
+
+  private addToBucket(key: string, frequency: number): void {
+    this.frequencies.set(key, frequency);
+    if (!this.buckets.has(frequency)) {
+      this.buckets.set(frequency, new Set());
+    }
+    this.buckets.get(frequency)!.add(key);
+  }
+
+  private removeFromBucket(key: string, frequency: number): void {
+    this.frequencies.delete(key);
+    const bucket = this.buckets.get(frequency);
+    bucket?.delete(key);
+    if (bucket && bucket.size === 0) {
+      this.buckets.delete(frequency);
+    }
+  }
+}
+
+/**
+ * 우선순위 힙 항목
+ */
+interface HeapEntry {
+  key: string;
+  priority: number;
+  version: number;
+}
+
+/**
+ * 우선순위가 가장 낮은 항목을 내보내는 정책의 기반 클래스 (O(log n))
+ * 우선순위가 바뀌면 새 항목을 넣고 이전 항목은 꺼낼 때 버림
+ */
+abstract class PriorityEvictionPolicy implements EvictionPolicy {
+  abstract readonly type: EvictionPolicyType;
+  private heap: HeapEntry[] = [];
+  private versions = new Map<string, number>();
+  private nextVersion = 0;
+
+  /** 항목 우선순위 (낮을수록 먼저 내보냄) */
+  protected abstract priority(item: CacheItem): number;
+
+  onInsert(item: CacheItem): void {
+    this.push(item.key, this.priority(item));
+  }
+
+  onAccess(item: CacheItem): void {
+    this.push(item.key, this.priority(item));
+  }
+
+  onRemove(key: string): void {
+    this.versions.delete(key);
+  }
+
+  selectVictim(): string | undefined {
+    this.discardStaleTop();
+    return this.heap[0]?.key;
+  }
+
+  clear(): void {
+    this.heap = [];
+    this.versions.clear();
+  }
+
+  /**
+   * 가장 앞의 유효한 항목 우선순위
+   */
+  protected peekPriority(): number | undefined {
+    this.discardStaleTop();
+    return this.heap[0]?.priority;
+  }
+
+  private push(key: string, priority: number): void {
+    const version = this.nextVersion++;
+    this.versions.set(key, version);
+    this.heap.push({ key, priority, version });
+    this.siftUp(this.heap.length - 1);
+
+    // 버려진 항목이 많이 쌓이면 유효한 항목만으로 다시 구성
+    if (this.heap.length > this.versions.size * 2 + 32) {
+      this.heap = this.heap.filter(entry => this.isCurrent(entry));
+      for (let i = (this.heap.length >> 1) - 1; i >= 0; i--) {
+        this.siftDown(i);
+      }
+    }
+  }
+
+  private isCurrent(entry: HeapEntry): boolean {
+    return this.versions.get(entry.key) === entry.version;
+  }
+
+  private discardStaleTop(): void {
+    while (this.heap.length > 0 && !this.isCurrent(this.heap[0])) {
+      const last = this.heap.pop()!;
+      if (this.heap.length > 0) {
+        this.heap[0] = last;
+        this.siftDown(0);
+      }
+    }
+  }
+
+  private less(a: HeapEntry, b: HeapEntry): boolean {
+    return a.priority < b.priority || (a.priority === b.priority && a.version < b.version);
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.less(this.heap[index], this.heap[parent])) break;
+      [this.heap[index], this.heap[parent]] = [this.heap[parent], this.heap[index]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.less(this.heap[left], this.heap[smallest])) smallest = left;
+      if (right < length && this.less(this.heap[right], this.heap[smallest])) smallest = right;
+      if (smallest === index) break;
+      [this.heap[index], this.heap[smallest]] = [this.heap[smallest], this.heap[index]];
+      index = smallest;
+    }
+  }
+}
+
+/**
+ * TTL 우선 정책 - 만료 시각이 가장 이른 항목부터 (이미 만료된 항목이 가장 먼저)
+ */
+export class TtlEvictionPolicy extends PriorityEvictionPolicy {
+  readonly type = EvictionPolicyType.TTL;
+
+  protected priority(item: CacheItem): number {
+    return item.expiresAt;
+  }
+}
+
+/**
+ * GDSF 정책 (Greedy-Dual-Size-Frequency)
+ * 우선순위 = 기준값 + 접근 횟수 / 크기 - 크고 드물게 쓰는 항목을 먼저 내보내고,
+ * 내보낸 항목의 우선순위를 기준값으로 올려 오래 남은 항목도 결국 교체되도록 함
+ */
+export class GdsfEvictionPolicy extends PriorityEvictionPolicy {
+  readonly type = EvictionPolicyType.GDSF;
+  private inflation = 0;
+
+  protected priority(item: CacheItem): number {
+    return this.inflation + (item.accessCount + 1) / Math.max(item.size, 1);
+  }
+
+  selectVictim(): string | undefined {
+    const priority = this.peekPriority();
+    if (priority !== undefined) {
+      this.inflation = priority;
+    }
+    return super.selectVictim();
+  }
+
+  clear(): void {
+    super.clear();
+    this.inflation = 0;
+  }
+}
+
+/**
+ * 정책 생성
+ */
+export function createEvictionPolicy(type: EvictionPolicyType): EvictionPolicy {
+  switch (type) {
+    case EvictionPolicyType.LFU:
+      return new LfuEvictionPolicy();
+    case EvictionPolicyType.TTL:
+      return new TtlEvictionPolicy();
+    case EvictionPolicyType.GDSF:
+      return new GdsfEvictionPolicy();
+    case EvictionPolicyType.LRU:
+    default:
+      return new LruEvictionPolicy();
+  }
+}
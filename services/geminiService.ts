@@ -1,31 +1,38 @@
 /**
  * Gemini API 통합 서비스
  * 캐시 시스템과 요청 큐를 통합한 Gemini API 서비스
+ * 답변 캐시, 문서 검색, 대화 기록, 요청 큐는 ChatCompletionService를 사용하고 Gemini 요청 형식 변환만 구현
  */
 
-import { GoogleGenAI } from '@google/genai';
-import { cacheService, qaCache } from './cacheService.js';
-import { requestQueue, queueHelpers } from './requestQueue.js';
+import { GoogleGenAI, Content, GenerateContentParameters } from '@google/genai';
+import { ChatCompletionRequest, ChatCompletionResult, ChatCompletionService } from './chatCompletionService.js';
+import { pipeTextStream } from './textStream.js';
+import { generationProfiles, toGeminiGenerationConfig } from './generationProfiles.js';
 import { getConfig } from '../config/apiConfig.js';
 import { 
   ApiResponse, 
-  ApiResponseStatus, 
-  ApiError, 
-  ApiErrorType,
-  EventCallback 
+  EventCallback,
+  ConversationTurn,
+  RetryPolicy,
+  StreamMessageOptions,
+  TokenUsage
 } from '../types/api.js';
 
+/**
+ * 사용할 Gemini 모델
+ */
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
 /**
  * Gemini API 통합 서비스 클래스
  */
-export class GeminiService {
+export class GeminiService extends ChatCompletionService {
   private ai: GoogleGenAI;
-  private chatSession: any = null;
-  private sourceText: string = '';
   private isInitialized = false;
-  private eventCallbacks: Map<string, EventCallback[]> = new Map();
 
   constructor() {
+    // Gemini는 컨텍스트가 충분히 길어 대화 기록을 줄이지 않음
+    super('gemini', 'gemini', Number.POSITIVE_INFINITY);
     this.initializeAI();
   }
 
@@ -49,337 +56,100 @@ export class GeminiService {
   }
 
   /**
-   * 소스 텍스트 설정 및 채팅 세션 생성
-   */
-  async setSourceText(sourceText: string): Promise<void> {
-    try {
-      this.sourceText = sourceText;
-      this.chatSession = this.createChatSession(sourceText);
-      this.emit('sourceTextSet', { sourceTextLength: sourceText.length });
-    } catch (error) {
-      console.error('Failed to set source text:', error);
-      this.emit('sourceTextError', { error });
-      throw error;
-    }
-  }
-
-  /**
-   * 채팅 세션 생성
-   */
-  private createChatSession(sourceText: string): any {
-    const systemInstruction = this.createSystemInstruction(sourceText);
-    
-    return this.ai.chats.create({
-      model: 'gemini-2.5-flash',
-      config: {
-        systemInstruction: systemInstruction,
-      },
-      history: [],
-    });
-  }
-
-  /**
-   * 시스템 지시사항 생성
+   * 현재 모델 반환
    */
-  private createSystemInstruction(sourceText: string): string {
-    return `You are an expert assistant. Your name is NotebookLM Assistant. 
-    You must answer questions based ONLY on the following source material provided. 
-    Do not use any external knowledge or your pre-trained knowledge. 
-    If the answer cannot be found in the source material, you must state that the information is not available in the provided context. 
-    Be concise, helpful, and cite which part of the source you are referring to if possible.
-
-    Here is the source material:
-    ---START OF SOURCE---
-    ${sourceText}
-    ---END OF SOURCE---`;
+  getCurrentModel(): string {
+    return GEMINI_MODEL;
   }
 
   /**
-   * 메시지 전송 (캐시 우선 조회)
+   * 요청에 사용할 모델 결정
    */
-  async sendMessage(message: string): Promise<ApiResponse<string>> {
-    const startTime = Date.now();
-    const requestId = this.generateRequestId();
-    
-    try {
-      // 1. 캐시에서 답변 조회
-      const cachedAnswer = qaCache.getAnswer(message);
-      if (cachedAnswer) {
-        const responseTime = Date.now() - startTime;
-        this.emit('cacheHit', { message, answer: cachedAnswer, responseTime });
-        
-        return {
-          status: ApiResponseStatus.CACHED,
-          data: cachedAnswer,
-          responseTime,
-          fromCache: true,
-          retryCount: 0,
-          requestId,
-          timestamp: Date.now()
-        };
-      }
-
-      // 2. 캐시 미스 - 요청 큐를 통해 API 호출
-      this.emit('cacheMiss', { message });
-      
-      const answer = await this.sendMessageWithQueue(message);
-      const responseTime = Date.now() - startTime;
-      
-      // 3. 성공한 답변을 캐시에 저장
-      qaCache.setAnswer(message, answer);
-      
-      this.emit('messageSent', { message, answer, responseTime });
-      
-      return {
-        status: ApiResponseStatus.SUCCESS,
-        data: answer,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
-      
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      const apiError = this.createApiError(error as Error);
-      
-      this.emit('messageError', { message, error: apiError, responseTime });
-      
-      return {
-        status: this.getResponseStatusFromError(apiError),
-        error: apiError.message,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
-    }
+  protected async resolveModel(): Promise<string> {
+    return GEMINI_MODEL;
   }
 
   /**
-   * 요청 큐를 통한 메시지 전송
+   * 설정의 재시도 횟수·간격으로 요청 큐 재시도 정책 생성
    */
-  private async sendMessageWithQueue(message: string): Promise<string> {
-    if (!this.chatSession) {
-      throw new Error('Chat session not initialized');
-    }
-
-    return queueHelpers.add(message, async (msg: string) => {
-      return this.processMessageWithRetry(msg);
-    });
-  }
-
-  /**
-   * 재시도 로직이 포함된 메시지 처리
-   */
-  private async processMessageWithRetry(message: string): Promise<string> {
-    const config = getConfig();
-    const maxRetries = config.RATE_LIMIT.MAX_RETRIES;
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const stream = await this.chatSession.sendMessageStream({ message });
-        
-        let response = '';
-        for await (const chunk of stream) {
-          response += chunk.text;
-        }
-        
-        return response;
-        
-      } catch (error) {
-        lastError = error as Error;
-        const apiError = this.createApiError(lastError);
-        
-        // 재시도 불가능한 에러면 즉시 중단
-        if (!apiError.retryable) {
-          throw apiError;
-        }
-        
-        // 마지막 시도면 에러 발생
-        if (attempt === maxRetries) {
-          throw apiError;
-        }
-        
-        // 재시도 지연
-        const delay = this.calculateRetryDelay(attempt, apiError.retryAfter);
-        this.emit('retryAttempt', { 
-          message, 
-          attempt: attempt + 1, 
-          maxRetries, 
-          delay,
-          error: apiError 
-        });
-        
-        await this.sleep(delay);
-      }
-    }
-    
-    throw lastError || new Error('Unknown error occurred');
+  protected createRetryPolicy(): Partial<RetryPolicy> {
+    const { RATE_LIMIT } = getConfig();
+    return {
+      maxRetries: RATE_LIMIT.MAX_RETRIES,
+      retryDelay: RATE_LIMIT.RETRY_DELAY_MS,
+      useExponentialBackoff: true,
+      maxRetryDelay: 30000 // 최대 30초
+    };
   }
 
   /**
-   * 재시도 지연 시간 계산
+   * Gemini API 호출 (응답 스트림을 모아 한 번에 반환)
    */
-  private calculateRetryDelay(attempt: number, retryAfter?: number): number {
-    if (retryAfter) {
-      return retryAfter;
-    }
-    
-    const config = getConfig();
-    const baseDelay = config.RATE_LIMIT.RETRY_DELAY_MS;
-    return Math.min(baseDelay * Math.pow(2, attempt), 30000); // 최대 30초
+  protected async requestChat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResult> {
+    let usage: TokenUsage | undefined;
+    const answer = await pipeTextStream(
+      this.requestChatStream(request, signal, (streamUsage) => { usage = streamUsage; }),
+      () => {},
+      signal
+    );
+    return { answer, usage };
   }
 
   /**
-   * API 에러 생성
+   * Gemini API 스트림 호출
+   * 조각에 담긴 누적 토큰 사용량(usageMetadata)은 onUsage로 전달
    */
-  private createApiError(error: Error): ApiError {
-    const apiError = error as ApiError;
-    
-    if (error.message.includes('429') || error.message.includes('RESOURCE_EXHAUSTED')) {
-      apiError.type = ApiErrorType.RATE_LIMIT_EXCEEDED;
-      apiError.retryable = true;
-      apiError.retryAfter = 5000;
-    } else if (error.message.includes('network') || error.message.includes('fetch')) {
-      apiError.type = ApiErrorType.NETWORK_ERROR;
-      apiError.retryable = true;
-    } else if (error.message.includes('timeout')) {
-      apiError.type = ApiErrorType.TIMEOUT;
-      apiError.retryable = true;
-    } else {
-      apiError.type = ApiErrorType.UNKNOWN;
-      apiError.retryable = false;
-    }
-    
-    return apiError;
-  }
+  protected async *requestChatStream(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): AsyncGenerator<string> {
+    const stream = await this.ai.models.generateContentStream(this.createParams(request, signal));
 
-  /**
-   * 에러 타입에 따른 응답 상태 결정
-   */
-  private getResponseStatusFromError(error: ApiError): ApiResponseStatus {
-    switch (error.type) {
-      case ApiErrorType.RATE_LIMIT_EXCEEDED:
-        return ApiResponseStatus.RATE_LIMITED;
-      case ApiErrorType.NETWORK_ERROR:
-      case ApiErrorType.TIMEOUT:
-        return ApiResponseStatus.RETRYING;
-      default:
-        return ApiResponseStatus.ERROR;
+    for await (const chunk of stream) {
+      const usage = this.parseUsage(chunk.usageMetadata);
+      if (usage) onUsage?.(usage);
+      if (chunk.text) yield chunk.text;
     }
   }
 
   /**
-   * 스트림 메시지 전송 (실시간 응답)
+   * 채팅 요청을 Gemini 요청 형식으로 변환
+   * 시스템 메시지(지시사항, 이전 대화 요약)는 systemInstruction으로 모으고 답변은 model 역할로 보냄
    */
-  async sendMessageStream(
-    message: string, 
-    onChunk: (chunk: string) => void
-  ): Promise<ApiResponse<void>> {
-    const startTime = Date.now();
-    const requestId = this.generateRequestId();
-    
-    try {
-      // 캐시에서 전체 답변 조회
-      const cachedAnswer = qaCache.getAnswer(message);
-      if (cachedAnswer) {
-        // 캐시된 답변을 청크 단위로 시뮬레이션
-        this.simulateStreamResponse(cachedAnswer, onChunk);
-        
-        const responseTime = Date.now() - startTime;
-        this.emit('streamCacheHit', { message, answer: cachedAnswer, responseTime });
-        
-        return {
-          status: ApiResponseStatus.CACHED,
-          responseTime,
-          fromCache: true,
-          retryCount: 0,
-          requestId,
-          timestamp: Date.now()
-        };
-      }
-
-      // API 호출
-      if (!this.chatSession) {
-        throw new Error('Chat session not initialized');
-      }
-
-      const stream = await this.chatSession.sendMessageStream({ message });
-      let fullResponse = '';
-      
-      for await (const chunk of stream) {
-        fullResponse += chunk.text;
-        onChunk(chunk.text);
-      }
-      
-      // 완전한 응답을 캐시에 저장
-      qaCache.setAnswer(message, fullResponse);
-      
-      const responseTime = Date.now() - startTime;
-      this.emit('streamMessageSent', { message, answer: fullResponse, responseTime });
-      
-      return {
-        status: ApiResponseStatus.SUCCESS,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
-      
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      const apiError = this.createApiError(error as Error);
-      
-      this.emit('streamError', { message, error: apiError, responseTime });
-      
-      return {
-        status: this.getResponseStatusFromError(apiError),
-        error: apiError.message,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
-    }
-  }
+  private createParams(request: ChatCompletionRequest, signal?: AbortSignal): GenerateContentParameters {
+    const systemInstruction = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const contents: Content[] = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      }));
 
-  /**
-   * 캐시된 응답을 스트림으로 시뮬레이션
-   */
-  private simulateStreamResponse(answer: string, onChunk: (chunk: string) => void): void {
-    const words = answer.split(' ');
-    let index = 0;
-    
-    const sendNextChunk = () => {
-      if (index < words.length) {
-        const chunk = words[index] + (index < words.length - 1 ? ' ' : '');
-        onChunk(chunk);
-        index++;
-        setTimeout(sendNextChunk, 50); // 50ms 간격으로 전송
+    return {
+      model: request.model,
+      contents,
+      config: {
+        systemInstruction,
+        ...toGeminiGenerationConfig(generationProfiles.getProfile(request.model)),
+        abortSignal: signal
       }
     };
-    
-    sendNextChunk();
   }
 
   /**
-   * 캐시 통계 조회
+   * usageMetadata를 토큰 사용량으로 변환 (생성 토큰에 사고 토큰 포함)
    */
-  getCacheStats() {
-    return cacheService.getStats();
-  }
+  private parseUsage(metadata: any): TokenUsage | undefined {
+    if (typeof metadata?.promptTokenCount !== 'number') return undefined;
 
-  /**
-   * 요청 큐 상태 조회
-   */
-  getQueueStatus() {
-    return queueHelpers.getStatus();
+    return {
+      promptTokens: metadata.promptTokenCount,
+      completionTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+    };
   }
 
   /**
@@ -389,80 +159,11 @@ export class GeminiService {
     return {
       isInitialized: this.isInitialized,
       hasSourceText: !!this.sourceText,
-      hasChatSession: !!this.chatSession,
+      historyLength: this.conversation.getTurns().length,
       cacheStats: this.getCacheStats(),
       queueStatus: this.getQueueStatus()
     };
   }
-
-  /**
-   * 캐시 초기화
-   */
-  clearCache(): void {
-    cacheService.clear();
-    this.emit('cacheCleared', {});
-  }
-
-  /**
-   * 요청 큐 초기화
-   */
-  clearQueue(): void {
-    queueHelpers.clear();
-    this.emit('queueCleared', {});
-  }
-
-  /**
-   * 이벤트 리스너 등록
-   */
-  on(event: string, callback: EventCallback): void {
-    if (!this.eventCallbacks.has(event)) {
-      this.eventCallbacks.set(event, []);
-    }
-    this.eventCallbacks.get(event)!.push(callback);
-  }
-
-  /**
-   * 이벤트 리스너 제거
-   */
-  off(event: string, callback: EventCallback): void {
-    const callbacks = this.eventCallbacks.get(event);
-    if (callbacks) {
-      const index = callbacks.indexOf(callback);
-      if (index > -1) {
-        callbacks.splice(index, 1);
-      }
-    }
-  }
-
-  /**
-   * 이벤트 발생
-   */
-  private emit(event: string, data: any): void {
-    const callbacks = this.eventCallbacks.get(event);
-    if (callbacks) {
-      callbacks.forEach(callback => {
-        try {
-          callback(data);
-        } catch (error) {
-          console.error(`Error in GeminiService event callback for ${event}:`, error);
-        }
-      });
-    }
-  }
-
-  /**
-   * 고유 요청 ID 생성
-   */
-  private generateRequestId(): string {
-    return `gemini_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  /**
-   * 대기 함수
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 /**
@@ -484,8 +185,8 @@ export const geminiHelpers = {
   /**
    * 메시지 전송
    */
-  async sendMessage(message: string): Promise<ApiResponse<string>> {
-    return geminiService.sendMessage(message);
+  async sendMessage(message: string, signal?: AbortSignal): Promise<ApiResponse<string>> {
+    return geminiService.sendMessage(message, signal);
   },
 
   /**
@@ -493,9 +194,25 @@ export const geminiHelpers = {
    */
   async sendMessageStream(
     message: string, 
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    options?: StreamMessageOptions
   ): Promise<ApiResponse<void>> {
-    return geminiService.sendMessageStream(message, onChunk);
+    return geminiService.sendMessageStream(message, onChunk, signal, options);
+  },
+
+  /**
+   * 대화 기록 초기화
+   */
+  resetConversation(): void {
+    geminiService.resetConversation();
+  },
+
+  /**
+   * 대화 기록 복원
+   */
+  restoreConversation(turns: ConversationTurn[]): void {
+    geminiService.restoreConversation(turns);
   },
 
   /**
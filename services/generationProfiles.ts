@@ -0,0 +1,260 @@
+/**
+ * 답변 생성 설정 저장소
+ * 기본 설정(LlmConfig.GENERATION_PROFILE) → 모델별 기본 설정 → 사용자가 고급 설정에서 바꾼 값 순으로 합쳐
+ * 모델별 GenerationProfile을 만들고, 사용자 설정은 localStorage에 저장
+ * 각 백엔드의 요청 파라미터(Ollama options, Gemini generationConfig, OpenAI 호환)로 변환하는 함수 제공
+ */
+
+import { EventCallback, GenerationProfile } from '../types/api.js';
+import { getConfig } from '../config/apiConfig.js';
+
+/**
+ * 사용자 설정을 저장하는 localStorage 키
+ */
+export const GENERATION_PROFILE_STORAGE_KEY = 'llm_generation_profiles';
+
+/**
+ * 설정 항목별 허용 범위 (정수 항목은 반올림)
+ */
+const PROFILE_LIMITS: Record<Exclude<keyof GenerationProfile, 'stop'>, { min: number; max: number; integer?: boolean }> = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  topK: { min: 1, max: 1000, integer: true },
+  numCtx: { min: 256, max: 1048576, integer: true },
+  numPredict: { min: -1, max: 1048576, integer: true },
+  repeatPenalty: { min: 0, max: 2 },
+  seed: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true }
+};
+
+/**
+ * 답변 생성 설정 저장소 클래스
+ */
+export class GenerationProfileStore {
+  private overrides: Record<string, GenerationProfile> = {};
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(private readonly storageKey: string = GENERATION_PROFILE_STORAGE_KEY) {
+    this.load();
+  }
+
+  /**
+   * 모델에 적용할 답변 생성 설정 조회
+   */
+  getProfile(model: string): GenerationProfile {
+    return { ...this.getDefaultProfile(model), ...this.overrides[model] };
+  }
+
+  /**
+   * 사용자 설정을 제외한 모델 기본 설정 조회
+   */
+  getDefaultProfile(model: string): GenerationProfile {
+    const { GENERATION_PROFILE, MODEL_GENERATION_PROFILES } = getConfig().LLM;
+    const prefix = Object.keys(MODEL_GENERATION_PROFILES)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return { ...GENERATION_PROFILE, ...(prefix ? MODEL_GENERATION_PROFILES[prefix] : {}) };
+  }
+
+  /**
+   * 사용자가 바꾼 설정이 있는지 확인
+   */
+  hasOverride(model: string): boolean {
+    return !!this.overrides[model];
+  }
+
+  /**
+   * 모델 설정 저장 (기본 설정과 같은 항목은 저장하지 않아 기본값 변경을 따라감)
+   */
+  setProfile(model: string, profile: GenerationProfile): GenerationProfile {
+    const defaults = this.getDefaultProfile(model);
+    const normalized = normalizeProfile(profile);
+    const override = Object.fromEntries(
+      Object.entries(normalized).filter(([key, value]) =>
+        JSON.stringify(value) !== JSON.stringify(defaults[key as keyof GenerationProfile])
+      )
+    ) as GenerationProfile;
+
+    if (Object.keys(override).length > 0) {
+      this.overrides[model] = override;
+    } else {
+      delete this.overrides[model];
+    }
+    this.save();
+
+    const merged = this.getProfile(model);
+    this.emit('profileChanged', { model, profile: merged });
+    return merged;
+  }
+
+  /**
+   * 모델 설정을 기본값으로 되돌림
+   */
+  resetProfile(model: string): GenerationProfile {
+    delete this.overrides[model];
+    this.save();
+
+    const profile = this.getProfile(model);
+    this.emit('profileChanged', { model, profile });
+    return profile;
+  }
+
+  /**
+   * 저장된 사용자 설정 로드
+   */
+  private load(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return;
+
+      const data = JSON.parse(stored);
+      if (!data || typeof data !== 'object') return;
+
+      Object.entries(data).forEach(([model, profile]) => {
+        this.overrides[model] = normalizeProfile(profile as GenerationProfile);
+      });
+    } catch (error) {
+      console.warn('Failed to load generation profiles:', error);
+    }
+  }
+
+  /**
+   * 사용자 설정 저장
+   */
+  private save(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.overrides));
+    } catch (error) {
+      console.warn('Failed to save generation profiles:', error);
+    }
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * 설정값 정리 (숫자가 아니거나 비어 있는 항목은 버리고, 범위를 벗어난 값은 범위 안으로 조정)
+ */
+export function normalizeProfile(profile: GenerationProfile): GenerationProfile {
+  const normalized: GenerationProfile = {};
+
+  (Object.keys(PROFILE_LIMITS) as (keyof typeof PROFILE_LIMITS)[]).forEach(key => {
+    const value = profile?.[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return;
+
+    const { min, max, integer } = PROFILE_LIMITS[key];
+    const clamped = Math.min(max, Math.max(min, value));
+    normalized[key] = integer ? Math.round(clamped) : clamped;
+  });
+
+  if (Array.isArray(profile?.stop)) {
+    const stop = profile.stop.filter(sequence => typeof sequence === 'string' && sequence.length > 0);
+    if (stop.length > 0) normalized.stop = stop;
+  }
+
+  return normalized;
+}
+
+/**
+ * Ollama options로 변환
+ */
+export function toOllamaOptions(profile: GenerationProfile): Record<string, unknown> {
+  return omitUndefined({
+    temperature: profile.temperature,
+    top_p: profile.topP,
+    top_k: profile.topK,
+    num_ctx: profile.numCtx,
+    num_predict: profile.numPredict,
+    repeat_penalty: profile.repeatPenalty,
+    seed: profile.seed,
+    stop: profile.stop
+  });
+}
+
+/**
+ * Gemini generationConfig 항목으로 변환 (num_ctx, repeat_penalty는 대응 항목이 없어 제외)
+ */
+export function toGeminiGenerationConfig(profile: GenerationProfile): {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  seed?: number;
+  stopSequences?: string[];
+} {
+  return omitUndefined({
+    temperature: profile.temperature,
+    topP: profile.topP,
+    topK: profile.topK,
+    // -1(제한 없음)은 Gemini에 대응 값이 없으므로 모델 기본값 사용
+    maxOutputTokens: profile.numPredict !== undefined && profile.numPredict > 0 ? profile.numPredict : undefined,
+    seed: profile.seed,
+    stopSequences: profile.stop
+  });
+}
+
+/**
+ * OpenAI 호환 chat/completions 파라미터로 변환 (표준 파라미터만 사용)
+ */
+export function toOpenAiParams(profile: GenerationProfile): Record<string, unknown> {
+  return omitUndefined({
+    temperature: profile.temperature,
+    top_p: profile.topP,
+    max_tokens: profile.numPredict !== undefined && profile.numPredict > 0 ? profile.numPredict : undefined,
+    seed: profile.seed,
+    stop: profile.stop
+  });
+}
+
+/**
+ * 값이 없는 항목 제거 (백엔드 기본값을 쓰도록)
+ */
+function omitUndefined<T extends Record<string, unknown>>(params: T): T {
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * 전역 답변 생성 설정 저장소 인스턴스
+ */
+export const generationProfiles = new GenerationProfileStore();
@@ -0,0 +1,102 @@
+/**
+ * LLM 프로바이더 레지스트리
+ * 프로바이더(ID, 표시 정보, 사용 가능 여부 확인, 모델 목록, 서비스 구현)를 등록/조회
+ */
+
+import { LlmProvider, EventCallback } from '../types/api.js';
+
+/**
+ * LLM 프로바이더 레지스트리 클래스
+ */
+export class LlmProviderRegistry {
+  private providers = new Map<string, LlmProvider>();
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  /**
+   * 프로바이더 등록 (같은 ID가 이미 있으면 에러)
+   */
+  register(provider: LlmProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`LLM provider already registered: ${provider.id}`);
+    }
+
+    this.providers.set(provider.id, provider);
+    this.emit('providerRegistered', { id: provider.id, name: provider.name });
+  }
+
+  /**
+   * 프로바이더 등록 해제
+   */
+  unregister(id: string): boolean {
+    const removed = this.providers.delete(id);
+    if (removed) {
+      this.emit('providerUnregistered', { id });
+    }
+    return removed;
+  }
+
+  /**
+   * 프로바이더 조회
+   */
+  get(id: string): LlmProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * 프로바이더 등록 여부
+   */
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * 등록된 프로바이더 목록 (등록 순)
+   */
+  list(): LlmProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in provider registry event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * 전역 LLM 프로바이더 레지스트리 인스턴스
+ */
+export const llmProviderRegistry = new LlmProviderRegistry();
@@ -0,0 +1,106 @@
+/**
+ * 기본 LLM 프로바이더
+ * Gemini, Ollama, OpenAI 호환 서버를 레지스트리에 등록할 프로바이더로 정의
+ */
+
+import { geminiService } from './geminiService.js';
+import { ollamaService } from './ollamaService.js';
+import { ollamaModelManager } from './ollamaModelManager.js';
+import { openAiCompatibleService } from './openAiCompatibleService.js';
+import { LlmProviderRegistry } from './llmProviderRegistry.js';
+import { getConfig } from '../config/apiConfig.js';
+import { LlmProvider } from '../types/api.js';
+
+/**
+ * Google Gemini 프로바이더
+ */
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Google의 Gemini API 서비스 (인터넷 연결 필요)',
+  service: geminiService,
+
+  async isAvailable() {
+    return !!process.env.API_KEY;
+  },
+
+  getCurrentModel() {
+    return geminiService.getCurrentModel();
+  }
+};
+
+/**
+ * Ollama 프로바이더
+ */
+export const ollamaProvider: LlmProvider = {
+  id: 'ollama',
+  name: 'Ollama (로컬)',
+  description: '로컬 Ollama 서버 (오프라인 가능)',
+  service: ollamaService,
+  modelManager: ollamaModelManager,
+
+  async isAvailable() {
+    try {
+      const response = await fetch(`${getConfig().LLM.OLLAMA_BASE_URL}/api/tags`);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  listModels() {
+    return ollamaService.getAvailableModels();
+  },
+
+  getCurrentModel() {
+    return ollamaService.getCurrentModel();
+  },
+
+  setModel(modelName: string) {
+    return ollamaService.setModel(modelName);
+  }
+};
+
+/**
+ * OpenAI 호환 서버 프로바이더 (llama.cpp server, vLLM, LM Studio 등)
+ */
+export const openAiCompatibleProvider: LlmProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI 호환 서버',
+  description: 'llama.cpp, vLLM, LM Studio 등 OpenAI 호환 API 서버',
+  service: openAiCompatibleService,
+
+  isAvailable() {
+    return openAiCompatibleService.checkConnection();
+  },
+
+  listModels() {
+    return openAiCompatibleService.getAvailableModels();
+  },
+
+  getCurrentModel() {
+    return openAiCompatibleService.getCurrentModel();
+  },
+
+  setModel(modelName: string) {
+    return openAiCompatibleService.setModel(modelName);
+  }
+};
+
+/**
+ * 기본 프로바이더 목록 (선택 UI 표시 순서)
+ */
+export const builtInProviders: LlmProvider[] = [
+  geminiProvider,
+  ollamaProvider,
+  openAiCompatibleProvider
+];
+
+/**
+ * 레지스트리에 기본 프로바이더 등록 (이미 등록된 ID는 건너뜀)
+ */
+export function registerBuiltInProviders(registry: LlmProviderRegistry): void {
+  builtInProviders
+    .filter(provider => !registry.has(provider.id))
+    .forEach(provider => registry.register(provider));
+}
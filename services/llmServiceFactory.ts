@@ -1,39 +1,35 @@
 /**
  * LLM 서비스 팩토리
- * GEMINI와 Ollama 서비스를 통합 관리하는 팩토리 클래스
+ * 프로바이더 레지스트리에 등록된 LLM 서비스를 통합 관리하는 팩토리 클래스
  */
 
-import { geminiService, geminiHelpers } from './geminiService.js';
-import { ollamaService, ollamaHelpers, OllamaModel } from './ollamaService.js';
+import { llmProviderRegistry, LlmProviderRegistry } from './llmProviderRegistry.js';
+import { registerBuiltInProviders } from './llmProviders.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { cooldownManager } from './cooldownManager.js';
+import { usageLedger } from './usageLedger.js';
 import { getConfig } from '../config/apiConfig.js';
 import { 
   ApiResponse, 
-  ApiResponseStatus, 
-  ApiError, 
+  ApiResponseStatus,
   ApiErrorType,
-  EventCallback 
+  BudgetStatus,
+  CooldownState,
+  EventCallback,
+  ConversationTurn,
+  LlmService,
+  LlmProvider,
+  LlmProviderInfo,
+  LlmModelInfo,
+  ModelManager,
+  BackendHealth,
+  StreamMessageOptions
 } from '../types/api.js';
 
 /**
- * LLM 서비스 타입
+ * LLM 서비스 타입 (레지스트리에 등록된 프로바이더 ID)
  */
-export type LlmServiceType = 'gemini' | 'ollama';
-
-/**
- * 통합 LLM 서비스 인터페이스
- */
-export interface LlmService {
-  setSourceText(sourceText: string): Promise<void>;
-  sendMessage(message: string): Promise<ApiResponse<string>>;
-  sendMessageStream(message: string, onChunk: (chunk: string) => void): Promise<ApiResponse<void>>;
-  getServiceStatus(): any;
-  getCacheStats(): any;
-  getQueueStatus(): any;
-  clearCache(): void;
-  clearQueue(): void;
-  on(event: string, callback: EventCallback): void;
-  off(event: string, callback: EventCallback): void;
-}
+export type LlmServiceType = string;
 
 /**
  * LLM 서비스 팩토리 클래스
@@ -41,8 +37,10 @@ export interface LlmService {
 export class LlmServiceFactory {
   private currentService: LlmServiceType;
   private config: any;
+  private breakers = new Map<string, CircuitBreaker>();
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
 
-  constructor() {
+  constructor(private registry: LlmProviderRegistry = llmProviderRegistry) {
     this.config = getConfig();
     this.currentService = this.config.LLM.SERVICE_TYPE;
   }
@@ -55,114 +53,374 @@ export class LlmServiceFactory {
   }
 
   /**
-   * 서비스 타입 변경
+   * 서비스 타입 변경 (프로바이더 사용 가능 여부 확인 후)
    */
   async setServiceType(serviceType: LlmServiceType): Promise<void> {
     try {
-      // Ollama 서비스로 변경 시 연결 확인
-      if (serviceType === 'ollama') {
-        await this.validateOllamaConnection();
+      const provider = this.getProvider(serviceType);
+      
+      if (!(await provider.isAvailable())) {
+        throw new Error(`${provider.name} is not available. Please check its configuration or server.`);
       }
       
+      const previous = this.currentService;
       this.currentService = serviceType;
       this.config.LLM.SERVICE_TYPE = serviceType;
       
-      console.log(`LLM service changed to: ${serviceType}`);
+      if (previous !== serviceType) {
+        this.emit('serviceChanged', { from: previous, to: serviceType });
+      }
     } catch (error) {
       throw new Error(`Failed to change service type to ${serviceType}: ${error}`);
     }
   }
 
   /**
-   * Ollama 연결 확인
+   * 프로바이더 조회
    */
-  private async validateOllamaConnection(): Promise<void> {
-    try {
-      const response = await fetch(`${this.config.LLM.OLLAMA_BASE_URL}/api/tags`);
-      if (!response.ok) {
-        throw new Error(`Ollama server not responding: ${response.status}`);
-      }
-    } catch (error) {
-      throw new Error(`Cannot connect to Ollama server at ${this.config.LLM.OLLAMA_BASE_URL}. Please ensure Ollama is running.`);
+  private getProvider(serviceType: LlmServiceType): LlmProvider {
+    const provider = this.registry.get(serviceType);
+    if (!provider) {
+      throw new Error(`Unknown service type: ${serviceType}`);
     }
+    return provider;
+  }
+
+  /**
+   * 현재 활성 프로바이더 조회
+   */
+  getCurrentProvider(): LlmProvider {
+    return this.getProvider(this.currentService);
   }
 
   /**
    * 현재 활성 서비스 인스턴스 조회
    */
   getCurrentService(): LlmService {
-    switch (this.currentService) {
-      case 'gemini':
-        return geminiService;
-      case 'ollama':
-        return ollamaService;
-      default:
-        throw new Error(`Unknown service type: ${this.currentService}`);
+    return this.getCurrentProvider().service;
+  }
+
+  /**
+   * 요청을 시도할 백엔드 순서 (현재 서비스 → 설정된 전환 순서)
+   */
+  getBackendOrder(): LlmServiceType[] {
+    if (!this.config.LLM.FAILOVER_ENABLED) {
+      return [this.currentService];
     }
+
+    const fallbacks = (this.config.LLM.FAILOVER_ORDER as string[])
+      .filter(id => id !== this.currentService && this.registry.has(id));
+    return [this.currentService, ...new Set(fallbacks)];
   }
 
   /**
-   * 현재 활성 헬퍼 함수들 조회
+   * 백엔드별 서킷 브레이커 조회 (없으면 생성)
    */
-  getCurrentHelpers(): any {
-    switch (this.currentService) {
-      case 'gemini':
-        return geminiHelpers;
-      case 'ollama':
-        return ollamaHelpers;
-      default:
-        throw new Error(`Unknown service type: ${this.currentService}`);
+  private getBreaker(backend: LlmServiceType): CircuitBreaker {
+    let breaker = this.breakers.get(backend);
+    if (!breaker) {
+      breaker = new CircuitBreaker(backend);
+      breaker.on('stateChanged', (data) => this.emit('circuitStateChanged', data));
+      this.breakers.set(backend, breaker);
     }
+    return breaker;
   }
 
   /**
-   * 사용 가능한 서비스 목록 조회
+   * 소스 텍스트 설정
+   * 현재 서비스는 실패 시 에러를 던지고, 전환 대상 백엔드는 가능한 경우에만 준비
    */
-  getAvailableServices(): Array<{type: LlmServiceType, name: string, description: string, available: boolean}> {
-    return [
-      {
-        type: 'gemini',
-        name: 'Google Gemini',
-        description: 'Google의 Gemini API 서비스 (인터넷 연결 필요)',
-        available: !!process.env.API_KEY
-      },
-      {
-        type: 'ollama',
-        name: 'Ollama (로컬)',
-        description: '로컬 Ollama 서버 (오프라인 가능)',
-        available: true // 연결 확인은 실제 사용 시에 수행
+  async setSourceText(sourceText: string): Promise<void> {
+    const [current, ...fallbacks] = this.getBackendOrder();
+
+    await this.getProvider(current).service.setSourceText(sourceText);
+
+    await Promise.all(fallbacks.map(async (backend) => {
+      try {
+        await this.getProvider(backend).service.setSourceText(sourceText);
+      } catch (error) {
+        console.warn(`Failed to prepare fallback backend ${backend}:`, error);
       }
-    ];
+    }));
+  }
+
+  /**
+   * 대화 기록 초기화 (전환 대상 백엔드 포함)
+   */
+  resetConversation(): void {
+    this.getBackendOrder().forEach(backend => this.getProvider(backend).service.resetConversation());
+  }
+
+  /**
+   * 저장된 대화 기록 복원 (전환 중에도 같은 맥락을 쓰도록 전환 대상 백엔드 포함)
+   */
+  restoreConversation(turns: ConversationTurn[]): void {
+    this.getBackendOrder().forEach(backend => this.getProvider(backend).service.restoreConversation(turns));
+  }
+
+  /**
+   * 메시지 전송 (실패 시 다음 백엔드로 자동 전환)
+   */
+  async sendMessage(message: string, signal?: AbortSignal): Promise<ApiResponse<string>> {
+    return this.sendWithFailover(service => service.sendMessage(message, signal));
+  }
+
+  /**
+   * 스트림 메시지 전송
+   * 응답 조각을 하나라도 전달한 뒤의 실패는 다른 백엔드로 넘기지 않음
+   */
+  async sendMessageStream(
+    message: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    options?: StreamMessageOptions
+  ): Promise<ApiResponse<void>> {
+    let chunkEmitted = false;
+
+    return this.sendWithFailover(
+      service => service.sendMessageStream(message, (chunk) => {
+        chunkEmitted = true;
+        onChunk(chunk);
+      }, signal, options),
+      () => !chunkEmitted
+    );
+  }
+
+  /**
+   * 백엔드 순서대로 요청하고 응답에 응답한 백엔드를 표시
+   * 차단되었거나 한도 초과로 대기 중인 백엔드와 설정되지 않았거나 연결할 수 없는 전환 대상 백엔드는 건너뜀
+   * 한도 초과로 실패한 백엔드는 그 백엔드만 대기시키고, 모든 백엔드가 실패하면
+   * 한도 초과 응답을 우선 반환하고 없으면 현재 서비스의 에러 응답을 반환
+   * 사용량 예산의 하드 한도에 도달한 백엔드는 설정에 따라 건너뛰거나(reroute) 거기서 중단(block)
+   * 중지된 요청은 다른 백엔드로 넘기지 않음
+   */
+  private async sendWithFailover<T>(
+    send: (service: LlmService) => Promise<ApiResponse<T>>,
+    canFailover: () => boolean = () => true
+  ): Promise<ApiResponse<T>> {
+    const order = this.getBackendOrder();
+    let lastResponse: ApiResponse<T> | null = null;
+    let primaryResponse: ApiResponse<T> | null = null;
+    let rateLimitedResponse: ApiResponse<T> | null = null;
+    let budgetResponse: ApiResponse<T> | null = null;
+
+    for (const backend of order) {
+      const exceeded = usageLedger.getExceededBudget(backend, this.getProvider(backend).getCurrentModel?.() ?? undefined);
+      if (exceeded) {
+        this.emit('budgetExceeded', { backend, status: exceeded });
+        budgetResponse = this.createBudgetExceededResponse(backend, exceeded);
+        if (this.config.USAGE.HARD_LIMIT_ACTION === 'block') break;
+        continue;
+      }
+
+      // 한도 초과로 대기 중인 백엔드는 대기가 끝날 때까지 건너뜀
+      if (cooldownManager.isActive(backend)) {
+        this.emit('backendSkipped', { backend, reason: 'cooldown' });
+        continue;
+      }
+
+      // 전환 대상 백엔드는 설정되어 있고 연결할 수 있을 때만 시도
+      if (backend !== order[0] && !(await this.getProvider(backend).isAvailable().catch(() => false))) {
+        this.emit('backendSkipped', { backend, reason: 'unavailable' });
+        continue;
+      }
+
+      const breaker = this.getBreaker(backend);
+      if (!breaker.tryAcquire()) {
+        this.emit('backendSkipped', { backend, health: breaker.getHealth() });
+        continue;
+      }
+
+      if (lastResponse) {
+        this.emit('failover', { from: lastResponse.backend, to: backend, reason: lastResponse.errorType });
+      }
+
+      const response = { ...await send(this.getProvider(backend).service), backend };
+      this.emit('backendResponse', response);
+      this.recordUsage(response);
+
+      if (response.status === ApiResponseStatus.SUCCESS || response.status === ApiResponseStatus.CACHED) {
+        breaker.recordSuccess();
+        return response;
+      }
+
+      // 사용자가 중지한 요청은 백엔드 장애가 아니므로 기록하지 않고 그대로 반환
+      if (response.status === ApiResponseStatus.CANCELLED) {
+        breaker.releaseProbe();
+        return response;
+      }
+
+      breaker.recordFailure(response.errorType);
+      lastResponse = response;
+      if (backend === order[0]) {
+        primaryResponse = response;
+      }
+      if (response.status === ApiResponseStatus.RATE_LIMITED) {
+        rateLimitedResponse ??= this.applyCooldown(response);
+      }
+
+      if (!canFailover()) break;
+    }
+
+    if (lastResponse) {
+      return rateLimitedResponse ?? primaryResponse ?? lastResponse;
+    }
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
+    // 모든 백엔드가 차단되었거나 대기 중인 상태
+    const retryAt = Math.min(...order.map(backend => Math.max(
+      this.getBreaker(backend).getHealth().retryAt ?? Date.now(),
+      Date.now() + cooldownManager.getRemaining(backend)
+    )));
+    return this.applyCooldown({
+      status: ApiResponseStatus.RATE_LIMITED,
+      error: `All LLM backends are temporarily unavailable. Retry after ${new Date(retryAt).toLocaleTimeString()}`,
+      responseTime: 0,
+      fromCache: false,
+      retryCount: 0,
+      retryAfter: Math.max(0, retryAt - Date.now()),
+      requestId: `failover_${Date.now()}`,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * 백엔드가 처리한 요청의 사용량 기록
+   * 도중에 실패하거나 중지된 요청도 기록하고, 캐시 답변과 한도 초과로 거절된 요청은 제외
+   * (중지된 요청은 토큰 사용량을 받은 경우만 기록)
+   */
+  private recordUsage<T>(response: ApiResponse<T> & { backend: LlmServiceType }): void {
+    const { status, backend, usage } = response;
+    if (status === ApiResponseStatus.CACHED || status === ApiResponseStatus.RATE_LIMITED) return;
+    if (status === ApiResponseStatus.CANCELLED && !usage) return;
+
+    const model = response.model ?? this.getProvider(backend).getCurrentModel?.() ?? backend;
+    usageLedger.record(backend, model, usage);
+  }
+
+  /**
+   * 예산 한도 도달 응답 생성 (이 백엔드에만 해당하므로 전체 대기는 시작하지 않음)
+   */
+  private createBudgetExceededResponse<T>(backend: LlmServiceType, status: BudgetStatus): ApiResponse<T> {
+    const { budget, used, resetAt } = status;
+    return {
+      status: ApiResponseStatus.RATE_LIMITED,
+      error: `${this.getProviderName(backend)} usage budget reached (${used}/${budget.hardLimit} ${budget.metric} per ${budget.period}). ` +
+        `Resets at ${new Date(resetAt).toLocaleTimeString()}`,
+      errorType: ApiErrorType.RATE_LIMIT_EXCEEDED,
+      retryAfter: Math.max(0, resetAt - Date.now()),
+      responseTime: 0,
+      fromCache: false,
+      retryCount: 0,
+      requestId: `budget_${Date.now()}`,
+      timestamp: Date.now(),
+      backend
+    };
   }
 
   /**
-   * Ollama 모델 목록 조회 (Ollama 서비스일 때만)
+   * 한도 초과로 실패한 백엔드는 서버가 알려준 시점까지 요청 대기 (백엔드가 없으면 모든 백엔드)
    */
-  async getAvailableModels(): Promise<OllamaModel[] | null> {
-    if (this.currentService === 'ollama') {
-      return ollamaService.getAvailableModels();
+  private applyCooldown<T>(response: ApiResponse<T>): ApiResponse<T> {
+    if (response.status === ApiResponseStatus.RATE_LIMITED && response.retryAfter) {
+      cooldownManager.start(response.retryAfter, { reason: response.errorType, backend: response.backend });
     }
-    return null;
+    return response;
   }
 
   /**
-   * Ollama 모델 설정 (Ollama 서비스일 때만)
+   * 백엔드 상태 조회 (시도 순서대로)
+   */
+  getBackendHealth(): BackendHealth[] {
+    return this.getBackendOrder().map(backend => this.getBreaker(backend).getHealth());
+  }
+
+  /**
+   * 모든 백엔드를 막고 있는 대기 상태 조회
+   * 전환 순서의 모든 백엔드가 대기 중이거나 사용할 수 없을 때만 가장 먼저 끝나는 대기를 반환하고,
+   * 대기 없이 요청할 수 있는 백엔드가 하나라도 있으면 null
+   */
+  async getBlockingCooldown(): Promise<CooldownState | null> {
+    const cooldowns: CooldownState[] = [];
+
+    for (const backend of this.getBackendOrder()) {
+      const state = cooldownManager.getState(backend);
+      if (state) {
+        cooldowns.push(state);
+      } else if (await this.getProvider(backend).isAvailable().catch(() => false)) {
+        return null;
+      }
+    }
+
+    if (cooldowns.length === 0) return null;
+    return cooldowns.reduce((earliest, state) => state.until < earliest.until ? state : earliest);
+  }
+
+  /**
+   * 백엔드 서킷 브레이커 초기화
+   */
+  resetBackendHealth(backend?: LlmServiceType): void {
+    const breakers = backend ? [this.getBreaker(backend)] : Array.from(this.breakers.values());
+    breakers.forEach(breaker => breaker.reset());
+  }
+
+  /**
+   * 프로바이더 표시 이름 조회
+   */
+  getProviderName(serviceType: LlmServiceType): string {
+    return this.registry.get(serviceType)?.name ?? serviceType;
+  }
+
+  /**
+   * 사용 가능한 서비스 목록 조회 (각 프로바이더의 사용 가능 여부 확인)
+   */
+  async getAvailableServices(): Promise<LlmProviderInfo[]> {
+    return Promise.all(
+      this.registry.list().map(async (provider) => ({
+        type: provider.id,
+        name: provider.name,
+        description: provider.description,
+        available: await provider.isAvailable().catch(() => false),
+        supportsModels: !!provider.listModels,
+        supportsModelManagement: !!provider.modelManager
+      }))
+    );
+  }
+
+  /**
+   * 모델 목록 조회 (모델 선택을 지원하는 프로바이더일 때만)
+   */
+  async getAvailableModels(): Promise<LlmModelInfo[] | null> {
+    const provider = this.getCurrentProvider();
+    return provider.listModels ? provider.listModels() : null;
+  }
+
+  /**
+   * 모델 설정 (모델 선택을 지원하는 프로바이더일 때만)
    */
   async setModel(modelName: string): Promise<void> {
-    if (this.currentService === 'ollama') {
-      return ollamaService.setModel(modelName);
+    const provider = this.getCurrentProvider();
+    if (!provider.setModel) {
+      throw new Error(`Model setting is not available for ${provider.name}`);
     }
-    throw new Error('Model setting is only available for Ollama service');
+    return provider.setModel(modelName);
   }
 
   /**
-   * 현재 모델 조회 (Ollama 서비스일 때만)
+   * 현재 모델 조회 (모델 선택을 지원하는 프로바이더일 때만)
    */
   getCurrentModel(): string | null {
-    if (this.currentService === 'ollama') {
-      return ollamaService.getCurrentModel();
-    }
-    return null;
+    const provider = this.getCurrentProvider();
+    return provider.getCurrentModel ? provider.getCurrentModel() : null;
+  }
+
+  /**
+   * 모델 관리 조회 (모델 설치·삭제를 지원하는 프로바이더일 때만)
+   */
+  getModelManager(): ModelManager | null {
+    return this.getCurrentProvider().modelManager ?? null;
   }
 
   /**
@@ -175,7 +433,8 @@ export class LlmServiceFactory {
     return {
       ...status,
       serviceType: this.currentService,
-      availableServices: this.getAvailableServices()
+      registeredServices: this.registry.list().map(provider => provider.id),
+      backendHealth: this.getBackendHealth()
     };
   }
 
@@ -192,8 +451,49 @@ export class LlmServiceFactory {
   updateConfig(newConfig: any) {
     this.config = { ...this.config, ...newConfig };
   }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in LLM factory event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
 }
 
+registerBuiltInProviders(llmProviderRegistry);
+
 /**
  * 전역 LLM 서비스 팩토리 인스턴스
  */
@@ -208,27 +508,40 @@ export const llmHelpers = {
    * 소스 텍스트 설정
    */
   async setSourceText(sourceText: string): Promise<void> {
-    const service = llmServiceFactory.getCurrentService();
-    return service.setSourceText(sourceText);
+    return llmServiceFactory.setSourceText(sourceText);
   },
 
   /**
-   * 메시지 전송
+   * 메시지 전송 (장애 시 다른 백엔드로 자동 전환)
    */
-  async sendMessage(message: string): Promise<ApiResponse<string>> {
-    const service = llmServiceFactory.getCurrentService();
-    return service.sendMessage(message);
+  async sendMessage(message: string, signal?: AbortSignal): Promise<ApiResponse<string>> {
+    return llmServiceFactory.sendMessage(message, signal);
   },
 
   /**
-   * 스트림 메시지 전송
+   * 스트림 메시지 전송 (장애 시 다른 백엔드로 자동 전환)
    */
   async sendMessageStream(
     message: string, 
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    options?: StreamMessageOptions
   ): Promise<ApiResponse<void>> {
-    const service = llmServiceFactory.getCurrentService();
-    return service.sendMessageStream(message, onChunk);
+    return llmServiceFactory.sendMessageStream(message, onChunk, signal, options);
+  },
+
+  /**
+   * 대화 기록 초기화
+   */
+  resetConversation(): void {
+    llmServiceFactory.resetConversation();
+  },
+
+  /**
+   * 저장된 대화 기록 복원
+   */
+  restoreConversation(turns: ConversationTurn[]): void {
+    llmServiceFactory.restoreConversation(turns);
   },
 
   /**
@@ -248,31 +561,38 @@ export const llmHelpers = {
   /**
    * 사용 가능한 서비스 목록 조회
    */
-  getAvailableServices() {
+  async getAvailableServices(): Promise<LlmProviderInfo[]> {
     return llmServiceFactory.getAvailableServices();
   },
 
   /**
-   * 사용 가능한 모델 목록 조회 (Ollama일 때만)
+   * 사용 가능한 모델 목록 조회 (모델 선택 지원 시)
    */
   async getAvailableModels() {
     return llmServiceFactory.getAvailableModels();
   },
 
   /**
-   * 모델 설정 (Ollama일 때만)
+   * 모델 설정 (모델 선택 지원 시)
    */
   async setModel(modelName: string): Promise<void> {
     return llmServiceFactory.setModel(modelName);
   },
 
   /**
-   * 현재 모델 조회 (Ollama일 때만)
+   * 현재 모델 조회 (모델 선택 지원 시)
    */
   getCurrentModel(): string | null {
     return llmServiceFactory.getCurrentModel();
   },
 
+  /**
+   * 모델 관리 조회 (모델 설치·삭제 지원 시)
+   */
+  getModelManager(): ModelManager | null {
+    return llmServiceFactory.getModelManager();
+  },
+
   /**
    * 서비스 상태 조회
    */
@@ -280,6 +600,27 @@ export const llmHelpers = {
     return llmServiceFactory.getServiceStatus();
   },
 
+  /**
+   * 백엔드 상태 조회
+   */
+  getBackendHealth(): BackendHealth[] {
+    return llmServiceFactory.getBackendHealth();
+  },
+
+  /**
+   * 모든 백엔드를 막고 있는 대기 상태 조회
+   */
+  async getBlockingCooldown(): Promise<CooldownState | null> {
+    return llmServiceFactory.getBlockingCooldown();
+  },
+
+  /**
+   * 프로바이더 표시 이름 조회
+   */
+  getProviderName(serviceType: LlmServiceType): string {
+    return llmServiceFactory.getProviderName(serviceType);
+  },
+
   /**
    * 캐시 통계 조회
    */
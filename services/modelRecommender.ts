@@ -0,0 +1,404 @@
+/**
+ * 하드웨어 기반 모델 추천
+ * 기기 메모리·CPU 코어 수(navigator.deviceMemory, hardwareConcurrency)와 Ollama의 /api/ps(로드된 모델의 실제 사용량),
+ * /api/show(파라미터 수, 양자화, 컨텍스트 길이, 레이어 구성)로 모델별 필요 메모리를 추정해
+ * 이 기기에서 실행할 수 있는지 판단하고 설치된 모델의 추천 순위를 매김
+ */
+
+import { generationProfiles } from './generationProfiles.js';
+import { getConfig } from '../config/apiConfig.js';
+import { HardwareProfile, MemoryFit, ModelMemoryAssessment, ModelMemoryEstimate } from '../types/api.js';
+
+/**
+ * 브라우저가 알려주는 기기 메모리 상한 (GB, 이 값이면 실제로는 그 이상일 수 있음)
+ */
+const DEVICE_MEMORY_CAP_GB = 8;
+
+/**
+ * 기기 메모리를 알 수 없을 때 가정하는 시스템 메모리 (GB)
+ */
+const DEFAULT_SYSTEM_MEMORY_GB = 16;
+
+/**
+ * 모델 실행 시 가중치·KV 캐시 외에 필요한 메모리 (연산 버퍼 등, GB)
+ */
+const RUNTIME_OVERHEAD_GB = 0.5;
+
+/**
+ * 사용 가능 메모리 대비 이 비율을 넘으면 '주의'로 판단
+ */
+const TIGHT_MEMORY_RATIO = 0.8;
+
+/**
+ * 응답이 느려질 수 있는 CPU 코어 수와 모델 크기 (GPU에 올라가지 않은 경우)
+ */
+const LOW_CPU_CORES = 4;
+const LARGE_MODEL_PARAMETERS = 8e9;
+
+/**
+ * 양자화 방식별 파라미터당 평균 비트 수 (llama.cpp 기준)
+ */
+const QUANTIZATION_BITS: Record<string, number> = {
+  F32: 32,
+  F16: 16,
+  BF16: 16,
+  Q8_0: 8.5,
+  Q6_K: 6.56,
+  Q5_K_M: 5.69,
+  Q5_K_S: 5.54,
+  Q5_1: 6,
+  Q5_0: 5.5,
+  Q4_K_M: 4.85,
+  Q4_K_S: 4.58,
+  Q4_1: 5,
+  Q4_0: 4.5,
+  Q3_K_L: 4.27,
+  Q3_K_M: 3.91,
+  Q3_K_S: 3.5,
+  Q2_K: 3.35
+};
+
+/**
+ * Ollama 기본 양자화 방식 (양자화 정보가 없을 때 사용)
+ */
+const DEFAULT_QUANTIZATION = 'Q4_K_M';
+
+/**
+ * 적합도 순서 (순위 계산용)
+ */
+const FIT_ORDER: Record<MemoryFit, number> = { ok: 0, tight: 1, insufficient: 2 };
+
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * /api/show 응답에서 추정에 쓰는 정보
+ */
+interface OllamaModelDetails {
+  parameterCount?: number;
+  quantization?: string;
+  maxContextLength?: number;
+  /** 토큰 하나당 KV 캐시 크기 (바이트, f16 기준) */
+  kvBytesPerToken?: number;
+}
+
+/**
+ * /api/ps 응답의 로드된 모델 정보
+ */
+interface LoadedModel {
+  /** 전체 메모리 사용량 (바이트) */
+  size: number;
+  /** GPU 메모리 사용량 (바이트) */
+  sizeVram: number;
+}
+
+/**
+ * 평가할 모델 (이름과 /api/tags의 파일 크기)
+ */
+export interface ModelCandidate {
+  name: string;
+  /** 모델 파일 크기 (바이트, 알 수 없으면 0) */
+  sizeBytes: number;
+}
+
+/**
+ * 하드웨어 기반 모델 추천 클래스
+ */
+export class ModelRecommender {
+  // /api/show 결과는 모델이 바뀌지 않는 한 같으므로 캐시
+  private detailsCache: Map<string, OllamaModelDetails> = new Map();
+
+  constructor(private readonly baseUrl: string) {}
+
+  /**
+   * 하드웨어 정보 조회
+   * 브라우저는 8GB 이상을 구분하지 못하므로 그 경우 기본 가정값 사용 (SYSTEM_MEMORY_GB로 직접 설정 가능)
+   */
+  getHardwareProfile(): HardwareProfile {
+    const { SYSTEM_MEMORY_GB, MEMORY_RESERVE_GB } = getConfig().LLM;
+    const nav: any = typeof navigator !== 'undefined' ? navigator : undefined;
+    const deviceMemory: number | undefined = typeof nav?.deviceMemory === 'number' ? nav.deviceMemory : undefined;
+    const cpuCores: number | undefined = typeof nav?.hardwareConcurrency === 'number' ? nav.hardwareConcurrency : undefined;
+
+    let memoryGB: number;
+    let memorySource: HardwareProfile['memorySource'];
+    if (SYSTEM_MEMORY_GB > 0) {
+      memoryGB = SYSTEM_MEMORY_GB;
+      memorySource = 'config';
+    } else if (deviceMemory !== undefined && deviceMemory < DEVICE_MEMORY_CAP_GB) {
+      memoryGB = deviceMemory;
+      memorySource = 'browser';
+    } else {
+      memoryGB = Math.max(deviceMemory ?? 0, DEFAULT_SYSTEM_MEMORY_GB);
+      memorySource = 'default';
+    }
+
+    // 메모리가 적은 기기에서 예약 메모리가 전부를 차지하지 않도록 절반까지만 예약
+    const reservedMemoryGB = Math.min(MEMORY_RESERVE_GB, memoryGB / 2);
+
+    return {
+      memoryGB,
+      memorySource,
+      reservedMemoryGB,
+      availableMemoryGB: memoryGB - reservedMemoryGB,
+      cpuCores
+    };
+  }
+
+  /**
+   * 여러 모델을 평가하고 추천 순으로 정렬
+   * 메모리에 맞는 모델 중 파라미터가 많은(답변 품질이 좋은) 모델을 앞에 둠
+   */
+  async assessModels(candidates: ModelCandidate[]): Promise<Map<string, ModelMemoryAssessment>> {
+    const hardware = this.getHardwareProfile();
+    const loadedModels = await this.getLoadedModels();
+
+    const assessments = await Promise.all(candidates.map(async candidate => {
+      const details = await this.getModelDetails(candidate.name);
+      const loaded = loadedModels.get(candidate.name);
+      const estimate = estimateModelMemory(candidate, details, loaded);
+      return { name: candidate.name, ...this.assess(estimate, hardware, loaded) };
+    }));
+
+    assessments.sort((a, b) =>
+      FIT_ORDER[a.fit] - FIT_ORDER[b.fit] ||
+      (b.estimate.parameterCount ?? b.estimate.weightsGB * 1e9) - (a.estimate.parameterCount ?? a.estimate.weightsGB * 1e9) ||
+      a.name.localeCompare(b.name)
+    );
+
+    return new Map(assessments.map(({ name, ...assessment }, index) => [name, { ...assessment, rank: index + 1 }]));
+  }
+
+  /**
+   * 모델 하나 평가
+   */
+  async assessModel(candidate: ModelCandidate): Promise<ModelMemoryAssessment> {
+    const loaded = (await this.getLoadedModels()).get(candidate.name);
+    const estimate = estimateModelMemory(candidate, await this.getModelDetails(candidate.name), loaded);
+    return this.assess(estimate, this.getHardwareProfile(), loaded);
+  }
+
+  /**
+   * 추정치와 하드웨어 정보로 적합도 판단 및 이유 작성
+   */
+  private assess(estimate: ModelMemoryEstimate, hardware: HardwareProfile, loaded?: LoadedModel): ModelMemoryAssessment {
+    const reasons: string[] = [];
+    const { availableMemoryGB } = hardware;
+    let fit: MemoryFit;
+
+    if (estimate.source === 'loaded') {
+      reasons.push(`현재 로드되어 ${round(estimate.totalGB)}GB를 사용 중입니다.`);
+    } else {
+      const kv = estimate.kvCacheGB > 0
+        ? ` + KV 캐시 ${round(estimate.kvCacheGB)}GB(컨텍스트 ${estimate.contextLength})`
+        : '';
+      reasons.push(
+        `예상 필요 메모리 ${round(estimate.totalGB)}GB ` +
+        `(가중치 ${round(estimate.weightsGB)}GB${kv} + 실행 여유 ${round(estimate.overheadGB)}GB)`
+      );
+    }
+    reasons.push(`사용 가능 메모리 ${round(availableMemoryGB)}GB (${describeMemorySource(hardware)})`);
+
+    if (estimate.totalGB > availableMemoryGB) {
+      fit = 'insufficient';
+      reasons.push(`필요 메모리가 사용 가능 메모리보다 ${round(estimate.totalGB - availableMemoryGB)}GB 많습니다.`);
+      if (estimate.kvCacheGB >= 1) {
+        reasons.push('고급 설정에서 컨텍스트 길이를 줄이면 KV 캐시 메모리가 줄어듭니다.');
+      }
+      reasons.push('더 작은 모델이나 더 낮은 양자화(예: Q4_K_M) 모델을 사용하세요.');
+    } else if (estimate.totalGB > availableMemoryGB * TIGHT_MEMORY_RATIO) {
+      fit = 'tight';
+      reasons.push(`사용 가능 메모리의 ${Math.round(estimate.totalGB / availableMemoryGB * 100)}%를 사용해 다른 프로그램과 함께 쓰면 느려질 수 있습니다.`);
+    } else {
+      fit = 'ok';
+    }
+
+    if (loaded && loaded.sizeVram > 0) {
+      reasons.push(`GPU 메모리 ${round(loaded.sizeVram / GB)}GB에 올라가 있습니다.`);
+    } else if (
+      hardware.cpuCores !== undefined &&
+      hardware.cpuCores < LOW_CPU_CORES &&
+      (estimate.parameterCount ?? 0) > LARGE_MODEL_PARAMETERS
+    ) {
+      if (fit === 'ok') fit = 'tight';
+      reasons.push(`CPU 코어가 ${hardware.cpuCores}개라 응답이 느릴 수 있습니다.`);
+    }
+
+    return { estimate, fit, reasons };
+  }
+
+  /**
+   * 로드된 모델 조회 (/api/ps, 실패하면 빈 목록)
+   */
+  private async getLoadedModels(): Promise<Map<string, LoadedModel>> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/ps`);
+      if (!response.ok) return new Map();
+
+      const data = await response.json();
+      return new Map((data.models || []).map((model: any) => [
+        model.name,
+        { size: model.size || 0, sizeVram: model.size_vram || 0 }
+      ]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  /**
+   * 모델 정보 조회 (/api/show, 실패하면 null로 두고 파일 크기만으로 추정)
+   */
+  private async getModelDetails(model: string): Promise<OllamaModelDetails | null> {
+    if (this.detailsCache.has(model)) {
+      return this.detailsCache.get(model)!;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model })
+      });
+      if (!response.ok) return null;
+
+      const details = parseModelDetails(await response.json());
+      this.detailsCache.set(model, details);
+      return details;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * 필요 메모리 추정
+ * 로드된 모델은 실제 사용량을, 그 외에는 가중치(파일 크기) + KV 캐시(현재 컨텍스트 길이) + 실행 여유분 사용
+ */
+function estimateModelMemory(
+  candidate: ModelCandidate,
+  details: OllamaModelDetails | null,
+  loaded?: LoadedModel
+): ModelMemoryEstimate {
+  const parameterCount = details?.parameterCount;
+  const quantization = details?.quantization;
+  const maxContextLength = details?.maxContextLength;
+
+  const configuredContext = generationProfiles.getProfile(candidate.name).numCtx;
+  const contextLength = configuredContext !== undefined && maxContextLength !== undefined
+    ? Math.min(configuredContext, maxContextLength)
+    : configuredContext ?? maxContextLength;
+
+  const bits = QUANTIZATION_BITS[(quantization ?? DEFAULT_QUANTIZATION).toUpperCase()] ?? QUANTIZATION_BITS[DEFAULT_QUANTIZATION];
+  const weightsGB = candidate.sizeBytes > 0
+    ? candidate.sizeBytes / GB
+    : (parameterCount ?? 0) * bits / 8 / GB;
+  const kvCacheGB = details?.kvBytesPerToken && contextLength
+    ? details.kvBytesPerToken * contextLength / GB
+    : 0;
+
+  if (loaded && loaded.size > 0) {
+    return {
+      model: candidate.name,
+      parameterCount,
+      quantization,
+      contextLength,
+      maxContextLength,
+      weightsGB,
+      kvCacheGB,
+      overheadGB: 0,
+      totalGB: loaded.size / GB,
+      source: 'loaded'
+    };
+  }
+
+  return {
+    model: candidate.name,
+    parameterCount,
+    quantization,
+    contextLength,
+    maxContextLength,
+    weightsGB,
+    kvCacheGB,
+    overheadGB: RUNTIME_OVERHEAD_GB,
+    totalGB: weightsGB + kvCacheGB + RUNTIME_OVERHEAD_GB,
+    source: 'estimated'
+  };
+}
+
+/**
+ * /api/show 응답 해석
+ * model_info의 키는 아키텍처 이름으로 시작 (예: llama.block_count, exaone.context_length)
+ */
+function parseModelDetails(data: any): OllamaModelDetails {
+  const info = data?.model_info ?? {};
+  const arch = info['general.architecture'];
+  const archValue = (key: string): number | undefined => {
+    const value = arch ? info[`${arch}.${key}`] : undefined;
+    return typeof value === 'number' ? value : undefined;
+  };
+
+  const parameterCount = typeof info['general.parameter_count'] === 'number'
+    ? info['general.parameter_count']
+    : parseParameterSize(data?.details?.parameter_size);
+
+  // KV 캐시: 레이어마다 토큰당 K, V를 f16(2바이트)으로 저장
+  const layers = archValue('block_count');
+  const embedding = archValue('embedding_length');
+  const heads = archValue('attention.head_count');
+  const kvHeads = archValue('attention.head_count_kv') ?? heads;
+  const headDim = embedding && heads ? embedding / heads : undefined;
+  const keyLength = archValue('attention.key_length') ?? headDim;
+  const valueLength = archValue('attention.value_length') ?? headDim;
+  const kvBytesPerToken = layers && kvHeads && keyLength && valueLength
+    ? layers * kvHeads * (keyLength + valueLength) * 2
+    : undefined;
+
+  return {
+    parameterCount,
+    quantization: data?.details?.quantization_level || undefined,
+    maxContextLength: archValue('context_length'),
+    kvBytesPerToken
+  };
+}
+
+/**
+ * 파라미터 크기 표기 해석 (예: 7.8B, 500M)
+ */
+function parseParameterSize(size: unknown): number | undefined {
+  if (typeof size !== 'string') return undefined;
+
+  const match = size.trim().match(/^([\d.]+)\s*([KMBT])?$/i);
+  if (!match) return undefined;
+
+  const units: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+  return parseFloat(match[1]) * (units[(match[2] ?? '').toUpperCase()] ?? 1);
+}
+
+/**
+ * 메모리 값 출처 설명
+ */
+function describeMemorySource(hardware: HardwareProfile): string {
+  const system = `시스템 ${hardware.memoryGB}GB - 예약 ${round(hardware.reservedMemoryGB)}GB`;
+
+  switch (hardware.memorySource) {
+    case 'config':
+      return `${system}, 설정값`;
+    case 'browser':
+      return `${system}, 브라우저 기준`;
+    default:
+      return `${system}, 기기 메모리를 정확히 알 수 없어 가정한 값`;
+  }
+}
+
+/**
+ * 소수점 첫째 자리 반올림
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * 전역 모델 추천 인스턴스
+ */
+export const modelRecommender = new ModelRecommender(
+  process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
+);
@@ -0,0 +1,362 @@
+/**
+ * Ollama 모델 관리
+ * 추천 모델 카탈로그와 설치된 모델(/api/tags)을 합쳐 보여주고,
+ * 모델 다운로드(/api/pull)의 진행률 추적·취소·이어받기와 삭제(/api/delete), 디스크 사용량 조회 기능 제공
+ */
+
+import { readLines } from './textStream.js';
+import { createHttpError, toApiError } from './errors.js';
+import {
+  EventCallback,
+  LlmModelInfo,
+  ModelCatalogEntry,
+  ModelDiskUsage,
+  ModelManager,
+  ModelPullProgress
+} from '../types/api.js';
+
+/**
+ * 추천 모델 카탈로그 (16GB 메모리 기준, 크기는 GB)
+ */
+export const OLLAMA_MODEL_CATALOG: LlmModelInfo[] = [
+  { name: 'exaone3.5:2.4b', size: 2, description: 'Exaone 3.5 2.4B - 빠른 한국어 특화 모델', recommended: true },
+  { name: 'exaone3.5:7.8b', size: 5, description: 'Exaone 3.5 7.8B - 균형잡힌 한국어 모델', recommended: true },
+  { name: 'exaone3.5:32b', size: 20, description: 'Exaone 3.5 32B - 고성능 한국어 모델', recommended: false },
+  { name: 'solar:10.7b', size: 6, description: 'Solar 10.7B - 고성능 한국어 특화 모델', recommended: false },
+  { name: 'llama3.2:3b', size: 2, description: 'Meta LLaMA 3.2 3B - 빠르고 효율적', recommended: false },
+  { name: 'llama3.2:7b', size: 4, description: 'Meta LLaMA 3.2 7B - 균형잡힌 성능', recommended: false },
+  { name: 'mistral:7b', size: 4, description: 'Mistral 7B - 고성능 소형 모델', recommended: false },
+  { name: 'codellama:7b', size: 4, description: 'Code Llama 7B - 코드 특화', recommended: false },
+  { name: 'llama3.1:8b', size: 5, description: 'Meta LLaMA 3.1 8B - 안정적 성능', recommended: false },
+  { name: 'qwen2.5:7b', size: 4, description: 'Qwen 2.5 7B - 다국어 지원', recommended: false },
+  { name: 'gemma2:9b', size: 5, description: 'Google Gemma 2 9B - Google 모델', recommended: false }
+];
+
+/**
+ * /api/tags 응답의 설치된 모델 정보
+ */
+export interface InstalledOllamaModel {
+  name: string;
+  size: number; // 바이트
+  modified_at?: string;
+}
+
+/**
+ * 진행 중인 다운로드
+ */
+interface ActivePull {
+  controller: AbortController;
+  promise: Promise<void>;
+}
+
+/**
+ * 바이트를 GB로 변환 (소수점 둘째 자리)
+ */
+export function bytesToGB(bytes: number): number {
+  return Math.round(bytes / (1024 * 1024 * 1024) * 100) / 100;
+}
+
+/**
+ * 모델 이름에 따른 설명 생성
+ */
+export function describeOllamaModel(modelName: string): string {
+  const catalogEntry = OLLAMA_MODEL_CATALOG.find(model => model.name === modelName);
+  if (catalogEntry) {
+    return catalogEntry.description;
+  }
+
+  if (modelName.includes('exaone')) {
+    return 'Exaone 3.5 - 한국어 특화 고성능 모델';
+  } else if (modelName.includes('solar')) {
+    return 'Solar - 고성능 한국어 특화 모델';
+  } else if (modelName.includes('llama3.2')) {
+    return 'Meta LLaMA 3.2 - 최신 Meta 모델';
+  } else if (modelName.includes('llama3.1')) {
+    return 'Meta LLaMA 3.1 - 안정적 성능의 Meta 모델';
+  } else if (modelName.includes('deepseek')) {
+    return 'DeepSeek R1 - 고성능 추론 모델';
+  } else if (modelName.includes('timHan')) {
+    return 'TimHan LLaMA Korean - 한국어 특화 모델';
+  } else if (modelName.includes('mistral')) {
+    return 'Mistral - 고성능 소형 모델';
+  } else if (modelName.includes('codellama')) {
+    return 'Code Llama - 코드 특화 모델';
+  } else if (modelName.includes('qwen')) {
+    return 'Qwen - 다국어 지원 모델';
+  } else if (modelName.includes('gemma')) {
+    return 'Google Gemma - Google 모델';
+  } else {
+    return `${modelName} - 사용자 정의 모델`;
+  }
+}
+
+/**
+ * Ollama 모델 관리 클래스
+ */
+export class OllamaModelManager implements ModelManager {
+  private activePulls: Map<string, ActivePull> = new Map();
+  private progress: Map<string, ModelPullProgress> = new Map();
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly catalog: LlmModelInfo[] = OLLAMA_MODEL_CATALOG
+  ) {}
+
+  /**
+   * 설치된 모델 목록 조회
+   */
+  async listInstalled(): Promise<InstalledOllamaModel[]> {
+    const response = await fetch(`${this.baseUrl}/api/tags`);
+    if (!response.ok) {
+      throw await createHttpError(response, 'Ollama');
+    }
+
+    const data = await response.json();
+    return data.models || [];
+  }
+
+  /**
+   * 추천 모델과 설치된 모델을 합친 카탈로그 조회 (설치된 모델, 추천 모델 순)
+   */
+  async listCatalog(): Promise<ModelCatalogEntry[]> {
+    const installed = await this.listInstalled();
+    const installedNames = new Set(installed.map(model => model.name));
+
+    const installedEntries: ModelCatalogEntry[] = installed.map(model => {
+      const catalogEntry = this.catalog.find(entry => entry.name === model.name);
+      return {
+        name: model.name,
+        size: bytesToGB(model.size || 0),
+        description: describeOllamaModel(model.name),
+        recommended: catalogEntry?.recommended ?? false,
+        installed: true,
+        diskSize: model.size || 0,
+        modifiedAt: model.modified_at
+      };
+    });
+
+    const availableEntries: ModelCatalogEntry[] = this.catalog
+      .filter(entry => !installedNames.has(entry.name))
+      .map(entry => ({ ...entry, installed: false }));
+
+    return [...installedEntries, ...availableEntries];
+  }
+
+  /**
+   * 모델 다운로드
+   * 같은 모델을 이미 받는 중이면 진행 중인 다운로드를 기다림
+   * Ollama는 받다 만 레이어를 보관하므로 취소 후 다시 받으면 이어받음
+   */
+  pull(model: string): Promise<void> {
+    const active = this.activePulls.get(model);
+    if (active) {
+      return active.promise;
+    }
+
+    const controller = new AbortController();
+    const promise = this.runPull(model, controller.signal).finally(() => {
+      this.activePulls.delete(model);
+    });
+    this.activePulls.set(model, { controller, promise });
+    return promise;
+  }
+
+  /**
+   * 진행 중인 다운로드 취소
+   */
+  cancelPull(model: string): void {
+    this.activePulls.get(model)?.controller.abort();
+  }
+
+  /**
+   * 다운로드 중인지 확인
+   */
+  isPulling(model: string): boolean {
+    return this.activePulls.has(model);
+  }
+
+  /**
+   * 모델별 마지막 다운로드 진행 상황 조회
+   */
+  getPullProgress(): ModelPullProgress[] {
+    return Array.from(this.progress.values()).map(progress => ({ ...progress }));
+  }
+
+  /**
+   * 설치된 모델 삭제
+   */
+  async deleteModel(model: string): Promise<void> {
+    if (this.activePulls.has(model)) {
+      throw new Error(`Model ${model} is being downloaded`);
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/delete`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model })
+      });
+      if (!response.ok) {
+        throw await createHttpError(response, 'Ollama');
+      }
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    this.progress.delete(model);
+    this.emit('modelDeleted', { model });
+    this.emit('modelsChanged', {});
+  }
+
+  /**
+   * 설치된 모델의 디스크 사용량 조회
+   */
+  async getDiskUsage(): Promise<ModelDiskUsage> {
+    const installed = await this.listInstalled();
+    return {
+      totalBytes: installed.reduce((sum, model) => sum + (model.size || 0), 0),
+      modelCount: installed.length
+    };
+  }
+
+  /**
+   * 다운로드 실행 및 진행률 추적
+   * 레이어마다 진행률이 따로 오므로 레이어별(digest) 값을 합쳐 전체 진행률 계산
+   */
+  private async runPull(model: string, signal: AbortSignal): Promise<void> {
+    const layers = new Map<string, { completed: number; total: number }>();
+    const previous = this.progress.get(model);
+    this.updateProgress(model, {
+      phase: 'pulling',
+      status: 'starting',
+      completed: previous?.completed ?? 0,
+      total: previous?.total ?? 0
+    });
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/pull`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, stream: true }),
+        signal
+      });
+      if (!response.ok) {
+        throw await createHttpError(response, 'Ollama');
+      }
+      if (!response.body) {
+        throw new Error('Response body is empty');
+      }
+
+      let succeeded = false;
+      for await (const line of readLines(response.body)) {
+        let data: any;
+        try {
+          data = JSON.parse(line);
+        } catch {
+          continue; // JSON 파싱 실패는 무시
+        }
+
+        // 다운로드 중 에러는 200 응답 안에 error 줄로 옴
+        if (data.error) {
+          throw new Error(data.error);
+        }
+
+        if (data.status === 'success') {
+          succeeded = true;
+        }
+
+        if (data.digest && typeof data.total === 'number') {
+          layers.set(data.digest, { completed: data.completed ?? 0, total: data.total });
+        }
+
+        const totals = Array.from(layers.values());
+        const current = this.progress.get(model);
+        this.updateProgress(model, {
+          phase: 'pulling',
+          status: data.status ?? current?.status ?? '',
+          completed: totals.length > 0 ? totals.reduce((sum, layer) => sum + layer.completed, 0) : current?.completed ?? 0,
+          total: totals.length > 0 ? totals.reduce((sum, layer) => sum + layer.total, 0) : current?.total ?? 0
+        });
+      }
+
+      // 연결이 끊겨 success 줄 없이 끝난 스트림은 다운로드가 끝나지 않은 것
+      if (!succeeded) {
+        throw new Error(`Pull of ${model} ended before the download completed`);
+      }
+
+      const current = this.progress.get(model)!;
+      this.updateProgress(model, { phase: 'completed', status: 'success', completed: current.total, total: current.total });
+      this.emit('pullCompleted', { model });
+      this.emit('modelsChanged', {});
+    } catch (error) {
+      const current = this.progress.get(model)!;
+
+      if (signal.aborted) {
+        this.updateProgress(model, { ...current, phase: 'cancelled', status: 'cancelled' });
+        this.emit('pullCancelled', { model });
+        return;
+      }
+
+      const apiError = toApiError(error);
+      this.updateProgress(model, { ...current, phase: 'failed', status: 'failed', error: apiError.message });
+      this.emit('pullFailed', { model, error: apiError });
+      throw apiError;
+    }
+  }
+
+  /**
+   * 진행 상황 갱신 및 알림
+   */
+  private updateProgress(model: string, update: Omit<ModelPullProgress, 'model' | 'updatedAt'>): void {
+    const progress: ModelPullProgress = { ...update, model, updatedAt: Date.now() };
+    this.progress.set(model, progress);
+    this.emit('pullProgress', { ...progress });
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * 전역 Ollama 모델 관리 인스턴스
+ */
+export const ollamaModelManager = new OllamaModelManager(
+  process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
+);
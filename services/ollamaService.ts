@@ -3,15 +3,20 @@
  * 캐시 시스템과 요청 큐를 통합한 Ollama API 서비스
  */
 
-import { cacheService, qaCache } from './cacheService.js';
-import { requestQueue, queueHelpers } from './requestQueue.js';
-import { getConfig } from '../config/apiConfig.js';
+import { ChatCompletionRequest, ChatCompletionResult, ChatCompletionService } from './chatCompletionService.js';
+import { readLines } from './textStream.js';
+import { createHttpError, toApiError } from './errors.js';
+import { generationProfiles, toOllamaOptions } from './generationProfiles.js';
+import { OLLAMA_MODEL_CATALOG, bytesToGB, describeOllamaModel, ollamaModelManager } from './ollamaModelManager.js';
+import { modelRecommender } from './modelRecommender.js';
 import { 
   ApiResponse, 
-  ApiResponseStatus, 
-  ApiError, 
-  ApiErrorType,
-  EventCallback 
+  EventCallback,
+  ConversationTurn,
+  StreamMessageOptions,
+  TokenUsage,
+  ModelPullProgress,
+  ModelMemoryAssessment
 } from '../types/api.js';
 
 /**
@@ -22,34 +27,19 @@ export interface OllamaModel {
   size: number; // GB
   description: string;
   recommended: boolean;
+  memory?: ModelMemoryAssessment;
 }
 
 /**
  * Ollama API 통합 서비스 클래스
  */
-export class OllamaService {
+export class OllamaService extends ChatCompletionService {
   private baseUrl: string;
   private currentModel: string;
-  private sourceText: string = '';
   private isInitialized = false;
-  private eventCallbacks: Map<string, EventCallback[]> = new Map();
-
-  // 16GB 메모리에 적합한 모델들
-  private availableModels: OllamaModel[] = [
-    { name: 'exaone3.5:2.4b', size: 2, description: 'Exaone 3.5 2.4B - 빠른 한국어 특화 모델', recommended: true },
-    { name: 'exaone3.5:7.8b', size: 5, description: 'Exaone 3.5 7.8B - 균형잡힌 한국어 모델', recommended: true },
-    { name: 'exaone3.5:32b', size: 20, description: 'Exaone 3.5 32B - 고성능 한국어 모델', recommended: false },
-    { name: 'solar:10.7b', size: 6, description: 'Solar 10.7B - 고성능 한국어 특화 모델', recommended: false },
-    { name: 'llama3.2:3b', size: 2, description: 'Meta LLaMA 3.2 3B - 빠르고 효율적', recommended: false },
-    { name: 'llama3.2:7b', size: 4, description: 'Meta LLaMA 3.2 7B - 균형잡힌 성능', recommended: false },
-    { name: 'mistral:7b', size: 4, description: 'Mistral 7B - 고성능 소형 모델', recommended: false },
-    { name: 'codellama:7b', size: 4, description: 'Code Llama 7B - 코드 특화', recommended: false },
-    { name: 'llama3.1:8b', size: 5, description: 'Meta LLaMA 3.1 8B - 안정적 성능', recommended: false },
-    { name: 'qwen2.5:7b', size: 4, description: 'Qwen 2.5 7B - 다국어 지원', recommended: false },
-    { name: 'gemma2:9b', size: 5, description: 'Google Gemma 2 9B - Google 모델', recommended: false }
-  ];
 
   constructor() {
+    super('ollama', 'ollama');
     this.baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
     this.currentModel = process.env.OLLAMA_MODEL || 'exaone3.5:2.4b';
     this.initializeService();
@@ -109,334 +99,143 @@ export class OllamaService {
   }
 
   /**
-   * 모델 다운로드
+   * 모델 다운로드 (진행률은 modelDownloadProgress 이벤트로 전달)
    */
   private async pullModel(modelName: string): Promise<void> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/pull`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: modelName })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to pull model ${modelName}: ${response.status}`);
+    const forwardProgress = (progress: ModelPullProgress) => {
+      if (progress.model === modelName) {
+        this.emit('modelDownloadProgress', progress);
       }
+    };
 
-      // 다운로드 진행률 모니터링
-      const reader = response.body?.getReader();
-      if (reader) {
-        const decoder = new TextDecoder();
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n').filter(line => line.trim());
-          
-          for (const line of lines) {
-            try {
-              const data = JSON.parse(line);
-              if (data.status) {
-                this.emit('modelDownloadProgress', { 
-                  model: modelName, 
-                  status: data.status,
-                  completed: data.completed,
-                  total: data.total
-                });
-              }
-            } catch (e) {
-              // JSON 파싱 실패는 무시
-            }
-          }
-        }
-      }
+    ollamaModelManager.on('pullProgress', forwardProgress);
+    try {
+      await ollamaModelManager.pull(modelName);
     } catch (error) {
       throw new Error(`Failed to pull model ${modelName}: ${error}`);
+    } finally {
+      ollamaModelManager.off('pullProgress', forwardProgress);
     }
-  }
-
-  /**
-   * 시스템 지시사항 생성
-   */
-  private createSystemInstruction(sourceText: string): string {
-    return `You are an expert assistant. Your name is NotebookLM Assistant. 
-You must answer questions based ONLY on the following source material provided. 
-Do not use any external knowledge or your pre-trained knowledge. 
-If the answer cannot be found in the source material, you must state that the information is not available in the provided context. 
-Be concise, helpful, and cite which part of the source you are referring to if possible.
-
-Here is the source material:
----START OF SOURCE---
-${sourceText}
----END OF SOURCE---`;
-  }
 
-  /**
-   * 소스 텍스트 설정
-   */
-  async setSourceText(sourceText: string): Promise<void> {
-    try {
-      this.sourceText = sourceText;
-      this.emit('sourceTextSet', { sourceText });
-    } catch (error) {
-      const apiError = this.createApiError(error as Error);
-      this.emit('sourceTextError', { error: apiError });
-      throw apiError;
+    const progress = ollamaModelManager.getPullProgress().find(p => p.model === modelName);
+    if (progress?.phase !== 'completed') {
+      throw new Error(`Failed to pull model ${modelName}: download was cancelled`);
     }
   }
 
   /**
-   * 메시지 전송 (캐시 우선 조회)
+   * 요청 전 서비스 초기화 확인
    */
-  async sendMessage(message: string): Promise<ApiResponse<string>> {
-    const startTime = Date.now();
-    const requestId = this.generateRequestId();
-    
-    try {
-      // 1. 캐시에서 답변 조회
-      const cachedAnswer = qaCache.getAnswer(message);
-      if (cachedAnswer) {
-        const responseTime = Date.now() - startTime;
-        this.emit('cacheHit', { message, answer: cachedAnswer, responseTime });
-        
-        return {
-          status: ApiResponseStatus.CACHED,
-          data: cachedAnswer,
-          responseTime,
-          fromCache: true,
-          retryCount: 0,
-          requestId,
-          timestamp: Date.now()
-        };
-      }
-
-      // 2. 캐시 미스 - 요청 큐를 통해 API 호출
-      this.emit('cacheMiss', { message });
-      
-      const answer = await this.sendMessageWithQueue(message);
-      const responseTime = Date.now() - startTime;
-      
-      // 3. 성공한 답변을 캐시에 저장
-      qaCache.setAnswer(message, answer);
-      
-      this.emit('messageSent', { message, answer, responseTime });
-      
-      return {
-        status: ApiResponseStatus.SUCCESS,
-        data: answer,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
-      
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      const apiError = this.createApiError(error as Error);
-      
-      this.emit('messageError', { message, error: apiError, responseTime });
-      
-      return {
-        status: this.getResponseStatusFromError(apiError),
-        error: apiError.message,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
+  protected ensureReady(): void {
+    if (!this.isInitialized) {
+      throw new Error('Ollama service not initialized');
     }
   }
 
   /**
-   * 요청 큐를 통한 메시지 전송
+   * 요청에 사용할 모델 결정
    */
-  private async sendMessageWithQueue(message: string): Promise<string> {
-    if (!this.isInitialized) {
-      throw new Error('Ollama service not initialized');
-    }
-
-    return new Promise((resolve, reject) => {
-      const request = {
-        message,
-        sourceText: this.sourceText,
-        model: this.currentModel
-      };
-
-      requestQueue.addRequest(request, async (requestData) => {
-        try {
-          const answer = await this.callOllamaAPI(requestData);
-          resolve(answer);
-        } catch (error) {
-          reject(error);
-        }
-      });
-    });
+  protected async resolveModel(): Promise<string> {
+    return this.currentModel;
   }
 
   /**
    * Ollama API 호출
    */
-  private async callOllamaAPI(requestData: any): Promise<string> {
-    const systemInstruction = this.createSystemInstruction(requestData.sourceText);
-    
-    const payload = {
-      model: requestData.model,
-      messages: [
-        {
-          role: 'system',
-          content: systemInstruction
-        },
-        {
-          role: 'user',
-          content: requestData.message
-        }
-      ],
-      stream: false,
-      options: {
-        temperature: 0.7,
-        top_p: 0.9,
-        max_tokens: 2048
-      }
-    };
-
-    try {
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload)
-      });
+  protected async requestChat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResult> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.createPayload(request, false)),
+      signal
+    });
 
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-      }
+    if (!response.ok) {
+      throw await createHttpError(response, 'Ollama');
+    }
 
-      const data = await response.json();
-      
-      if (data.message && data.message.content) {
-        return data.message.content.trim();
-      } else {
-        throw new Error('Invalid response format from Ollama API');
-      }
-    } catch (error) {
-      throw new Error(`Ollama API call failed: ${error}`);
+    const data = await response.json();
+    
+    if (data.message && data.message.content) {
+      return { answer: data.message.content.trim(), usage: this.parseUsage(data) };
+    } else {
+      throw new Error('Invalid response format from Ollama API');
     }
   }
 
   /**
-   * 스트림 메시지 전송
-   */
-  async sendMessageStream(
-    message: string, 
-    onChunk: (chunk: string) => void
-  ): Promise<ApiResponse<void>> {
-    const startTime = Date.now();
-    const requestId = this.generateRequestId();
-    
-    try {
-      if (!this.isInitialized) {
-        throw new Error('Ollama service not initialized');
-      }
+   * Ollama 스트림 호출 (NDJSON)
+   * 생성 도중 서버가 보낸 에러 줄은 에러로 전달하고, 마지막 줄의 토큰 사용량은 onUsage로 전달
+   */
+  protected async *requestChatStream(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): AsyncGenerator<string> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.createPayload(request, true)),
+      signal
+    });
 
-      const systemInstruction = this.createSystemInstruction(this.sourceText);
-      
-      const payload = {
-        model: this.currentModel,
-        messages: [
-          {
-            role: 'system',
-            content: systemInstruction
-          },
-          {
-            role: 'user',
-            content: message
-          }
-        ],
-        stream: true,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          max_tokens: 2048
-        }
-      };
-
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload)
-      });
+    if (!response.ok) {
+      throw await createHttpError(response, 'Ollama');
+    }
 
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-      }
+    if (!response.body) {
+      throw new Error('No response body reader available');
+    }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body reader available');
+    for await (const line of readLines(response.body)) {
+      let data: any;
+      try {
+        data = JSON.parse(line);
+      } catch (e) {
+        // JSON 파싱 실패는 무시
+        continue;
       }
 
-      const decoder = new TextDecoder();
-      let fullResponse = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim());
-
-        for (const line of lines) {
-          try {
-            const data = JSON.parse(line);
-            if (data.message && data.message.content) {
-              const content = data.message.content;
-              fullResponse += content;
-              onChunk(content);
-            }
-          } catch (e) {
-            // JSON 파싱 실패는 무시
-          }
-        }
+      if (data.error) {
+        throw new Error(`Ollama API error: ${data.error}`);
       }
+      if (data.message?.content) {
+        yield data.message.content;
+      }
+      if (data.done) {
+        const usage = this.parseUsage(data);
+        if (usage) onUsage?.(usage);
+      }
+    }
+  }
 
-      // 스트림 완료 후 캐시에 저장
-      qaCache.setAnswer(message, fullResponse);
-
-      const responseTime = Date.now() - startTime;
-      this.emit('messageStreamCompleted', { message, answer: fullResponse, responseTime });
+  /**
+   * 요청 본문 생성
+   */
+  private createPayload(request: ChatCompletionRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      options: toOllamaOptions(generationProfiles.getProfile(request.model))
+    };
+  }
 
-      return {
-        status: ApiResponseStatus.SUCCESS,
-        data: undefined,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
+  /**
+   * 응답의 평가 횟수로 토큰 사용량 계산 (eval_duration은 나노초)
+   */
+  private parseUsage(data: any): TokenUsage | undefined {
+    if (typeof data.eval_count !== 'number') return undefined;
 
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      const apiError = this.createApiError(error as Error);
-      
-      this.emit('messageStreamError', { message, error: apiError, responseTime });
-      
-      return {
-        status: this.getResponseStatusFromError(apiError),
-        error: apiError.message,
-        responseTime,
-        fromCache: false,
-        retryCount: 0,
-        requestId,
-        timestamp: Date.now()
-      };
-    }
+    return {
+      promptTokens: data.prompt_eval_count ?? 0,
+      completionTokens: data.eval_count,
+      generationTime: typeof data.eval_duration === 'number' ? data.eval_duration / 1e6 : undefined
+    };
   }
 
   /**
@@ -452,67 +251,33 @@ ${sourceText}
       
       const data = await response.json();
       const installedModels = data.models || [];
+
+      // 이 기기의 메모리 기준으로 평가하고 추천 순위 매김
+      const assessments = await modelRecommender.assessModels(
+        installedModels.map((model: any) => ({ name: model.name, sizeBytes: model.size || 0 }))
+      );
       
       // 설치된 모델들을 OllamaModel 형식으로 변환
       const models: OllamaModel[] = installedModels.map((model: any) => {
-        const sizeInGB = Math.round((model.size || 0) / (1024 * 1024 * 1024) * 100) / 100;
         const isRecommended = model.name.includes('exaone') || model.name.includes('solar');
         
         return {
           name: model.name,
-          size: sizeInGB,
-          description: this.getModelDescription(model.name),
-          recommended: isRecommended
+          size: bytesToGB(model.size || 0),
+          description: describeOllamaModel(model.name),
+          recommended: isRecommended,
+          memory: assessments.get(model.name)
         };
       });
       
-      // exaone 모델을 맨 앞으로 정렬
-      models.sort((a, b) => {
-        if (a.name.includes('exaone') && !b.name.includes('exaone')) return -1;
-        if (!a.name.includes('exaone') && b.name.includes('exaone')) return 1;
-        return a.name.localeCompare(b.name);
-      });
+      // 추천 순위대로 정렬
+      models.sort((a, b) => (a.memory?.rank ?? Infinity) - (b.memory?.rank ?? Infinity) || a.name.localeCompare(b.name));
       
       return models;
     } catch (error) {
       console.error('Failed to fetch available models:', error);
       // 에러 시 기본 모델 목록 반환
-      return [...this.availableModels];
-    }
-  }
-
-  /**
-   * 모델 이름에 따른 설명 생성
-   */
-  private getModelDescription(modelName: string): string {
-    if (modelName.includes('exaone3.5:2.4b')) {
-      return 'Exaone 3.5 2.4B - 빠른 한국어 특화 모델';
-    } else if (modelName.includes('exaone3.5:7.8b')) {
-      return 'Exaone 3.5 7.8B - 균형잡힌 한국어 모델';
-    } else if (modelName.includes('exaone3.5:32b')) {
-      return 'Exaone 3.5 32B - 고성능 한국어 모델';
-    } else if (modelName.includes('exaone')) {
-      return 'Exaone 3.5 - 한국어 특화 고성능 모델';
-    } else if (modelName.includes('solar')) {
-      return 'Solar - 고성능 한국어 특화 모델';
-    } else if (modelName.includes('llama3.2')) {
-      return 'Meta LLaMA 3.2 - 최신 Meta 모델';
-    } else if (modelName.includes('llama3.1')) {
-      return 'Meta LLaMA 3.1 - 안정적 성능의 Meta 모델';
-    } else if (modelName.includes('deepseek')) {
-      return 'DeepSeek R1 - 고성능 추론 모델';
-    } else if (modelName.includes('timHan')) {
-      return 'TimHan LLaMA Korean - 한국어 특화 모델';
-    } else if (modelName.includes('mistral')) {
-      return 'Mistral - 고성능 소형 모델';
-    } else if (modelName.includes('codellama')) {
-      return 'Code Llama - 코드 특화 모델';
-    } else if (modelName.includes('qwen')) {
-      return 'Qwen - 다국어 지원 모델';
-    } else if (modelName.includes('gemma')) {
-      return 'Google Gemma - Google 모델';
-    } else {
-      return `${modelName} - 사용자 정의 모델`;
+      return [...OLLAMA_MODEL_CATALOG];
     }
   }
 
@@ -529,9 +294,12 @@ ${sourceText}
         throw new Error(`Model ${modelName} not available. Please check if the model is installed.`);
       }
 
-      // 메모리 체크 (16GB 제한)
-      if (model.size > 12) { // 12GB 이하로 제한 (시스템 메모리 고려)
-        throw new Error(`Model ${modelName} requires ${model.size}GB, which exceeds available memory`);
+      // 이 기기의 메모리로 실행할 수 없는 모델은 이유와 함께 거부
+      if (model.memory?.fit === 'insufficient') {
+        const { estimate, reasons } = model.memory;
+        throw new Error(
+          `Model ${modelName} requires about ${estimate.totalGB.toFixed(1)}GB, which exceeds available memory. ${reasons.join(' ')}`
+        );
       }
 
       this.currentModel = modelName;
@@ -539,7 +307,7 @@ ${sourceText}
       
       this.emit('modelChanged', { model: modelName });
     } catch (error) {
-      const apiError = this.createApiError(error as Error);
+      const apiError = toApiError(error);
       this.emit('modelChangeError', { error: apiError });
       throw apiError;
     }
@@ -560,143 +328,10 @@ ${sourceText}
       initialized: this.isInitialized,
       model: this.currentModel,
       baseUrl: this.baseUrl,
-      sourceTextSet: !!this.sourceText
+      sourceTextSet: !!this.sourceText,
+      conversationTokens: this.conversation.getTokenCount()
     };
   }
-
-  /**
-   * 캐시 통계 조회
-   */
-  getCacheStats() {
-    return cacheService.getStats();
-  }
-
-  /**
-   * 요청 큐 상태 조회
-   */
-  getQueueStatus() {
-    return queueHelpers.getStatus();
-  }
-
-  /**
-   * 캐시 초기화
-   */
-  clearCache(): void {
-    cacheService.clear();
-    this.emit('cacheCleared', {});
-  }
-
-  /**
-   * 요청 큐 초기화
-   */
-  clearQueue(): void {
-    queueHelpers.clear();
-    this.emit('queueCleared', {});
-  }
-
-  /**
-   * 요청 ID 생성
-   */
-  private generateRequestId(): string {
-    return `ollama_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  /**
-   * API 에러 생성
-   */
-  private createApiError(error: Error): ApiError {
-    const apiError = error as ApiError;
-    apiError.type = this.getErrorType(error);
-    apiError.retryable = this.isRetryableError(error);
-    return apiError;
-  }
-
-  /**
-   * 에러 타입 결정
-   */
-  private getErrorType(error: Error): ApiErrorType {
-    const message = error.message.toLowerCase();
-    
-    if (message.includes('rate limit') || message.includes('429')) {
-      return ApiErrorType.RATE_LIMIT_EXCEEDED;
-    } else if (message.includes('network') || message.includes('fetch')) {
-      return ApiErrorType.NETWORK_ERROR;
-    } else if (message.includes('timeout')) {
-      return ApiErrorType.TIMEOUT;
-    } else if (message.includes('400') || message.includes('invalid')) {
-      return ApiErrorType.INVALID_REQUEST;
-    } else if (message.includes('500') || message.includes('server')) {
-      return ApiErrorType.SERVER_ERROR;
-    } else {
-      return ApiErrorType.UNKNOWN;
-    }
-  }
-
-  /**
-   * 재시도 가능한 에러인지 확인
-   */
-  private isRetryableError(error: Error): boolean {
-    const message = error.message.toLowerCase();
-    return message.includes('network') || 
-           message.includes('timeout') || 
-           message.includes('500') ||
-           message.includes('server');
-  }
-
-  /**
-   * 에러에서 응답 상태 결정
-   */
-  private getResponseStatusFromError(error: ApiError): ApiResponseStatus {
-    switch (error.type) {
-      case ApiErrorType.RATE_LIMIT_EXCEEDED:
-        return ApiResponseStatus.RATE_LIMITED;
-      case ApiErrorType.NETWORK_ERROR:
-      case ApiErrorType.TIMEOUT:
-      case ApiErrorType.SERVER_ERROR:
-        return ApiResponseStatus.RETRYING;
-      default:
-        return ApiResponseStatus.ERROR;
-    }
-  }
-
-  /**
-   * 이벤트 리스너 등록
-   */
-  on(event: string, callback: EventCallback): void {
-    if (!this.eventCallbacks.has(event)) {
-      this.eventCallbacks.set(event, []);
-    }
-    this.eventCallbacks.get(event)!.push(callback);
-  }
-
-  /**
-   * 이벤트 리스너 제거
-   */
-  off(event: string, callback: EventCallback): void {
-    const callbacks = this.eventCallbacks.get(event);
-    if (callbacks) {
-      const index = callbacks.indexOf(callback);
-      if (index > -1) {
-        callbacks.splice(index, 1);
-      }
-    }
-  }
-
-  /**
-   * 이벤트 발생
-   */
-  private emit(event: string, data: any): void {
-    const callbacks = this.eventCallbacks.get(event);
-    if (callbacks) {
-      callbacks.forEach(callback => {
-        try {
-          callback(data);
-        } catch (error) {
-          console.error(`Error in event callback for ${event}:`, error);
-        }
-      });
-    }
-  }
 }
 
 /**
@@ -718,8 +353,8 @@ export const ollamaHelpers = {
   /**
    * 메시지 전송
    */
-  async sendMessage(message: string): Promise<ApiResponse<string>> {
-    return ollamaService.sendMessage(message);
+  async sendMessage(message: string, signal?: AbortSignal): Promise<ApiResponse<string>> {
+    return ollamaService.sendMessage(message, signal);
   },
 
   /**
@@ -727,9 +362,25 @@ export const ollamaHelpers = {
    */
   async sendMessageStream(
     message: string, 
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    options?: StreamMessageOptions
   ): Promise<ApiResponse<void>> {
-    return ollamaService.sendMessageStream(message, onChunk);
+    return ollamaService.sendMessageStream(message, onChunk, signal, options);
+  },
+
+  /**
+   * 대화 기록 초기화
+   */
+  resetConversation(): void {
+    ollamaService.resetConversation();
+  },
+
+  /**
+   * 대화 기록 복원
+   */
+  restoreConversation(turns: ConversationTurn[]): void {
+    ollamaService.restoreConversation(turns);
   },
 
   /**
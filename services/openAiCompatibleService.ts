@@ -0,0 +1,231 @@
+/**
+ * OpenAI 호환 API 통합 서비스
+ * /v1/chat/completions를 제공하는 서버(llama.cpp server, vLLM, LM Studio 등)를
+ * 캐시 시스템, 요청 큐와 함께 사용하는 서비스
+ */
+
+import { ChatCompletionRequest, ChatCompletionResult, ChatCompletionService } from './chatCompletionService.js';
+import { readLines } from './textStream.js';
+import { createHttpError, toApiError } from './errors.js';
+import { generationProfiles, toOpenAiParams } from './generationProfiles.js';
+import { getConfig } from '../config/apiConfig.js';
+import { LlmModelInfo, TokenUsage } from '../types/api.js';
+
+/**
+ * OpenAI 호환 API 통합 서비스 클래스
+ */
+export class OpenAiCompatibleService extends ChatCompletionService {
+  private baseUrl: string;
+  private apiKey: string;
+  private currentModel: string;
+
+  constructor() {
+    super('openai-compatible', 'openai');
+    const config = getConfig();
+    this.baseUrl = config.LLM.OPENAI_COMPAT_BASE_URL.replace(/\/+$/, '');
+    this.apiKey = process.env.OPENAI_COMPAT_API_KEY || '';
+    this.currentModel = config.LLM.OPENAI_COMPAT_DEFAULT_MODEL;
+  }
+
+  /**
+   * 요청 헤더 (API 키가 있으면 Bearer 인증 추가)
+   */
+  private createHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * 서버 연결 확인
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.createHeaders() });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * chat/completions API 호출
+   */
+  protected async requestChat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResult> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.createHeaders(),
+      body: JSON.stringify(this.createPayload(request, false)),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'OpenAI-compatible');
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string') {
+      throw new Error('Invalid response format from OpenAI-compatible API');
+    }
+    return { answer: content.trim(), usage: this.parseUsage(data.usage) };
+  }
+
+  /**
+   * chat/completions 스트림 호출 (Server-Sent Events)
+   * 마지막 조각의 토큰 사용량(usage)은 onUsage로 전달
+   */
+  protected async *requestChatStream(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): AsyncGenerator<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.createHeaders(),
+      body: JSON.stringify(this.createPayload(request, true)),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await createHttpError(response, 'OpenAI-compatible');
+    }
+
+    if (!response.body) {
+      throw new Error('No response body reader available');
+    }
+
+    for await (const line of readLines(response.body)) {
+      const data = this.parseStreamLine(line);
+      if (!data) continue;
+
+      const content = data.choices?.[0]?.delta?.content;
+      if (content) yield content;
+
+      const usage = this.parseUsage(data.usage);
+      if (usage) onUsage?.(usage);
+    }
+  }
+
+  /**
+   * 요청 본문 생성
+   */
+  private createPayload(request: ChatCompletionRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      // 스트림 마지막 조각에 토큰 사용량을 포함하도록 요청
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...toOpenAiParams(generationProfiles.getProfile(request.model))
+    };
+  }
+
+  /**
+   * SSE 한 줄의 데이터 파싱 (data: [DONE], 주석, 빈 줄은 null)
+   */
+  private parseStreamLine(line: string): any | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return null;
+
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') return null;
+
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      // JSON 파싱 실패는 무시
+      return null;
+    }
+  }
+
+  /**
+   * 응답의 usage를 토큰 사용량으로 변환 (서버가 보내지 않으면 undefined)
+   */
+  private parseUsage(usage: any): TokenUsage | undefined {
+    if (typeof usage?.completion_tokens !== 'number') return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens
+    };
+  }
+
+  /**
+   * 사용 가능한 모델 목록 조회 (/models)
+   */
+  async getAvailableModels(): Promise<LlmModelInfo[]> {
+    const response = await fetch(`${this.baseUrl}/models`, { headers: this.createHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch models: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((model: any) => ({
+      name: model.id,
+      size: 0,
+      description: `${model.id} - ${model.owned_by || 'OpenAI 호환'} 서버 모델`,
+      recommended: false
+    }));
+  }
+
+  /**
+   * 요청에 사용할 모델 결정 (설정이 없으면 서버의 첫 번째 모델)
+   */
+  protected async resolveModel(): Promise<string> {
+    if (!this.currentModel) {
+      const models = await this.getAvailableModels();
+      if (models.length === 0) {
+        throw new Error('No models available on OpenAI-compatible server');
+      }
+      this.currentModel = models[0].name;
+    }
+    return this.currentModel;
+  }
+
+  /**
+   * 현재 모델 설정
+   */
+  async setModel(modelName: string): Promise<void> {
+    try {
+      const models = await this.getAvailableModels();
+      if (!models.some(model => model.name === modelName)) {
+        throw new Error(`Model ${modelName} not available on ${this.baseUrl}`);
+      }
+
+      this.currentModel = modelName;
+      this.emit('modelChanged', { model: modelName });
+    } catch (error) {
+      const apiError = toApiError(error);
+      this.emit('modelChangeError', { error: apiError });
+      throw apiError;
+    }
+  }
+
+  /**
+   * 현재 모델 조회 (아직 정해지지 않았으면 null)
+   */
+  getCurrentModel(): string | null {
+    return this.currentModel || null;
+  }
+
+  /**
+   * 서비스 상태 조회
+   */
+  getServiceStatus() {
+    return {
+      model: this.currentModel || null,
+      baseUrl: this.baseUrl,
+      sourceTextSet: !!this.sourceText,
+      conversationTokens: this.conversation.getTokenCount()
+    };
+  }
+}
+
+/**
+ * 전역 OpenAI 호환 서비스 인스턴스
+ */
+export const openAiCompatibleService = new OpenAiCompatibleService();
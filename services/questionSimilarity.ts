@@ -0,0 +1,77 @@
+/**
+ * 질문 유사도
+ * 한국어 질문을 정규화하고 단어 벡터로 바꿔 표현이 다른 같은 질문을 찾음
+ */
+
+import { stripParticle, tokenizeKorean } from './bm25Index.js';
+import { TermVector } from '../types/api.js';
+
+const HANGUL = /[가-힣]/;
+
+/**
+ * 질문 정규화
+ * 문장부호를 없애고 띄어쓰기를 한 칸으로 맞춘 뒤 어절 끝 조사를 제거
+ */
+export const normalizeQuestion = (question: string): string => {
+  const words = question.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map(word => (HANGUL.test(word) ? stripParticle(word) : word)).join(' ');
+};
+
+/**
+ * 질문 벡터 생성
+ * 조사를 뗀 어간과 음절 바이그램의 빈도를 사용해 띄어쓰기·복합어 차이를 흡수
+ */
+export const createQuestionVector = (question: string): TermVector => {
+  const vector: TermVector = {};
+  for (const term of tokenizeKorean(question)) {
+    vector[term] = (vector[term] || 0) + 1;
+  }
+  return vector;
+};
+
+/**
+ * 두 벡터의 코사인 유사도 (0~1)
+ */
+export const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const [term, weight] of Object.entries(a)) {
+    normA += weight * weight;
+    if (b[term]) {
+      dot += weight * b[term];
+    }
+  }
+  for (const weight of Object.values(b)) {
+    normB += weight * weight;
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * 부정 표현 (아닌·않는·없는·못 하는·~말고·제외 등)
+ */
+const NEGATION_PATTERN = /아니|아닌|아냐|않|없|못|말고|빼고|제외|불가/;
+
+/**
+ * 질문의 부정 여부와 숫자 목록
+ */
+const extractQuestionFacts = (question: string) => {
+  const words = question.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return {
+    negated: words.some(word => word === '안' || NEGATION_PATTERN.test(word)),
+    numbers: (question.match(/\d+(?:[.,]\d+)*/g) || []).map(number => number.replace(/,/g, '')).sort().join(' ')
+  };
+};
+
+/**
+ * 유사 질문의 답변을 재사용할 수 있는지 확인
+ * 단어가 거의 같아도 부정 여부나 숫자가 다르면 반대 또는 다른 질문이므로 제외
+ */
+export const isCompatibleQuestion = (a: string, b: string): boolean => {
+  const factsA = extractQuestionFacts(a);
+  const factsB = extractQuestionFacts(b);
+  return factsA.negated === factsB.negated && factsA.numbers === factsB.numbers;
+};
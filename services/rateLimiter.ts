@@ -0,0 +1,249 @@
+/**
+ * 요청 속도 제한 서비스
+ * 슬라이딩 윈도우와 토큰 버킷을 결합해 API 한도 초과를 사전에 방지
+ */
+
+import {
+  RateLimitConfig,
+  RateLimitStatus,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  EventCallback
+} from '../types/api.js';
+import { getConfig, ApiConfig } from '../config/apiConfig.js';
+
+/**
+ * Rate Limiter 클래스
+ * - 슬라이딩 윈도우: timeWindow 동안 requestsPerMinute 이하로 제한
+ * - 토큰 버킷: minInterval마다 토큰 1개 충전, 버스트 허용 시 maxBurstSize까지 누적
+ */
+export class RateLimiter {
+  private requestTimestamps: number[] = [];
+  private tokens: number;
+  private lastRefillAt: number;
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(private config: RateLimitConfig = DEFAULT_RATE_LIMIT_CONFIG) {
+    this.tokens = this.getBucketCapacity();
+    this.lastRefillAt = Date.now();
+  }
+
+  /**
+   * 즉시 요청 가능하면 슬롯을 사용하고 true 반환
+   */
+  tryAcquire(): boolean {
+    if (this.getWaitTime() > 0) {
+      this.emit('rateLimited', this.getStatus());
+      return false;
+    }
+
+    this.recordRequest();
+    return true;
+  }
+
+  /**
+   * 요청 가능해질 때까지 대기한 뒤 슬롯 사용
+   */
+  async acquire(): Promise<void> {
+    while (!this.tryAcquire()) {
+      await this.sleep(this.getWaitTime());
+    }
+  }
+
+  /**
+   * 다음 요청까지 기다려야 하는 시간 (밀리초)
+   */
+  getWaitTime(): number {
+    const now = Date.now();
+    this.pruneTimestamps(now);
+    this.refillTokens(now);
+
+    let windowWait = 0;
+    if (this.requestTimestamps.length >= this.config.requestsPerMinute) {
+      // 윈도우에서 가장 오래된 요청이 빠져나가는 시점까지 대기
+      const oldest = this.requestTimestamps[this.requestTimestamps.length - this.config.requestsPerMinute];
+      windowWait = oldest + this.config.timeWindow - now;
+    }
+
+    let tokenWait = 0;
+    if (this.tokens < 1) {
+      tokenWait = this.lastRefillAt + this.config.minInterval - now;
+    }
+
+    return Math.max(0, windowWait, tokenWait);
+  }
+
+  /**
+   * 현재 Rate Limit 상태 조회
+   */
+  getStatus(): RateLimitStatus {
+    const waitTime = this.getWaitTime();
+    const now = Date.now();
+    const currentRequests = this.requestTimestamps.length;
+
+    return {
+      currentRequests,
+      remainingRequests: Math.max(0, this.config.requestsPerMinute - currentRequests),
+      resetTime: currentRequests > 0 ? this.requestTimestamps[0] + this.config.timeWindow : now,
+      isLimited: waitTime > 0,
+      waitTime
+    };
+  }
+
+  /**
+   * 설정 업데이트
+   */
+  updateConfig(config: Partial<RateLimitConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.tokens = Math.min(this.tokens, this.getBucketCapacity());
+    this.emit('configUpdated', { config: this.config });
+  }
+
+  /**
+   * 요청 기록 초기화
+   */
+  reset(): void {
+    this.requestTimestamps = [];
+    this.tokens = this.getBucketCapacity();
+    this.lastRefillAt = Date.now();
+    this.emit('rateLimitReset', {});
+  }
+
+  /**
+   * 요청 기록 및 토큰 소모
+   */
+  private recordRequest(): void {
+    const now = Date.now();
+    this.requestTimestamps.push(now);
+    this.tokens -= 1;
+    this.emit('requestAllowed', this.getStatus());
+  }
+
+  /**
+   * 윈도우를 벗어난 요청 기록 제거
+   */
+  private pruneTimestamps(now: number): void {
+    const windowStart = now - this.config.timeWindow;
+    while (this.requestTimestamps.length > 0 && this.requestTimestamps[0] <= windowStart) {
+      this.requestTimestamps.shift();
+    }
+  }
+
+  /**
+   * 경과 시간만큼 토큰 충전
+   * minInterval이 0 이하이면 간격 제한 없이 항상 가득 채움
+   */
+  private refillTokens(now: number): void {
+    const capacity = this.getBucketCapacity();
+    if (this.tokens >= capacity || !(this.config.minInterval > 0)) {
+      this.tokens = capacity;
+      this.lastRefillAt = now;
+      return;
+    }
+
+    const refillCount = Math.floor((now - this.lastRefillAt) / this.config.minInterval);
+    if (refillCount > 0) {
+      this.tokens = Math.min(capacity, this.tokens + refillCount);
+      this.lastRefillAt += refillCount * this.config.minInterval;
+    }
+  }
+
+  /**
+   * 토큰 버킷 용량 (버스트 미허용 시 1)
+   */
+  private getBucketCapacity(): number {
+    return this.config.allowBurst ? Math.max(1, this.config.maxBurstSize) : 1;
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in rate limiter event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+
+  /**
+   * 대기 함수
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * API_CONFIG의 RATE_LIMIT 값을 RateLimitConfig로 변환
+ */
+export const createRateLimitConfig = (config: ApiConfig = getConfig()): RateLimitConfig => ({
+  ...DEFAULT_RATE_LIMIT_CONFIG,
+  requestsPerMinute: config.RATE_LIMIT.REQUESTS_PER_MINUTE,
+  minInterval: config.RATE_LIMIT.MIN_INTERVAL_MS
+});
+
+/**
+ * 전역 Rate Limiter 인스턴스
+ */
+export const rateLimiter = new RateLimiter(createRateLimitConfig());
+
+/**
+ * Rate Limiter 헬퍼 함수들
+ */
+export const rateLimiterHelpers = {
+  /**
+   * 상태 조회
+   */
+  getStatus(): RateLimitStatus {
+    return rateLimiter.getStatus();
+  },
+
+  /**
+   * 요청 가능해질 때까지 대기
+   */
+  async acquire(): Promise<void> {
+    return rateLimiter.acquire();
+  },
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    rateLimiter.on(event, callback);
+  },
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    rateLimiter.off(event, callback);
+  }
+};
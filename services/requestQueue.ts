@@ -13,6 +13,20 @@ import {
   DEFAULT_RETRY_POLICY,
   EventCallback
 } from '../types/api.js';
+import { RateLimiter, rateLimiter } from './rateLimiter.js';
+import { CooldownManager, cooldownManager } from './cooldownManager.js';
+import { createAbortError, createTimeoutError, toApiError } from './errors.js';
+
+/**
+ * 요청 완료를 기다리는 호출자 콜백
+ */
+interface PendingCallbacks {
+  resolve: (value: any) => void;
+  reject: (reason: Error) => void;
+  timeoutId?: ReturnType<typeof setTimeout>;
+  /** 호출자 AbortSignal 리스너 해제 */
+  detachSignal?: () => void;
+}
 
 /**
  * 요청 대기열 클래스
@@ -23,16 +37,23 @@ export class RequestQueue {
   private processing: Set<string> = new Set();
   private isProcessing = false;
   private eventCallbacks: Map<string, EventCallback[]> = new Map();
+  private pendingCallbacks: Map<string, PendingCallbacks> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private throttleTimer?: ReturnType<typeof setTimeout>;
+  private throttleUntil = 0;
   private stats = {
     totalProcessed: 0,
     totalFailed: 0,
+    totalCancelled: 0,
     totalRetries: 0,
     averageProcessingTime: 0
   };
 
   constructor(
     private maxConcurrentRequests = 1,
-    private defaultRetryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+    private defaultRetryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    private rateLimiter?: RateLimiter,
+    private cooldown?: CooldownManager
   ) {
     this.startProcessing();
   }
@@ -42,11 +63,15 @@ export class RequestQueue {
    */
   async addRequest<T = any, R = any>(
     request: T,
-    handler: (req: T) => Promise<R>,
+    handler: (req: T, signal: AbortSignal) => Promise<R>,
     options: {
       priority?: number;
       retryPolicy?: Partial<RetryPolicy>;
       timeout?: number;
+      /** 호출자가 요청을 중단할 때 사용하는 신호 */
+      signal?: AbortSignal;
+      /** 요청을 보내는 백엔드 (한도 초과 대기를 백엔드별로 적용) */
+      backend?: string;
     } = {}
   ): Promise<R> {
     const id = this.generateId();
@@ -60,86 +85,112 @@ export class RequestQueue {
       retryCount: 0,
       retryPolicy,
       priority: options.priority || 0,
-      result: undefined
+      backend: options.backend,
+      result: undefined,
+      handler
     };
 
-    this.queue.push(queueItem);
-    this.sortQueueByPriority();
-    
-    this.emit('requestAdded', { id, request });
-    
-    return this.waitForCompletion(id, handler, options.timeout);
-  }
+    return new Promise<R>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(createAbortError(`Request ${id} was cancelled`));
+        return;
+      }
 
-  /**
-   * 요청 완료까지 대기
-   */
-  private async waitForCompletion<T, R>(
-    id: string,
-    handler: (req: T) => Promise<R>,
-    timeout?: number
-  ): Promise<R> {
-    return new Promise((resolve, reject) => {
-      const timeoutId = timeout ? setTimeout(() => {
-        this.cancelRequest(id);
-        reject(new Error(`Request ${id} timed out after ${timeout}ms`));
-      }, timeout) : null;
-
-      const checkCompletion = () => {
-        const item = this.queue.find(q => q.id === id);
-        if (!item) {
-          if (timeoutId) clearTimeout(timeoutId);
-          reject(new Error(`Request ${id} not found`));
-          return;
-        }
+      const timeoutId = options.timeout ? setTimeout(() => {
+        this.cancelItem(queueItem, createTimeoutError(`Request ${id} timed out after ${options.timeout}ms`));
+      }, options.timeout) : undefined;
 
-        if (item.status === RequestStatus.COMPLETED) {
-          if (timeoutId) clearTimeout(timeoutId);
-          resolve(item.result);
-        } else if (item.status === RequestStatus.FAILED) {
-          if (timeoutId) clearTimeout(timeoutId);
-          reject(item.error || new Error('Request failed'));
-        } else if (item.status === RequestStatus.CANCELLED) {
-          if (timeoutId) clearTimeout(timeoutId);
-          reject(new Error(`Request ${id} was cancelled`));
-        } else {
-          // 아직 처리 중이면 잠시 후 다시 확인
-          setTimeout(checkCompletion, 100);
-        }
-      };
+      let detachSignal: (() => void) | undefined;
+      if (options.signal) {
+        const signal = options.signal;
+        const onAbort = () => this.cancelItem(queueItem, createAbortError(`Request ${id} was cancelled`));
+        signal.addEventListener('abort', onAbort, { once: true });
+        detachSignal = () => signal.removeEventListener('abort', onAbort);
+      }
 
-      checkCompletion();
+      this.pendingCallbacks.set(id, { resolve, reject, timeoutId, detachSignal });
+      this.queue.push(queueItem);
+      this.sortQueueByPriority();
+      
+      this.emit('requestAdded', { id, request });
+      this.processQueue();
     });
   }
 
   /**
    * 요청 처리 시작
    */
-  private async startProcessing(): Promise<void> {
+  private startProcessing(): void {
     if (this.isProcessing) return;
     
     this.isProcessing = true;
-    
-    while (this.isProcessing) {
-      const availableSlots = this.maxConcurrentRequests - this.processing.size;
-      
-      if (availableSlots > 0) {
-        const nextItem = this.getNextPendingItem();
-        if (nextItem) {
-          this.processRequest(nextItem);
+    this.processQueue();
+  }
+
+  /**
+   * 동시 처리 한도 내에서 대기 중인 요청 실행
+   */
+  private processQueue(): void {
+    if (!this.isProcessing) return;
+
+    while (this.processing.size < this.maxConcurrentRequests) {
+      const nextItem = this.getNextPendingItem();
+      if (!nextItem) {
+        // 대기 중인 백엔드의 요청만 남았으면 가장 먼저 끝나는 대기 후 다시 처리
+        const cooldownRemaining = this.getMinCooldownRemaining();
+        if (cooldownRemaining > 0) {
+          this.scheduleProcessing(cooldownRemaining);
         }
+        break;
       }
-      
-      // CPU 사용량을 줄이기 위해 잠시 대기
-      await this.sleep(100);
+
+      // Rate Limit에 걸리면 허용 시점에 다시 처리
+      if (this.rateLimiter && !this.rateLimiter.tryAcquire()) {
+        this.scheduleProcessing(this.rateLimiter.getWaitTime());
+        break;
+      }
+
+      this.processRequest(nextItem);
     }
   }
 
+  /**
+   * 지정한 시간 후 큐 처리 재개 예약 (이미 더 일찍 재개하도록 예약되어 있으면 유지)
+   */
+  private scheduleProcessing(delay: number): void {
+    const until = Date.now() + delay;
+    if (this.throttleTimer) {
+      if (this.throttleUntil <= until) return;
+      clearTimeout(this.throttleTimer);
+    }
+
+    this.emit('requestThrottled', { waitTime: delay });
+    this.throttleUntil = until;
+    this.throttleTimer = setTimeout(() => {
+      this.throttleTimer = undefined;
+      this.processQueue();
+    }, delay);
+  }
+
   /**
    * 다음 처리할 요청 가져오기
+   * 서버가 알려준 한도 초기화 시점까지는 해당 백엔드의 요청을 보내지 않음
    */
   private getNextPendingItem(): QueueItem | undefined {
-    return this.queue.find(item => item.status === RequestStatus.PENDING);
+    return this.queue.find(item =>
+      item.status === RequestStatus.PENDING && !(this.cooldown?.isActive(item.backend))
+    );
+  }
+
+  /**
+   * 대기 중인 요청의 백엔드 중 가장 먼저 끝나는 대기의 남은 시간 (밀리초)
+   */
+  private getMinCooldownRemaining(): number {
+    const remaining = this.queue
+      .filter(item => item.status === RequestStatus.PENDING)
+      .map(item => this.cooldown?.getRemaining(item.backend) ?? 0)
+      .filter(time => time > 0);
+    return remaining.length > 0 ? Math.min(...remaining) : 0;
   }
 
   /**
@@ -155,28 +206,65 @@ export class RequestQueue {
     this.emit('requestStarted', { id: item.id, request: item.request });
     
     try {
-      // 실제 요청 처리 (여기서는 핸들러를 직접 호출하지 않고 상태만 관리)
-      // 실제 구현에서는 handler를 호출해야 함
+      if (!item.handler) {
+        throw new Error(`Request ${item.id} has no handler`);
+      }
+
+      const controller = new AbortController();
+      this.abortControllers.set(item.id, controller);
+
+      const result = await item.handler(item.request, controller.signal);
+
+      // 처리 도중 취소되었거나 시간 초과된 요청은 결과를 버림
+      if (item.status !== RequestStatus.PROCESSING) return;
+
+      item.result = result;
       item.status = RequestStatus.COMPLETED;
       item.completedAt = Date.now();
       
       this.updateStats(item);
       this.emit('requestCompleted', { id: item.id, result: item.result });
+      this.settle(item.id, callbacks => callbacks.resolve(result));
       
     } catch (error) {
-      await this.handleRequestError(item, error as Error);
+      if (item.status === RequestStatus.PROCESSING) {
+        await this.handleRequestError(item, error as Error);
+      }
     } finally {
+      this.abortControllers.delete(item.id);
       this.processing.delete(item.id);
+      this.processQueue();
     }
   }
 
+  /**
+   * 호출자의 Promise를 한 번만 완료시키고 타이머 정리
+   * 끝난 요청은 큐에서 제거 (완료·실패·취소 건수는 stats에 누적)
+   */
+  private settle(id: string, complete: (callbacks: PendingCallbacks) => void): void {
+    this.queue = this.queue.filter(item => item.id !== id);
+
+    const callbacks = this.pendingCallbacks.get(id);
+    if (!callbacks) return;
+
+    this.pendingCallbacks.delete(id);
+    if (callbacks.timeoutId) clearTimeout(callbacks.timeoutId);
+    callbacks.detachSignal?.();
+    complete(callbacks);
+  }
+
   /**
    * 요청 에러 처리
    */
   private async handleRequestError(item: QueueItem, error: Error): Promise<void> {
-    const apiError = this.createApiError(error);
+    const apiError = toApiError(error);
     item.error = apiError;
     
+    // 한도 초과는 이 요청만이 아니라 같은 백엔드 요청 전체의 대기로 기록
+    if (apiError.type === ApiErrorType.RATE_LIMIT_EXCEEDED && apiError.retryAfter) {
+      this.cooldown?.start(apiError.retryAfter, { reason: apiError.type, backend: item.backend });
+    }
+    
     if (item.retryCount < item.retryPolicy.maxRetries && apiError.retryable) {
       // 재시도 가능한 에러
       item.status = RequestStatus.RETRYING;
@@ -186,8 +274,11 @@ export class RequestQueue {
       this.emit('requestRetrying', { id: item.id, retryCount: item.retryCount, delay });
       
       setTimeout(() => {
+        // 대기 중 취소된 요청은 다시 큐에 넣지 않음
+        if (item.status !== RequestStatus.RETRYING) return;
         item.status = RequestStatus.PENDING;
         this.sortQueueByPriority();
+        this.processQueue();
       }, delay);
       
     } else {
@@ -197,6 +288,7 @@ export class RequestQueue {
       
       this.updateStats(item);
       this.emit('requestFailed', { id: item.id, error: apiError });
+      this.settle(item.id, callbacks => callbacks.reject(apiError));
     }
   }
 
@@ -213,33 +305,14 @@ export class RequestQueue {
         retryPolicy.maxRetryDelay
       );
     }
-    
-    return delay;
-  }
 
-  /**
-   * API 에러 생성
-   */
-  private createApiError(error: Error): ApiError {
-    const apiError = error as ApiError;
-    
-    // 에러 타입 분류
-    if (error.message.includes('429') || error.message.includes('rate limit')) {
-      apiError.type = ApiErrorType.RATE_LIMIT_EXCEEDED;
-      apiError.retryable = true;
-      apiError.retryAfter = 5000; // 5초 후 재시도
-    } else if (error.message.includes('network') || error.message.includes('fetch')) {
-      apiError.type = ApiErrorType.NETWORK_ERROR;
-      apiError.retryable = true;
-    } else if (error.message.includes('timeout')) {
-      apiError.type = ApiErrorType.TIMEOUT;
-      apiError.retryable = true;
-    } else {
-      apiError.type = ApiErrorType.UNKNOWN;
-      apiError.retryable = false;
+    // 서버가 재시도 시점을 알려준 경우 그보다 먼저 재시도하지 않음
+    const retryAfter = (item.error as ApiError | undefined)?.retryAfter;
+    if (retryAfter) {
+      delay = Math.max(delay, retryAfter);
     }
     
-    return apiError;
+    return delay;
   }
 
   /**
@@ -281,14 +354,38 @@ export class RequestQueue {
    */
   cancelRequest(id: string): boolean {
     const item = this.queue.find(q => q.id === id);
-    if (!item || item.status === RequestStatus.COMPLETED) {
+    if (!item) {
+      return false;
+    }
+    
+    return this.cancelItem(item, createAbortError(`Request ${id} was cancelled`));
+  }
+
+  /**
+   * 아직 끝나지 않은 요청을 취소 상태로 전환하고 호출자에게 에러 전달
+   */
+  private cancelItem(item: QueueItem, reason: Error): boolean {
+    if (
+      item.status === RequestStatus.COMPLETED ||
+      item.status === RequestStatus.FAILED ||
+      item.status === RequestStatus.CANCELLED
+    ) {
       return false;
     }
     
     item.status = RequestStatus.CANCELLED;
     item.completedAt = Date.now();
+    item.error = reason;
+    
+    // 처리 중인 핸들러의 네트워크 요청을 실제로 중단하고 슬롯을 반환
+    this.abortControllers.get(item.id)?.abort(reason);
+    this.abortControllers.delete(item.id);
+    this.processing.delete(item.id);
+    this.stats.totalCancelled++;
     
-    this.emit('requestCancelled', { id });
+    this.emit('requestCancelled', { id: item.id });
+    this.settle(item.id, callbacks => callbacks.reject(reason));
+    this.processQueue();
     return true;
   }
 
@@ -296,19 +393,24 @@ export class RequestQueue {
    * 큐 상태 가져오기
    */
   getStatus(): RequestQueueStatus {
-    const now = Date.now();
-    const completedItems = this.queue.filter(item => 
-      item.status === RequestStatus.COMPLETED && 
-      item.completedAt && 
-      item.startedAt
-    );
+    const countsByStatus = Object.fromEntries(
+      Object.values(RequestStatus).map(status => [status, 0])
+    ) as Record<RequestStatus, number>;
+    this.queue.forEach(item => countsByStatus[item.status]++);
+
+    // 끝난 요청은 큐에서 제거되므로 누적 통계로 표시
+    countsByStatus[RequestStatus.COMPLETED] = this.stats.totalProcessed - this.stats.totalFailed;
+    countsByStatus[RequestStatus.FAILED] = this.stats.totalFailed;
+    countsByStatus[RequestStatus.CANCELLED] = this.stats.totalCancelled;
     
     return {
       totalLength: this.queue.length,
       pendingCount: this.queue.filter(item => item.status === RequestStatus.PENDING).length,
       processingCount: this.processing.size,
-      failedCount: this.queue.filter(item => item.status === RequestStatus.FAILED).length,
+      failedCount: this.stats.totalFailed,
       retryingCount: this.queue.filter(item => item.status === RequestStatus.RETRYING).length,
+      countsByStatus,
+      totalRetries: this.stats.totalRetries,
       averageProcessingTime: this.stats.averageProcessingTime
     };
   }
@@ -317,11 +419,24 @@ export class RequestQueue {
    * 큐 초기화
    */
   clear(): void {
+    this.queue.forEach(item => {
+      if (item.status !== RequestStatus.COMPLETED && item.status !== RequestStatus.FAILED) {
+        item.status = RequestStatus.CANCELLED;
+      }
+    });
+    this.abortControllers.forEach((controller, id) => {
+      controller.abort(createAbortError(`Request ${id} was cleared from the queue`));
+    });
+    this.abortControllers.clear();
+    this.pendingCallbacks.forEach((callbacks, id) => {
+      this.settle(id, pending => pending.reject(createAbortError(`Request ${id} was cleared from the queue`)));
+    });
     this.queue = [];
     this.processing.clear();
     this.stats = {
       totalProcessed: 0,
       totalFailed: 0,
+      totalCancelled: 0,
       totalRetries: 0,
       averageProcessingTime: 0
     };
@@ -375,34 +490,29 @@ export class RequestQueue {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  /**
-   * 대기 함수
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * 처리 중지
    */
   stop(): void {
     this.isProcessing = false;
+    if (this.throttleTimer) {
+      clearTimeout(this.throttleTimer);
+      this.throttleTimer = undefined;
+    }
   }
 
   /**
    * 처리 재시작
    */
   start(): void {
-    if (!this.isProcessing) {
-      this.startProcessing();
-    }
+    this.startProcessing();
   }
 }
 
 /**
  * 전역 요청 큐 인스턴스
  */
-export const requestQueue = new RequestQueue();
+export const requestQueue = new RequestQueue(1, DEFAULT_RETRY_POLICY, rateLimiter, cooldownManager);
 
 /**
  * 요청 큐 헬퍼 함수들
@@ -411,7 +521,7 @@ export const queueHelpers = {
   /**
    * 요청 추가 (간편 버전)
    */
-  async add<T, R>(request: T, handler: (req: T) => Promise<R>): Promise<R> {
+  async add<T, R>(request: T, handler: (req: T, signal: AbortSignal) => Promise<R>): Promise<R> {
     return requestQueue.addRequest(request, handler);
   },
 
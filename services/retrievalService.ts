@@ -0,0 +1,210 @@
+/**
+ * 검색 증강(RAG) 서비스
+ * 소스 문서를 청크로 색인하고 질문마다 관련 청크만 골라 프롬프트를 구성
+ */
+
+import { DocumentChunker } from './documentChunker.js';
+import { Bm25Index, tokenizeKorean } from './bm25Index.js';
+import {
+  Citation,
+  DocumentChunk,
+  RetrievedChunk,
+  RetrievalConfig,
+  DEFAULT_RETRIEVAL_CONFIG,
+  EventCallback
+} from '../types/api.js';
+
+/**
+ * 인용 구절 최대 길이 (문자)
+ */
+const MAX_SNIPPET_LENGTH = 160;
+
+/**
+ * 답변에 발췌 번호가 없을 때 출처로 제시할 상위 청크 수
+ */
+const FALLBACK_CITATION_COUNT = 3;
+
+/**
+ * 검색 서비스 클래스
+ */
+export class RetrievalService {
+  private chunks: Map<string, DocumentChunk> = new Map();
+  private index: Bm25Index;
+  private chunker: DocumentChunker;
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(private config: RetrievalConfig = DEFAULT_RETRIEVAL_CONFIG) {
+    this.index = new Bm25Index(config.k1, config.b);
+    this.chunker = new DocumentChunker(config);
+  }
+
+  /**
+   * 소스 텍스트로 인덱스 생성 (기존 인덱스는 교체)
+   */
+  buildIndex(sourceText: string): number {
+    const startTime = Date.now();
+
+    this.chunks.clear();
+    this.index.clear();
+
+    for (const chunk of this.chunker.chunk(sourceText)) {
+      this.chunks.set(chunk.id, chunk);
+      this.index.add(chunk.id, chunk.content);
+    }
+
+    this.emit('indexBuilt', { chunkCount: this.chunks.size, buildTime: Date.now() - startTime });
+    return this.chunks.size;
+  }
+
+  /**
+   * 질문과 관련된 청크 검색
+   */
+  retrieve(query: string, topK: number = this.config.topK): RetrievedChunk[] {
+    return this.index.search(query, topK).map(({ id, score }) => ({
+      chunk: this.chunks.get(id)!,
+      score
+    }));
+  }
+
+  /**
+   * 검색된 청크로 질문 프롬프트 구성
+   */
+  buildPrompt(question: string, results: RetrievedChunk[]): string {
+    if (results.length === 0) {
+      return `관련된 참고 자료를 찾지 못했습니다.
+
+질문: ${question}`;
+    }
+
+    const excerpts = results
+      .map((result, index) => `[${index + 1}] ${this.describeChunk(result.chunk)}\n${result.chunk.content}`)
+      .join('\n\n');
+
+    return `다음은 질문과 관련된 참고 자료 발췌입니다. 답변에 사용한 발췌 번호를 [1]처럼 표시하세요.
+---START OF SOURCE---
+${excerpts}
+---END OF SOURCE---
+
+질문: ${question}`;
+  }
+
+  /**
+   * 끊긴 답변을 이어서 작성하도록 요청하는 프롬프트 (이미 받은 답변 뒤에 보냄)
+   */
+  buildContinuePrompt(): string {
+    return '답변이 중간에 끊겼습니다. 이미 작성한 부분은 반복하지 말고 끊긴 지점부터 바로 이어서 작성해 주세요.';
+  }
+
+  /**
+   * 답변의 [n] 표시를 검색 결과와 대조해 출처 목록 생성
+   * 표시가 없으면 상위 검색 결과를 출처로 사용
+   */
+  createCitations(answer: string, results: RetrievedChunk[], question: string): Citation[] {
+    const citedIndexes = Array.from(answer.matchAll(/\[(\d+)\]/g))
+      .map(match => Number(match[1]) - 1)
+      .filter(index => index >= 0 && index < results.length);
+
+    const cited = citedIndexes.length > 0
+      ? citedIndexes.map(index => results[index])
+      : results.slice(0, FALLBACK_CITATION_COUNT);
+
+    const citations: Citation[] = [];
+    const seen = new Set<string>();
+
+    for (const { chunk } of cited) {
+      const key = `${chunk.documentName}#${chunk.pageNumber}`;
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      citations.push({
+        documentName: chunk.documentName,
+        pageNumber: chunk.pageNumber,
+        snippet: this.extractSnippet(chunk.content, question)
+      });
+    }
+
+    return citations;
+  }
+
+  /**
+   * 청크에서 질문과 가장 많이 겹치는 문장을 인용 구절로 선택
+   */
+  private extractSnippet(content: string, question: string): string {
+    const queryTerms = new Set(tokenizeKorean(question));
+    const sentences = content.split(/(?<=[.?!])\s+/);
+
+    let best = sentences[0] || content;
+    let bestScore = -1;
+
+    for (const sentence of sentences) {
+      const score = tokenizeKorean(sentence).filter(term => queryTerms.has(term)).length;
+      if (score > bestScore) {
+        best = sentence;
+        bestScore = score;
+      }
+    }
+
+    return best.length > MAX_SNIPPET_LENGTH ? `${best.slice(0, MAX_SNIPPET_LENGTH)}…` : best;
+  }
+
+  /**
+   * 청크 위치 설명 (문서 파일명, 페이지)
+   */
+  private describeChunk(chunk: DocumentChunk): string {
+    const page = chunk.pageNumber > 0 ? `, ${chunk.pageNumber}페이지` : '';
+    return `(${chunk.documentName}${page})`;
+  }
+
+  /**
+   * 인덱스 존재 여부
+   */
+  hasIndex(): boolean {
+    return this.chunks.size > 0;
+  }
+
+  /**
+   * 색인된 청크 수
+   */
+  getChunkCount(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in retrieval event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
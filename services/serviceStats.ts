@@ -0,0 +1,295 @@
+/**
+ * 서비스 통계 수집기
+ * CacheService, RequestQueue, LLM 서비스 팩토리의 이벤트를 구독해 응답 시간, 재시도, 토큰 생성 속도를
+ * 최근 1시간 동안 집계하고 통계 패널에 스냅샷으로 전달
+ * 응답은 자동 전환으로 다른 백엔드가 답한 경우도 포함해 응답한 백엔드별로 기록
+ */
+
+import { CacheService, cacheService } from './cacheService.js';
+import { RequestQueue, requestQueue } from './requestQueue.js';
+import { LlmServiceFactory, llmServiceFactory } from './llmServiceFactory.js';
+import {
+  ApiResponse,
+  ApiResponseStatus,
+  EventCallback,
+  LatencyStats,
+  ServiceStatsConfig,
+  ServiceStatsSnapshot,
+  StatsTimelineBucket,
+  TokenUsage,
+  DEFAULT_SERVICE_STATS_CONFIG
+} from '../types/api.js';
+
+/**
+ * 스냅샷을 다시 만들어야 하는 캐시·큐 이벤트
+ */
+const CACHE_EVENTS = ['cacheHit', 'cacheMiss', 'cacheSet', 'cacheRemoved', 'cacheEvicted', 'cacheCleared', 'cacheLoaded'];
+const QUEUE_EVENTS = ['requestAdded', 'requestStarted', 'requestCompleted', 'requestFailed', 'requestCancelled', 'queueCleared'];
+
+/**
+ * 응답 하나의 기록
+ */
+interface ResponseSample {
+  timestamp: number;
+  outcome: 'response' | 'cached' | 'error';
+  /** 응답한 백엔드 (프로바이더 ID) */
+  backend?: string;
+  /** 응답 시간 (밀리초) */
+  latency?: number;
+  usage?: TokenUsage;
+}
+
+/**
+ * 서비스 통계 수집기 클래스
+ */
+export class ServiceStatsCollector {
+  private samples: ResponseSample[] = [];
+  private retryTimestamps: number[] = [];
+  private listening = false;
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  private readonly handleUpdate = () => this.emit('statsUpdated', {});
+  private readonly handleRetry = () => this.recordRetry();
+  private readonly handleResponse = (response: ApiResponse<unknown>) => this.recordResponse(response);
+
+  constructor(
+    private cache: CacheService = cacheService,
+    private queue: RequestQueue = requestQueue,
+    private factory: LlmServiceFactory = llmServiceFactory,
+    private config: ServiceStatsConfig = DEFAULT_SERVICE_STATS_CONFIG
+  ) {}
+
+  /**
+   * 이벤트 구독 시작
+   */
+  start(): void {
+    if (this.listening) return;
+    this.listening = true;
+
+    CACHE_EVENTS.forEach(event => this.cache.on(event, this.handleUpdate));
+    QUEUE_EVENTS.forEach(event => this.queue.on(event, this.handleUpdate));
+    this.queue.on('requestRetrying', this.handleRetry);
+    this.factory.on('serviceChanged', this.handleUpdate);
+    this.factory.on('backendResponse', this.handleResponse);
+    this.emit('statsUpdated', {});
+  }
+
+  /**
+   * 이벤트 구독 중지
+   */
+  stop(): void {
+    if (!this.listening) return;
+    this.listening = false;
+
+    CACHE_EVENTS.forEach(event => this.cache.off(event, this.handleUpdate));
+    QUEUE_EVENTS.forEach(event => this.queue.off(event, this.handleUpdate));
+    this.queue.off('requestRetrying', this.handleRetry);
+    this.factory.off('serviceChanged', this.handleUpdate);
+    this.factory.off('backendResponse', this.handleResponse);
+  }
+
+  /**
+   * 현재 통계 스냅샷 생성
+   */
+  getSnapshot(): ServiceStatsSnapshot {
+    const now = Date.now();
+    this.prune(now);
+
+    const responses = this.samples.filter(sample => sample.outcome === 'response');
+
+    return {
+      backend: this.factory.getCurrentServiceType(),
+      cache: this.cache.getStats(),
+      queue: this.queue.getStatus(),
+      latency: calculateLatencyStats(responses.map(sample => sample.latency ?? 0)),
+      retries: this.retryTimestamps.length,
+      tokensPerSecond: calculateTokensPerSecond(responses),
+      responsesByBackend: countByBackend(responses),
+      timeline: this.buildTimeline(now),
+      updatedAt: now
+    };
+  }
+
+  /**
+   * 집계한 기록 초기화
+   */
+  reset(): void {
+    this.samples = [];
+    this.retryTimestamps = [];
+    this.emit('statsUpdated', {});
+  }
+
+  /**
+   * 백엔드 응답 기록 (중지된 요청은 집계하지 않음)
+   */
+  private recordResponse(response: ApiResponse<unknown>): void {
+    if (response.status === ApiResponseStatus.CANCELLED) return;
+
+    const outcome: ResponseSample['outcome'] =
+      response.status === ApiResponseStatus.SUCCESS ? 'response' :
+      response.status === ApiResponseStatus.CACHED ? 'cached' :
+      'error';
+
+    this.samples.push({
+      timestamp: Date.now(),
+      outcome,
+      backend: response.backend,
+      latency: response.responseTime,
+      usage: response.usage
+    });
+    this.prune(Date.now());
+    this.emit('statsUpdated', {});
+  }
+
+  /**
+   * 재시도 기록
+   */
+  private recordRetry(): void {
+    this.retryTimestamps.push(Date.now());
+    this.prune(Date.now());
+    this.emit('statsUpdated', {});
+  }
+
+  /**
+   * 집계 기간이 지난 기록 삭제
+   */
+  private prune(now: number): void {
+    const since = now - this.config.window;
+    this.samples = this.samples.filter(sample => sample.timestamp >= since);
+    this.retryTimestamps = this.retryTimestamps.filter(timestamp => timestamp >= since);
+  }
+
+  /**
+   * 구간별 타임라인 생성 (비어 있는 구간 포함)
+   */
+  private buildTimeline(now: number): StatsTimelineBucket[] {
+    const { window, bucketSize } = this.config;
+    const bucketCount = Math.ceil(window / bucketSize);
+    const firstStart = Math.floor(now / bucketSize) * bucketSize - (bucketCount - 1) * bucketSize;
+
+    const buckets: StatsTimelineBucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+      startedAt: firstStart + index * bucketSize,
+      requests: 0,
+      cacheHits: 0,
+      errors: 0,
+      averageLatency: 0
+    }));
+    const latencyTotals = new Array<number>(bucketCount).fill(0);
+    const latencyCounts = new Array<number>(bucketCount).fill(0);
+
+    for (const sample of this.samples) {
+      const index = Math.floor((sample.timestamp - firstStart) / bucketSize);
+      const bucket = buckets[index];
+      if (!bucket) continue;
+
+      if (sample.outcome === 'cached') {
+        bucket.cacheHits++;
+        continue;
+      }
+
+      bucket.requests++;
+      if (sample.outcome === 'error') {
+        bucket.errors++;
+      } else if (sample.latency !== undefined) {
+        latencyTotals[index] += sample.latency;
+        latencyCounts[index]++;
+      }
+    }
+
+    buckets.forEach((bucket, index) => {
+      bucket.averageLatency = latencyCounts[index] ? latencyTotals[index] / latencyCounts[index] : 0;
+    });
+    return buckets;
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * 응답 시간 통계 계산 (백분위수는 nearest-rank 방식)
+ */
+export function calculateLatencyStats(latencies: number[]): LatencyStats {
+  if (latencies.length === 0) {
+    return { count: 0, average: 0, p50: 0, p90: 0, p99: 0 };
+  }
+
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+  return {
+    count: sorted.length,
+    average: sorted.reduce((sum, latency) => sum + latency, 0) / sorted.length,
+    p50: percentile(0.5),
+    p90: percentile(0.9),
+    p99: percentile(0.99)
+  };
+}
+
+/**
+ * 초당 생성 토큰 수 계산 (생성 시간을 알려준 응답만 집계)
+ */
+function calculateTokensPerSecond(samples: ResponseSample[]): number | undefined {
+  let tokens = 0;
+  let time = 0;
+
+  for (const { usage } of samples) {
+    if (!usage?.generationTime) continue;
+    tokens += usage.completionTokens;
+    time += usage.generationTime;
+  }
+
+  return time > 0 ? tokens / (time / 1000) : undefined;
+}
+
+/**
+ * 백엔드별 응답 수 집계
+ */
+function countByBackend(samples: ResponseSample[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { backend } of samples) {
+    if (backend) counts[backend] = (counts[backend] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * 전역 서비스 통계 수집기 인스턴스
+ */
+export const serviceStats = new ServiceStatsCollector();
@@ -0,0 +1,163 @@
+/**
+ * 텍스트 스트림
+ * LLM 응답과 캐시 답변을 같은 방식(비동기 반복자)으로 흘려보내는 공통 스트리밍 도구
+ * 캐시 답변은 문자소 또는 문장 단위로 나누어 설정한 간격으로 재생
+ */
+
+import { DEFAULT_STREAM_REPLAY_CONFIG, StreamReplayConfig } from '../types/api.js';
+
+/**
+ * 현재 캐시 답변 재생 설정
+ */
+let replayConfig: StreamReplayConfig = { ...DEFAULT_STREAM_REPLAY_CONFIG };
+
+/**
+ * 캐시 답변 재생 설정 변경
+ */
+export function setReplayConfig(config: Partial<StreamReplayConfig>): void {
+  replayConfig = { ...replayConfig, ...config };
+}
+
+/**
+ * 캐시 답변 재생 설정 조회
+ */
+export function getReplayConfig(): StreamReplayConfig {
+  return { ...replayConfig };
+}
+
+/**
+ * 스트림을 끝까지 읽으며 조각마다 콜백 호출
+ * 중지되면 남은 조각을 전달하지 않고 AbortError를 던짐
+ */
+export async function pipeTextStream(
+  source: AsyncIterable<string>,
+  onChunk: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  let fullText = '';
+
+  for await (const chunk of source) {
+    signal?.throwIfAborted();
+    if (!chunk) continue;
+    fullText += chunk;
+    onChunk(chunk);
+  }
+  signal?.throwIfAborted();
+
+  return fullText;
+}
+
+/**
+ * 저장된 답변을 스트림으로 재생
+ */
+export async function* replayText(
+  text: string,
+  signal?: AbortSignal,
+  config: StreamReplayConfig = replayConfig
+): AsyncGenerator<string> {
+  if (config.instant || config.interval <= 0) {
+    signal?.throwIfAborted();
+    yield text;
+    return;
+  }
+
+  const chunks = splitTextChunks(text, config);
+  for (let index = 0; index < chunks.length; index++) {
+    if (index > 0) {
+      await sleep(config.interval, signal);
+    }
+    signal?.throwIfAborted();
+    yield chunks[index];
+  }
+}
+
+/**
+ * 응답 본문을 줄 단위로 읽기 (NDJSON, SSE 공통)
+ * 청크 경계에서 잘린 줄과 멀티바이트 문자는 다음 청크와 합쳐서 처리
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 재생할 조각으로 나누기
+ */
+export function splitTextChunks(text: string, config: StreamReplayConfig): string[] {
+  if (config.chunkBy === 'sentence') {
+    return splitSentences(text);
+  }
+
+  const graphemes = splitGraphemes(text);
+  const size = Math.max(1, config.graphemesPerChunk);
+  const chunks: string[] = [];
+  for (let i = 0; i < graphemes.length; i += size) {
+    chunks.push(graphemes.slice(i, i + size).join(''));
+  }
+  return chunks;
+}
+
+/**
+ * 문자소 단위로 나누기 (한글 자모 조합과 이모지가 깨지지 않도록)
+ */
+export function splitGraphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter('ko', { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text), segment => segment.segment);
+  }
+  return Array.from(text);
+}
+
+/**
+ * 문장 단위로 나누기 (문장 뒤 공백과 줄바꿈은 앞 문장에 포함)
+ */
+export function splitSentences(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter('ko', { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text), segment => segment.segment);
+  }
+  return text.match(/[^.!?。\n]*(?:[.!?。]+|\n+|$)\s*/g)?.filter(Boolean) ?? [text];
+}
+
+/**
+ * 중지 가능한 대기
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,363 @@
+/**
+ * 사용량 장부
+ * 요청마다 입력·생성 토큰 수를 백엔드·모델별로 분 단위와 일 단위로 집계하고,
+ * 설정한 예산(소프트·하드 한도)에 얼마나 가까운지 알려줌
+ * 예산 사용량은 분 단위 집계로 계산해 일 단위 예산도 예산마다 정한 시간대의 자정에 초기화
+ * 집계는 localStorage에 저장해 새로고침 후에도 유지
+ */
+
+import {
+  BudgetLevel,
+  BudgetStatus,
+  EventCallback,
+  TokenUsage,
+  UsageAggregate,
+  UsageBudget,
+  UsagePeriod
+} from '../types/api.js';
+import { getConfig } from '../config/apiConfig.js';
+
+/**
+ * 집계를 저장하는 localStorage 키
+ */
+export const USAGE_LEDGER_STORAGE_KEY = 'llm_usage_ledger';
+
+/**
+ * 저장 형식 버전
+ */
+const USAGE_LEDGER_VERSION = 1;
+
+/**
+ * 하루 (밀리초)
+ */
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 기간별 집계 보관 기간 (밀리초)
+ * 분 단위 집계는 일 단위 예산 계산에 쓰이므로 서머타임으로 25시간이 되는 날까지 보관
+ */
+const RETENTION: Record<UsagePeriod, number> = {
+  minute: 25 * 60 * 60 * 1000,
+  day: 90 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * 사용량 장부 클래스
+ */
+export class UsageLedger {
+  private aggregates: Map<string, UsageAggregate> = new Map();
+  private budgetLevels: Map<string, BudgetLevel> = new Map();
+  private eventCallbacks: Map<string, EventCallback[]> = new Map();
+
+  constructor(
+    private budgets: UsageBudget[] = getConfig().USAGE.BUDGETS,
+    private readonly storageKey: string = USAGE_LEDGER_STORAGE_KEY
+  ) {
+    this.load();
+  }
+
+  /**
+   * 요청 하나의 사용량 기록 (토큰 수를 모르면 요청 수만 집계)
+   */
+  record(backend: string, model: string, usage?: TokenUsage, timestamp = Date.now()): void {
+    for (const period of ['minute', 'day'] as UsagePeriod[]) {
+      const startedAt = getPeriodStart(period, timestamp);
+      const key = createAggregateKey(period, startedAt, backend, model);
+      const aggregate = this.aggregates.get(key) ?? {
+        period,
+        startedAt,
+        backend,
+        model,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0
+      };
+
+      aggregate.requests++;
+      aggregate.promptTokens += usage?.promptTokens ?? 0;
+      aggregate.completionTokens += usage?.completionTokens ?? 0;
+      this.aggregates.set(key, aggregate);
+    }
+
+    this.prune(timestamp);
+    this.save();
+    this.emit('usageRecorded', { backend, model, usage });
+    this.getBudgetStatuses();
+  }
+
+  /**
+   * 기간별 집계 조회 (오래된 순)
+   */
+  getAggregates(period: UsagePeriod, filter: { backend?: string; model?: string; since?: number } = {}): UsageAggregate[] {
+    return Array.from(this.aggregates.values())
+      .filter(aggregate =>
+        aggregate.period === period &&
+        (!filter.backend || aggregate.backend === filter.backend) &&
+        (!filter.model || aggregate.model === filter.model) &&
+        (filter.since === undefined || aggregate.startedAt >= filter.since)
+      )
+      .sort((a, b) => a.startedAt - b.startedAt)
+      .map(aggregate => ({ ...aggregate }));
+  }
+
+  /**
+   * 현재 기간(이번 분 또는 오늘)의 모델별 사용량 조회
+   */
+  getCurrentUsage(period: UsagePeriod, backend?: string): UsageAggregate[] {
+    return this.getAggregates(period, { backend, since: getPeriodStart(period, Date.now()) });
+  }
+
+  /**
+   * 모든 예산의 현재 사용 상태 조회
+   * 단계가 바뀐 예산은 budgetLevelChanged 이벤트로 알림 (기간이 바뀌어 내려간 경우 포함)
+   */
+  getBudgetStatuses(backend?: string): BudgetStatus[] {
+    const now = Date.now();
+
+    return this.budgets
+      .filter(budget => !backend || budget.backend === backend)
+      .map(budget => {
+        const startedAt = getPeriodStart(budget.period, now, budget.timeZone);
+        const used = this.getAggregates('minute', { backend: budget.backend, model: budget.model, since: startedAt })
+          .reduce((sum, aggregate) => sum + (budget.metric === 'tokens'
+            ? aggregate.promptTokens + aggregate.completionTokens
+            : aggregate.requests), 0);
+
+        const status: BudgetStatus = {
+          budget: { ...budget },
+          used,
+          level: getBudgetLevel(budget, used),
+          resetAt: getPeriodEnd(budget.period, now, budget.timeZone)
+        };
+        this.trackLevel(status);
+        return status;
+      });
+  }
+
+  /**
+   * 하드 한도에 도달한 예산 조회 (여러 개면 가장 늦게 초기화되는 예산)
+   */
+  getExceededBudget(backend: string, model?: string): BudgetStatus | undefined {
+    return this.getBudgetStatuses(backend)
+      .filter(status => status.level === BudgetLevel.HARD && (!status.budget.model || status.budget.model === model))
+      .sort((a, b) => b.resetAt - a.resetAt)[0];
+  }
+
+  /**
+   * 예산 조회
+   */
+  getBudgets(): UsageBudget[] {
+    return this.budgets.map(budget => ({ ...budget }));
+  }
+
+  /**
+   * 예산 변경
+   */
+  setBudgets(budgets: UsageBudget[]): void {
+    this.budgets = budgets.map(budget => ({ ...budget }));
+    this.budgetLevels.clear();
+    this.emit('budgetsChanged', { budgets: this.getBudgets() });
+    this.getBudgetStatuses();
+  }
+
+  /**
+   * 집계 초기화
+   */
+  clear(): void {
+    this.aggregates.clear();
+    this.save();
+    this.emit('usageCleared', {});
+    this.getBudgetStatuses();
+  }
+
+  /**
+   * 예산 단계 변화 감지
+   */
+  private trackLevel(status: BudgetStatus): void {
+    const { budget } = status;
+    const key = [budget.backend, budget.model ?? '*', budget.period, budget.metric].join('|');
+    const previous = this.budgetLevels.get(key) ?? BudgetLevel.OK;
+
+    if (previous !== status.level) {
+      this.budgetLevels.set(key, status.level);
+      this.emit('budgetLevelChanged', { status, previous });
+    }
+  }
+
+  /**
+   * 보관 기간이 지난 집계 삭제
+   */
+  private prune(now: number): void {
+    this.aggregates.forEach((aggregate, key) => {
+      if (aggregate.startedAt < now - RETENTION[aggregate.period]) {
+        this.aggregates.delete(key);
+      }
+    });
+  }
+
+  /**
+   * 저장된 집계 로드
+   */
+  private load(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return;
+
+      const data = JSON.parse(stored);
+      if (data?.version !== USAGE_LEDGER_VERSION || !Array.isArray(data.aggregates)) return;
+
+      for (const aggregate of data.aggregates as UsageAggregate[]) {
+        this.aggregates.set(
+          createAggregateKey(aggregate.period, aggregate.startedAt, aggregate.backend, aggregate.model),
+          aggregate
+        );
+      }
+      this.prune(Date.now());
+    } catch (error) {
+      console.warn('Failed to load usage ledger:', error);
+    }
+  }
+
+  /**
+   * 집계 저장
+   */
+  private save(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify({
+        version: USAGE_LEDGER_VERSION,
+        aggregates: Array.from(this.aggregates.values())
+      }));
+    } catch (error) {
+      console.warn('Failed to save usage ledger:', error);
+    }
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   */
+  on(event: string, callback: EventCallback): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  /**
+   * 이벤트 리스너 제거
+   */
+  off(event: string, callback: EventCallback): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * 이벤트 발생
+   */
+  private emit(event: string, data: any): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in event callback for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * 집계 키 생성
+ */
+function createAggregateKey(period: UsagePeriod, startedAt: number, backend: string, model: string): string {
+  return `${period}|${startedAt}|${backend}|${model}`;
+}
+
+/**
+ * 기간 시작 시간 (분 단위, 또는 지정한 시간대의 자정이나 없으면 로컬 자정)
+ */
+function getPeriodStart(period: UsagePeriod, timestamp: number, timeZone?: string): number {
+  if (period === 'minute') {
+    return Math.floor(timestamp / 60000) * 60000;
+  }
+  if (timeZone) {
+    const localMidnight = Math.floor((timestamp + getTimeZoneOffset(timeZone, timestamp)) / DAY) * DAY;
+    return toUtc(timeZone, localMidnight, timestamp);
+  }
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * 기간 종료(다음 기간 시작) 시간
+ */
+function getPeriodEnd(period: UsagePeriod, timestamp: number, timeZone?: string): number {
+  if (period === 'minute') {
+    return getPeriodStart(period, timestamp) + 60000;
+  }
+  if (timeZone) {
+    const localMidnight = Math.floor((timestamp + getTimeZoneOffset(timeZone, timestamp)) / DAY) * DAY + DAY;
+    return toUtc(timeZone, localMidnight, timestamp);
+  }
+  const date = new Date(getPeriodStart(period, timestamp));
+  date.setDate(date.getDate() + 1);
+  return date.getTime();
+}
+
+/**
+ * 시간대의 벽시계 시간(UTC로 표현한 값)을 실제 시각으로 변환
+ * 가까운 시각의 오프셋으로 먼저 추정한 뒤 추정한 시각의 오프셋으로 다시 계산해 서머타임 전환을 반영
+ */
+function toUtc(timeZone: string, wallTime: number, near: number): number {
+  const estimate = wallTime - getTimeZoneOffset(timeZone, near);
+  return wallTime - getTimeZoneOffset(timeZone, estimate);
+}
+
+/**
+ * 시각의 시간대 오프셋 (벽시계 시간 - UTC, 밀리초)
+ */
+function getTimeZoneOffset(timeZone: string, timestamp: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(timestamp);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  const wallTime = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return wallTime - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * 사용량에 따른 예산 단계
+ */
+function getBudgetLevel(budget: UsageBudget, used: number): BudgetLevel {
+  if (budget.hardLimit !== undefined && used >= budget.hardLimit) {
+    return BudgetLevel.HARD;
+  }
+  if (budget.softLimit !== undefined && used >= budget.softLimit) {
+    return BudgetLevel.SOFT;
+  }
+  return BudgetLevel.OK;
+}
+
+/**
+ * 전역 사용량 장부 인스턴스
+ */
+export const usageLedger = new UsageLedger();
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCacheStorage, MemoryCacheStorage } from '../services/cacheStorage.js';
+import { CacheService } from '../services/cacheService.js';
+import { CacheItem, DEFAULT_CACHE_CONFIG } from '../types/api.js';
+
+const createItem = (key: string, data: any): CacheItem => ({
+  key,
+  data,
+  createdAt: Date.now(),
+  expiresAt: Date.now() + 60 * 1000,
+  lastAccessedAt: Date.now(),
+  accessCount: 0,
+  size: JSON.stringify(data).length
+});
+
+describe('MemoryCacheStorage', () => {
+  it('stores copies of items', async () => {
+    const storage = new MemoryCacheStorage();
+    const item = createItem('qa_1', { answer: '10만원' });
+
+    await storage.put(item);
+    item.data.answer = '변경';
+
+    expect((await storage.loadAll())[0].data).toEqual({ answer: '10만원' });
+  });
+
+  it('deletes and clears items', async () => {
+    const storage = new MemoryCacheStorage();
+    await storage.put(createItem('qa_1', 'a'));
+    await storage.put(createItem('qa_2', 'b'));
+
+    await storage.delete('qa_1');
+    expect((await storage.loadAll()).map(item => item.key)).toEqual(['qa_2']);
+
+    await storage.clear();
+    expect(await storage.loadAll()).toEqual([]);
+  });
+});
+
+describe('createCacheStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to memory when IndexedDB cannot be opened', async () => {
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        throw new DOMException('The operation is insecure.', 'SecurityError');
+      }
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createCacheStorage();
+
+    await storage.put(createItem('qa_1', 'a'));
+
+    expect(storage.name).toBe('memory');
+    expect((await storage.loadAll()).map(item => item.key)).toEqual(['qa_1']);
+  });
+});
+
+describe('CacheService with MemoryCacheStorage', () => {
+  it('reloads persisted items into a new cache', async () => {
+    const storage = new MemoryCacheStorage();
+    const cache = new CacheService(DEFAULT_CACHE_CONFIG, storage);
+    await cache.whenReady();
+
+    cache.set('qa_1', { answer: '금연구역에서 흡연하면 10만원 이하의 과태료가 부과됩니다.' }, undefined, { tags: ['faq:1'] });
+    await vi.waitFor(async () => expect(await storage.loadAll()).toHaveLength(1));
+    cache.destroy();
+
+    const reloaded = new CacheService(DEFAULT_CACHE_CONFIG, storage);
+    await reloaded.whenReady();
+
+    expect(reloaded.get('qa_1')).toEqual({ answer: '금연구역에서 흡연하면 10만원 이하의 과태료가 부과됩니다.' });
+    expect(reloaded.getKeysByTag('faq:1')).toEqual(['qa_1']);
+    reloaded.destroy();
+  });
+
+  it('applies the size limit to the compressed size', async () => {
+    const storage = new MemoryCacheStorage();
+    const answer = '금연구역에서 흡연하면 10만원 이하의 과태료가 부과됩니다. '.repeat(200);
+    const cache = new CacheService({ ...DEFAULT_CACHE_CONFIG, maxSize: JSON.stringify(answer).length / 2 }, storage);
+    await cache.whenReady();
+
+    expect(await cache.set('qa_1', answer)).toBe(true);
+
+    await vi.waitFor(async () => expect(await storage.loadAll()).toHaveLength(1));
+    const [stored] = await storage.loadAll();
+    expect(stored.size).toBeLessThan(JSON.stringify(answer).length / 2);
+    expect(cache.getStats().totalSize).toBe(stored.size);
+    expect(cache.get('qa_1')).toBe(answer);
+    cache.destroy();
+  });
+});
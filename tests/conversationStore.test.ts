@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConversationStore, MemoryConversationStorage } from '../services/conversationStore.js';
+import { StoredMessage } from '../types/api.js';
+
+const question = (content: string, timestamp = 1): StoredMessage => ({ role: 'user', content, timestamp });
+const answer = (content: string, extra: Partial<StoredMessage> = {}): StoredMessage =>
+  ({ role: 'model', content, timestamp: 2, ...extra });
+
+describe('ConversationStore', () => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new ConversationStore(new MemoryConversationStorage());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates a conversation titled after the first question', async () => {
+    const conversation = await store.create([question('  금연구역   과태료는? '), answer('10만원')], 'ollama', 'exaone3.5:2.4b');
+
+    expect(conversation.title).toBe('금연구역 과태료는?');
+    expect(await store.get(conversation.id)).toEqual(conversation);
+  });
+
+  it('lists conversations by last update and filters by keyword', async () => {
+    const first = await store.create([question('금연구역 과태료는?')], 'ollama', null);
+    vi.advanceTimersByTime(1000);
+    const second = await store.create([question('경고그림 크기는?')], 'gemini', null);
+    vi.advanceTimersByTime(1000);
+    await store.update(first.id, [question('금연구역 과태료는?'), answer('10만원')], 'ollama', null);
+
+    expect((await store.list()).map(conversation => conversation.id)).toEqual([first.id, second.id]);
+    expect((await store.list('10만원')).map(conversation => conversation.id)).toEqual([first.id]);
+  });
+
+  it('renames and deletes conversations', async () => {
+    const conversation = await store.create([question('금연구역 과태료는?')], 'ollama', null);
+
+    expect(await store.rename(conversation.id, '  과태료  ')).toBe(true);
+    expect((await store.get(conversation.id))?.title).toBe('과태료');
+    expect(await store.rename(conversation.id, '   ')).toBe(false);
+
+    await store.delete(conversation.id);
+    expect(await store.get(conversation.id)).toBeNull();
+    expect(await store.update(conversation.id, [], 'ollama', null)).toBeNull();
+  });
+
+  it('restores only answered, completed turns', () => {
+    const turns = store.toConversationTurns([
+      question('첫 질문'), answer('첫 답변'),
+      question('중지한 질문'), answer('일부', { cancelled: true }),
+      question('실패한 질문'), answer('일부', { error: 'network' }),
+      question('답변 없는 질문')
+    ]);
+
+    expect(turns.map(turn => `${turn.role}:${turn.content}`)).toEqual(['user:첫 질문', 'assistant:첫 답변']);
+  });
+});
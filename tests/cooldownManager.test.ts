@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CooldownManager } from '../services/cooldownManager.js';
+
+describe('CooldownManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps cooldowns separate per backend', () => {
+    const cooldown = new CooldownManager();
+    cooldown.start(5000, { backend: 'gemini' });
+
+    expect(cooldown.getRemaining('gemini')).toBe(5000);
+    expect(cooldown.isActive('ollama')).toBe(false);
+    expect(cooldown.getState()).toBeNull();
+
+    vi.advanceTimersByTime(5000);
+    expect(cooldown.isActive('gemini')).toBe(false);
+  });
+
+  it('applies a cooldown without a backend to every backend', () => {
+    const cooldown = new CooldownManager();
+    cooldown.start(3000, { backend: 'gemini' });
+    cooldown.start(1000);
+
+    expect(cooldown.getRemaining('ollama')).toBe(1000);
+    expect(cooldown.getRemaining('gemini')).toBe(3000);
+  });
+
+  it('only extends a cooldown to a later time and clears one backend', () => {
+    const cooldown = new CooldownManager();
+    const ended = vi.fn();
+    cooldown.on('cooldownEnded', ended);
+
+    cooldown.start(5000, { backend: 'gemini' });
+    cooldown.start(1000, { backend: 'gemini' });
+    cooldown.start(2000, { backend: 'ollama' });
+    expect(cooldown.getRemaining('gemini')).toBe(5000);
+
+    cooldown.clear('ollama');
+    expect(cooldown.isActive('ollama')).toBe(false);
+    expect(cooldown.isActive('gemini')).toBe(true);
+    expect(ended).toHaveBeenCalledWith(expect.objectContaining({ backend: 'ollama' }));
+  });
+});
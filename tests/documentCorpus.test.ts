@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import { DocumentCorpusLoader } from '../services/documentCorpus.js';
+import { CorpusDocument } from '../types/api.js';
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+const corpusDocument = (fileName: string, pdf: string, text: string): CorpusDocument => ({
+  id: fileName,
+  fileName,
+  sha256: sha256(pdf),
+  pageCount: 1,
+  pages: [{ pageNumber: 1, text, hash: sha256(text) }]
+});
+
+/**
+ * 코퍼스, PDF 목록, PDF를 돌려주는 fetch (없는 경로는 404)
+ */
+const stubFetch = (files: Record<string, unknown>) => {
+  const requested: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    requested.push(url);
+    const body = files[decodeURIComponent(url)];
+    if (body === undefined) return new Response(null, { status: 404 });
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body));
+  }));
+  return requested;
+};
+
+const parsePdf = async (data: Uint8Array) => [`parsed:${new TextDecoder().decode(data)}`];
+
+const corpus = {
+  version: 1,
+  generatedAt: '2025-01-01T00:00:00Z',
+  documents: [corpusDocument('a.pdf', 'pdf-a', '코퍼스 A'), corpusDocument('b.pdf', 'pdf-b', '코퍼스 B')]
+};
+
+describe('DocumentCorpusLoader', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the corpus when the manifest hash matches and re-parses changed or new PDFs', async () => {
+    const requested = stubFetch({
+      'corpus/corpus.json': corpus,
+      'pdf/manifest.json': [
+        { fileName: 'a.pdf', sha256: sha256('pdf-a') },
+        { fileName: 'b.pdf', sha256: sha256('pdf-b-changed') },
+        { fileName: 'c.pdf', sha256: sha256('pdf-c') }
+      ],
+      'pdf/b.pdf': 'pdf-b-changed',
+      'pdf/c.pdf': 'pdf-c'
+    });
+    const loader = new DocumentCorpusLoader('corpus/', 'pdf/');
+
+    const documents = await loader.loadDocuments(parsePdf);
+
+    expect(documents.map(document => [document.fileName, document.source, document.pages[0]])).toEqual([
+      ['a.pdf', 'corpus', '코퍼스 A'],
+      ['b.pdf', 'parsed', 'parsed:pdf-b-changed'],
+      ['c.pdf', 'parsed', 'parsed:pdf-c']
+    ]);
+    expect(requested).not.toContain('pdf/a.pdf');
+  });
+
+  it('hashes the PDF when the manifest lists only file names', async () => {
+    stubFetch({
+      'corpus/corpus.json': corpus,
+      'pdf/manifest.json': ['a.pdf', 'b.pdf'],
+      'pdf/a.pdf': 'pdf-a',
+      'pdf/b.pdf': 'pdf-b-changed'
+    });
+    const loader = new DocumentCorpusLoader('corpus/', 'pdf/');
+
+    const documents = await loader.loadDocuments(parsePdf);
+
+    expect(documents.map(document => document.source)).toEqual(['corpus', 'parsed']);
+  });
+
+  it('falls back to the corpus text when the PDF cannot be hashed', async () => {
+    stubFetch({ 'corpus/corpus.json': corpus, 'pdf/manifest.json': ['a.pdf'], 'pdf/a.pdf': 'pdf-a' });
+    vi.stubGlobal('crypto', undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const loader = new DocumentCorpusLoader('corpus/', 'pdf/');
+
+    const documents = await loader.loadDocuments(parsePdf);
+
+    expect(documents).toEqual([{ fileName: 'a.pdf', pages: ['코퍼스 A'], source: 'corpus' }]);
+  });
+
+  it('uses every corpus document when the manifest is unavailable', async () => {
+    stubFetch({ 'corpus/corpus.json': corpus });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const loader = new DocumentCorpusLoader('corpus/', 'pdf/');
+
+    const documents = await loader.loadDocuments(parsePdf);
+
+    expect(documents.map(document => document.fileName)).toEqual(['a.pdf', 'b.pdf']);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { toApiError, toNonRetryableError } from '../services/errors.js';
+import { ApiErrorType } from '../types/api.js';
+
+describe('toApiError', () => {
+  it('returns a new ApiError without mutating the original error', () => {
+    const original = new TypeError('fetch failed');
+    const apiError = toApiError(original);
+
+    expect(apiError).not.toBe(original);
+    expect(apiError).toMatchObject({ type: ApiErrorType.NETWORK_ERROR, retryable: true, name: 'TypeError' });
+    expect(apiError.cause).toBe(original);
+    expect(original).not.toHaveProperty('type');
+    expect(original).not.toHaveProperty('retryable');
+  });
+
+  it('classifies SDK errors by status code', () => {
+    const original = Object.assign(new Error('quota exceeded'), { status: 429 });
+    const apiError = toApiError(original);
+
+    expect(apiError).toMatchObject({ type: ApiErrorType.RATE_LIMIT_EXCEEDED, statusCode: 429, retryAfter: 5000 });
+    expect(original).not.toHaveProperty('statusCode');
+  });
+
+  it('returns an already classified error as is', () => {
+    const apiError = toApiError(new Error('unexpected'));
+    expect(toApiError(apiError)).toBe(apiError);
+  });
+
+  it('marks a copy of a retryable error as non-retryable', () => {
+    const apiError = toApiError(Object.assign(new Error('quota exceeded'), { status: 429 }));
+    const nonRetryable = toNonRetryableError(apiError);
+
+    expect(nonRetryable).toMatchObject({ type: ApiErrorType.RATE_LIMIT_EXCEEDED, retryable: false, retryAfter: 5000 });
+    expect(nonRetryable.cause).toBe(apiError);
+    expect(apiError.retryable).toBe(true);
+  });
+});
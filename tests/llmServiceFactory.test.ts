@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LlmServiceFactory } from '../services/llmServiceFactory.js';
+import { LlmProviderRegistry } from '../services/llmProviderRegistry.js';
+import { cooldownManager } from '../services/cooldownManager.js';
+import { usageLedger } from '../services/usageLedger.js';
+import { ApiErrorType, ApiResponse, ApiResponseStatus, ConversationTurn, LlmProvider, LlmService } from '../types/api.js';
+
+// 내장 프로바이더는 실제 서버와 API 키가 필요하므로 등록하지 않음
+vi.mock('../services/llmProviders.js', () => ({ registerBuiltInProviders: () => {} }));
+
+const failure = (status: ApiResponseStatus, errorType: ApiErrorType, retryAfter?: number): ApiResponse<string> => ({
+  status,
+  error: errorType,
+  errorType,
+  retryAfter,
+  responseTime: 0,
+  fromCache: false,
+  retryCount: 0,
+  requestId: 'test',
+  timestamp: Date.now()
+});
+
+const success = (data: string): ApiResponse<string> => ({
+  status: ApiResponseStatus.SUCCESS,
+  data,
+  responseTime: 0,
+  fromCache: false,
+  retryCount: 0,
+  requestId: 'test',
+  timestamp: Date.now()
+});
+
+const createProvider = (id: string, response: ApiResponse<string>, available = true) => {
+  const service = {
+    sendMessage: vi.fn(async () => response),
+    resetConversation: vi.fn(),
+    restoreConversation: vi.fn()
+  };
+  const provider = {
+    id,
+    name: id,
+    description: id,
+    service: service as unknown as LlmService,
+    isAvailable: async () => available
+  } as LlmProvider;
+  return { provider, service };
+};
+
+const createFactory = async (...providers: LlmProvider[]) => {
+  const registry = new LlmProviderRegistry();
+  providers.forEach(provider => registry.register(provider));
+  const factory = new LlmServiceFactory(registry);
+  await factory.setServiceType(providers[0].id);
+  return factory;
+};
+
+describe('LlmServiceFactory', () => {
+  afterEach(() => {
+    cooldownManager.clear();
+    usageLedger.clear();
+  });
+
+  it('returns the rate-limited response and starts that backend cooldown when every backend fails', async () => {
+    const ollama = createProvider('ollama', failure(ApiResponseStatus.ERROR, ApiErrorType.NETWORK_ERROR));
+    const gemini = createProvider('gemini', failure(ApiResponseStatus.RATE_LIMITED, ApiErrorType.RATE_LIMIT_EXCEEDED, 5000));
+    const openAi = createProvider('openai-compatible', failure(ApiResponseStatus.ERROR, ApiErrorType.NETWORK_ERROR));
+    const factory = await createFactory(ollama.provider, gemini.provider, openAi.provider);
+
+    const response = await factory.sendMessage('질문');
+
+    expect(response.status).toBe(ApiResponseStatus.RATE_LIMITED);
+    expect(response.backend).toBe('gemini');
+    expect(cooldownManager.isActive('gemini')).toBe(true);
+    expect(cooldownManager.isActive('ollama')).toBe(false);
+  });
+
+  it('records usage for failed requests but not for rate-limited ones', async () => {
+    const ollama = createProvider('ollama', failure(ApiResponseStatus.ERROR, ApiErrorType.SERVER_ERROR));
+    const gemini = createProvider('gemini', failure(ApiResponseStatus.RATE_LIMITED, ApiErrorType.RATE_LIMIT_EXCEEDED, 5000));
+    const factory = await createFactory(ollama.provider, gemini.provider);
+
+    await factory.sendMessage('질문');
+
+    expect(usageLedger.getCurrentUsage('day').map(({ backend, requests }) => [backend, requests])).toEqual([['ollama', 1]]);
+  });
+
+  it('skips unavailable fallback backends and returns the primary error', async () => {
+    const ollama = createProvider('ollama', failure(ApiResponseStatus.ERROR, ApiErrorType.SERVER_ERROR));
+    const gemini = createProvider('gemini', failure(ApiResponseStatus.ERROR, ApiErrorType.NETWORK_ERROR), false);
+    const factory = await createFactory(ollama.provider, gemini.provider);
+
+    const response = await factory.sendMessage('질문');
+
+    expect(response.backend).toBe('ollama');
+    expect(response.errorType).toBe(ApiErrorType.SERVER_ERROR);
+    expect(gemini.service.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('skips backends that are cooling down', async () => {
+    const ollama = createProvider('ollama', failure(ApiResponseStatus.ERROR, ApiErrorType.SERVER_ERROR));
+    const gemini = createProvider('gemini', success('답변'));
+    const factory = await createFactory(ollama.provider, gemini.provider);
+    const skipped: unknown[] = [];
+    factory.on('backendSkipped', data => skipped.push(data));
+    cooldownManager.start(60 * 1000, { backend: 'ollama' });
+
+    const response = await factory.sendMessage('질문');
+
+    expect(response.backend).toBe('gemini');
+    expect(ollama.service.sendMessage).not.toHaveBeenCalled();
+    expect(skipped).toEqual([{ backend: 'ollama', reason: 'cooldown' }]);
+  });
+
+  it('reports a blocking cooldown only when every backend is cooling down or unavailable', async () => {
+    const ollama = createProvider('ollama', success('답변'));
+    const gemini = createProvider('gemini', success('답변'));
+    const openAi = createProvider('openai-compatible', success('답변'), false);
+    const factory = await createFactory(ollama.provider, gemini.provider, openAi.provider);
+
+    cooldownManager.start(60 * 1000, { backend: 'ollama' });
+    expect(await factory.getBlockingCooldown()).toBeNull();
+
+    cooldownManager.start(30 * 1000, { backend: 'gemini' });
+    expect(await factory.getBlockingCooldown()).toMatchObject({ backend: 'gemini' });
+  });
+
+  it('resets and restores the conversation on every backend in the failover order', async () => {
+    const ollama = createProvider('ollama', failure(ApiResponseStatus.ERROR, ApiErrorType.SERVER_ERROR));
+    const gemini = createProvider('gemini', failure(ApiResponseStatus.ERROR, ApiErrorType.SERVER_ERROR));
+    const factory = await createFactory(ollama.provider, gemini.provider);
+    const turns: ConversationTurn[] = [
+      { role: 'user', content: '질문', timestamp: 1 },
+      { role: 'assistant', content: '답변', timestamp: 2 }
+    ];
+
+    factory.restoreConversation(turns);
+    factory.resetConversation();
+
+    for (const { service } of [ollama, gemini]) {
+      expect(service.restoreConversation).toHaveBeenCalledWith(turns);
+      expect(service.resetConversation).toHaveBeenCalledTimes(1);
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { OllamaModelManager } from '../services/ollamaModelManager.js';
+
+const GB = 1024 ** 3;
+
+/**
+ * /api/tags, /api/pull, /api/delete만 흉내 내는 Ollama 서버
+ */
+const createStubOllama = () => {
+  const requests: { method?: string; url?: string; body: any }[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : null;
+      requests.push({ method: req.method, url: req.url, body });
+
+      if (req.url === '/api/tags') {
+        res.end(JSON.stringify({ models: [{ name: 'exaone3.5:2.4b', size: 2 * GB, modified_at: '2025-01-01T00:00:00Z' }] }));
+      } else if (req.url === '/api/pull' && body.model === 'broken') {
+        res.end(JSON.stringify({ status: 'pulling manifest' }) + '\n' + JSON.stringify({ error: 'manifest unknown' }) + '\n');
+      } else if (req.url === '/api/pull' && body.model === 'truncated') {
+        res.end(JSON.stringify({ status: 'downloading', digest: 'a', completed: 3, total: 10 }) + '\n');
+      } else if (req.url === '/api/pull' && body.model === 'slow') {
+        res.write(JSON.stringify({ status: 'downloading', digest: 'a', completed: 1, total: 10 }) + '\n');
+      } else if (req.url === '/api/pull') {
+        res.write(JSON.stringify({ status: 'downloading', digest: 'a', completed: 5, total: 10 }) + '\n');
+        res.write(JSON.stringify({ status: 'downloading', digest: 'b', completed: 10, total: 30 }) + '\n');
+        res.end(JSON.stringify({ status: 'success' }) + '\n');
+      } else if (req.url === '/api/delete') {
+        res.statusCode = body.model === 'missing' ? 404 : 200;
+        res.end(res.statusCode === 404 ? JSON.stringify({ error: 'model not found' }) : '');
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+
+  return { server, requests };
+};
+
+describe('OllamaModelManager', () => {
+  const { server, requests } = createStubOllama();
+  let manager: OllamaModelManager;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    manager = new OllamaModelManager(`http://localhost:${port}`, [
+      { name: 'exaone3.5:2.4b', size: 1.6, description: 'EXAONE', recommended: true },
+      { name: 'qwen2.5:3b', size: 1.9, description: 'Qwen', recommended: false }
+    ]);
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('lists installed models first, then catalog models not yet installed', async () => {
+    const catalog = await manager.listCatalog();
+
+    expect(catalog.map(entry => [entry.name, entry.installed])).toEqual([
+      ['exaone3.5:2.4b', true],
+      ['qwen2.5:3b', false]
+    ]);
+    expect(catalog[0]).toMatchObject({ size: 2, diskSize: 2 * GB, recommended: true });
+    expect(await manager.getDiskUsage()).toEqual({ totalBytes: 2 * GB, modelCount: 1 });
+  });
+
+  it('sums layer progress and completes the pull', async () => {
+    const events: string[] = [];
+    manager.on('pullCompleted', ({ model }) => events.push(model));
+
+    await manager.pull('qwen2.5:3b');
+
+    expect(manager.getPullProgress().find(progress => progress.model === 'qwen2.5:3b')).toMatchObject({
+      phase: 'completed',
+      completed: 40,
+      total: 40
+    });
+    expect(events).toEqual(['qwen2.5:3b']);
+  });
+
+  it('fails the pull on an error line in a successful response', async () => {
+    await expect(manager.pull('broken')).rejects.toThrow('manifest unknown');
+    expect(manager.getPullProgress().find(progress => progress.model === 'broken')).toMatchObject({
+      phase: 'failed',
+      error: 'manifest unknown'
+    });
+  });
+
+  it('fails the pull when the stream ends without a success line', async () => {
+    await expect(manager.pull('truncated')).rejects.toThrow('ended before the download completed');
+    expect(manager.getPullProgress().find(progress => progress.model === 'truncated')).toMatchObject({
+      phase: 'failed',
+      completed: 3,
+      total: 10
+    });
+  });
+
+  it('marks a cancelled pull as cancelled and keeps its progress', async () => {
+    const pulling = manager.pull('slow');
+    await new Promise<void>(resolve => {
+      const onProgress = (progress: any) => {
+        if (progress.model === 'slow' && progress.completed === 1) {
+          manager.off('pullProgress', onProgress);
+          resolve();
+        }
+      };
+      manager.on('pullProgress', onProgress);
+    });
+
+    manager.cancelPull('slow');
+    await pulling;
+
+    expect(manager.isPulling('slow')).toBe(false);
+    expect(manager.getPullProgress().find(progress => progress.model === 'slow')).toMatchObject({
+      phase: 'cancelled',
+      completed: 1,
+      total: 10
+    });
+  });
+
+  it('deletes models through /api/delete', async () => {
+    await manager.deleteModel('qwen2.5:3b');
+
+    expect(requests.at(-1)).toMatchObject({ method: 'DELETE', url: '/api/delete', body: { model: 'qwen2.5:3b' } });
+    expect(manager.getPullProgress().some(progress => progress.model === 'qwen2.5:3b')).toBe(false);
+    await expect(manager.deleteModel('missing')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { cacheService, qaCache } from '../services/cacheService.js';
+
+describe('qaCache', () => {
+  afterEach(() => {
+    cacheService.clear();
+  });
+
+  it('returns only answers made by the requested backend and model', async () => {
+    await qaCache.setAnswer('금연치료 지원 대상은?', 'gemini 답변', undefined, undefined, { backend: 'gemini', model: 'gemini-2.5-flash' });
+
+    expect(qaCache.getAnswer('금연치료 지원 대상은?', { backend: 'gemini', model: 'gemini-2.5-flash' })).toBe('gemini 답변');
+    expect(qaCache.getAnswer('금연치료 지원 대상은?', { backend: 'ollama', model: 'exaone3.5:2.4b' })).toBeNull();
+    expect(qaCache.getAnswer('금연치료 지원 대상은?', { backend: 'gemini', model: 'gemini-2.5-pro' })).toBeNull();
+  });
+
+  it('returns answers without a backend tag to every backend', async () => {
+    await qaCache.setAnswer('금연치료 지원 대상은?', '공통 답변');
+
+    expect(qaCache.getAnswer('금연치료 지원 대상은?', { backend: 'ollama', model: 'exaone3.5:2.4b' })).toBe('공통 답변');
+  });
+
+  it('matches reworded questions but not opposite ones', async () => {
+    await qaCache.setAnswer('금연치료 지원 대상은?', '대상 답변');
+    await qaCache.setAnswer('금연구역 과태료는 얼마야?', '과태료 답변');
+
+    expect(qaCache.getAnswer('금연치료 지원 대상이 뭐야?')).toBe('대상 답변');
+    expect(qaCache.getAnswer('금연치료 지원 대상이 아닌 사람은?')).toBeNull();
+    expect(qaCache.getAnswer('금연구역 과태료는 얼마가 아니야?')).toBeNull();
+  });
+
+  it('does not reuse answers for questions with different numbers', async () => {
+    await qaCache.setAnswer('2023년 금연구역 과태료는 얼마야?', '2023년 답변');
+
+    expect(qaCache.getAnswer('2024년 금연구역 과태료는 얼마야?')).toBeNull();
+  });
+
+  it('keeps prewarmed FAQ answers when the cache is cleared', async () => {
+    await qaCache.prewarm({ version: 1, entries: [{ question: '금연구역 흡연 과태료는?', answer: 'FAQ 답변' }] });
+    await qaCache.setAnswer('금연치료 지원 대상은?', '생성한 답변');
+
+    cacheService.clear();
+
+    expect(qaCache.getAnswer('금연구역 흡연 과태료는?')).toBe('FAQ 답변');
+    expect(qaCache.getAnswer('금연치료 지원 대상은?')).toBeNull();
+
+    await qaCache.prewarm({ version: 1, entries: [] });
+  });
+});
@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../services/rateLimiter.js';
+import { DEFAULT_RATE_LIMIT_CONFIG } from '../types/api.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits minInterval between requests', () => {
+    const limiter = new RateLimiter({ ...DEFAULT_RATE_LIMIT_CONFIG, minInterval: 1000, allowBurst: false });
+
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+    expect(limiter.getWaitTime()).toBe(1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(limiter.tryAcquire()).toBe(true);
+  });
+
+  it('does not limit the interval when minInterval is 0', () => {
+    const limiter = new RateLimiter({ ...DEFAULT_RATE_LIMIT_CONFIG, minInterval: 0, allowBurst: false });
+
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.getWaitTime()).toBe(0);
+    expect(Number.isFinite(limiter.getStatus().waitTime)).toBe(true);
+  });
+});
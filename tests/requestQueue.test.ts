@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestQueue } from '../services/requestQueue.js';
+import { CooldownManager } from '../services/cooldownManager.js';
+import { ApiErrorType, DEFAULT_RETRY_POLICY, RequestStatus } from '../types/api.js';
+
+/**
+ * 지수 백오프 없이 1초 간격으로 재시도하는 큐 생성 (Rate Limit·대기 없음)
+ */
+const createQueue = () =>
+  new RequestQueue(1, { ...DEFAULT_RETRY_POLICY, retryDelay: 1000, useExponentialBackoff: false });
+
+describe('RequestQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with the handler result and removes the settled item', async () => {
+    const queue = createQueue();
+    const handler = vi.fn(async (request: string) => `answer:${request}`);
+
+    await expect(queue.addRequest('질문', handler)).resolves.toBe('answer:질문');
+
+    const status = queue.getStatus();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(status.totalLength).toBe(0);
+    expect(status.countsByStatus[RequestStatus.COMPLETED]).toBe(1);
+  });
+
+  it('retries a retryable error and then succeeds', async () => {
+    const queue = createQueue();
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce('ok');
+
+    const promise = queue.addRequest('질문', handler);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(promise).resolves.toBe('ok');
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(queue.getStatus().totalRetries).toBe(1);
+  });
+
+  it('fails without retrying a non-retryable error', async () => {
+    const queue = createQueue();
+    const handler = vi.fn().mockRejectedValue(new Error('invalid request'));
+
+    await expect(queue.addRequest('질문', handler)).rejects.toMatchObject({ retryable: false });
+
+    const status = queue.getStatus();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(status.totalLength).toBe(0);
+    expect(status.failedCount).toBe(1);
+  });
+
+  it('fails after exhausting retries', async () => {
+    const queue = createQueue();
+    const handler = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    const promise = queue.addRequest('질문', handler, { retryPolicy: { maxRetries: 2 } });
+    const assertion = expect(promise).rejects.toMatchObject({ type: ApiErrorType.NETWORK_ERROR });
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await assertion;
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(queue.getStatus().failedCount).toBe(1);
+  });
+
+  it('cancels a running request and aborts the handler signal', async () => {
+    const queue = createQueue();
+    const controller = new AbortController();
+    let handlerSignal: AbortSignal | undefined;
+    const handler = vi.fn((_request: string, signal: AbortSignal) => {
+      handlerSignal = signal;
+      return new Promise<string>(() => {});
+    });
+
+    const promise = queue.addRequest('질문', handler, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(handlerSignal?.aborted).toBe(true);
+    expect(queue.getStatus().totalLength).toBe(0);
+    expect(queue.getStatus().countsByStatus[RequestStatus.CANCELLED]).toBe(1);
+  });
+
+  it('rejects with a timeout error when the handler takes too long', async () => {
+    const queue = createQueue();
+    const handler = vi.fn(() => new Promise<string>(() => {}));
+
+    const promise = queue.addRequest('질문', handler, { timeout: 5000 });
+    const assertion = expect(promise).rejects.toMatchObject({ name: 'TimeoutError' });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await assertion;
+    expect(queue.getStatus().totalLength).toBe(0);
+  });
+
+  it('holds only the requests of a backend that is cooling down', async () => {
+    const cooldown = new CooldownManager();
+    const queue = new RequestQueue(1, { ...DEFAULT_RETRY_POLICY, maxRetries: 0 }, undefined, cooldown);
+    const rateLimited = Object.assign(new Error('quota exceeded'), { status: 429 });
+
+    await expect(queue.addRequest('질문', vi.fn().mockRejectedValue(rateLimited), { backend: 'gemini' }))
+      .rejects.toMatchObject({ type: ApiErrorType.RATE_LIMIT_EXCEEDED });
+    expect(cooldown.isActive('gemini')).toBe(true);
+    expect(cooldown.isActive('ollama')).toBe(false);
+
+    const geminiHandler = vi.fn().mockResolvedValue('gemini');
+    const gemini = queue.addRequest('질문', geminiHandler, { backend: 'gemini' });
+    await expect(queue.addRequest('질문', vi.fn().mockResolvedValue('ollama'), { backend: 'ollama' }))
+      .resolves.toBe('ollama');
+    expect(geminiHandler).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(gemini).resolves.toBe('gemini');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ServiceStatsCollector } from '../services/serviceStats.js';
+import { LlmServiceFactory } from '../services/llmServiceFactory.js';
+import { LlmProviderRegistry } from '../services/llmProviderRegistry.js';
+import { cacheService } from '../services/cacheService.js';
+import { requestQueue } from '../services/requestQueue.js';
+import { ApiErrorType, ApiResponse, ApiResponseStatus, LlmProvider, LlmService } from '../types/api.js';
+
+// 내장 프로바이더는 실제 서버와 API 키가 필요하므로 등록하지 않음
+vi.mock('../services/llmProviders.js', () => ({ registerBuiltInProviders: () => {} }));
+
+const createProvider = (id: string, response: Partial<ApiResponse<string>>): LlmProvider => ({
+  id,
+  name: id,
+  description: id,
+  service: {
+    sendMessage: async () => ({
+      responseTime: 100,
+      fromCache: false,
+      retryCount: 0,
+      requestId: 'test',
+      timestamp: Date.now(),
+      ...response
+    })
+  } as unknown as LlmService,
+  isAvailable: async () => true
+});
+
+describe('ServiceStatsCollector', () => {
+  it('records responses from failover backends tagged with the backend that answered', async () => {
+    const registry = new LlmProviderRegistry();
+    registry.register(createProvider('ollama', { status: ApiResponseStatus.ERROR, errorType: ApiErrorType.SERVER_ERROR }));
+    registry.register(createProvider('gemini', { status: ApiResponseStatus.SUCCESS, data: '답변' }));
+    const factory = new LlmServiceFactory(registry);
+    await factory.setServiceType('ollama');
+    const stats = new ServiceStatsCollector(cacheService, requestQueue, factory);
+    stats.start();
+
+    await factory.sendMessage('질문');
+    stats.stop();
+
+    const snapshot = stats.getSnapshot();
+    expect(snapshot.responsesByBackend).toEqual({ gemini: 1 });
+    expect(snapshot.latency.count).toBe(1);
+    expect(snapshot.timeline.reduce((errors, bucket) => errors + bucket.errors, 0)).toBe(1);
+  });
+});
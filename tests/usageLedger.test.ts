@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageLedger } from '../services/usageLedger.js';
+import { BudgetLevel, UsageBudget } from '../types/api.js';
+
+const pacificBudget: UsageBudget = {
+  backend: 'gemini',
+  period: 'day',
+  metric: 'requests',
+  hardLimit: 2,
+  timeZone: 'America/Los_Angeles'
+};
+
+describe('UsageLedger', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resets a daily budget at midnight in its time zone', () => {
+    // 태평양 일광 절약 시간 3월 9일 23:30
+    vi.setSystemTime(new Date('2025-03-10T06:30:00Z'));
+    const ledger = new UsageLedger([pacificBudget]);
+    ledger.record('gemini', 'gemini-2.5-flash');
+    ledger.record('gemini', 'gemini-2.5-flash');
+
+    expect(ledger.getExceededBudget('gemini')).toMatchObject({
+      used: 2,
+      resetAt: Date.parse('2025-03-10T07:00:00Z')
+    });
+
+    vi.setSystemTime(new Date('2025-03-10T07:00:00Z'));
+    expect(ledger.getBudgetStatuses()[0]).toMatchObject({ used: 0, level: BudgetLevel.OK });
+  });
+
+  it('starts the day at the standard time midnight on a daylight saving change', () => {
+    // 3월 9일 02:00 PST에 일광 절약 시간이 시작되므로 이날 자정은 UTC-8 기준
+    vi.setSystemTime(new Date('2025-03-09T12:00:00Z'));
+    const ledger = new UsageLedger([pacificBudget]);
+    ledger.record('gemini', 'gemini-2.5-flash', undefined, Date.parse('2025-03-09T07:30:00Z'));
+    ledger.record('gemini', 'gemini-2.5-flash', undefined, Date.parse('2025-03-09T08:30:00Z'));
+
+    expect(ledger.getBudgetStatuses()[0]).toMatchObject({
+      used: 1,
+      resetAt: Date.parse('2025-03-10T07:00:00Z')
+    });
+  });
+});
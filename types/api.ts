@@ -55,10 +55,14 @@ export interface QueueItem {
   retryPolicy: RetryPolicy;
   /** 우선순위 (낮을수록 높은 우선순위) */
   priority: number;
+  /** 요청을 보내는 백엔드 (프로바이더 ID) */
+  backend?: string;
   /** 에러 정보 */
   error?: Error;
   /** 결과 데이터 */
   result?: any;
+  /** 요청 처리 핸들러 */
+  handler?: RequestHandler;
 }
 
 /**
@@ -75,6 +79,10 @@ export interface RequestQueueStatus {
   failedCount: number;
   /** 재시도 중인 요청 수 */
   retryingCount: number;
+  /** 상태별 요청 수 */
+  countsByStatus: Record<RequestStatus, number>;
+  /** 누적 재시도 횟수 */
+  totalRetries: number;
   /** 평균 처리 시간 (밀리초) */
   averageProcessingTime: number;
 }
@@ -103,6 +111,108 @@ export interface CacheItem {
   size: number;
   /** 태그 (선택적) */
   tags?: string[];
+  /** 유사 질문 검색용 단어 벡터 (선택적) */
+  vector?: TermVector;
+  /** 저장소에 기록된 data의 압축 방식 (압축하지 않았으면 없음) */
+  compression?: CacheCompression;
+  /** 압축 전 데이터 크기 (바이트) */
+  originalSize?: number;
+  /** 고정 여부 (고정 항목은 만료되거나 교체 정책으로 내보내지지 않음) */
+  pinned?: boolean;
+}
+
+/**
+ * 캐시 데이터 압축 방식 (gzip: CompressionStream, lz: 순수 TS LZW)
+ */
+export type CacheCompression = 'gzip' | 'lz';
+
+/**
+ * 캐시 교체 정책 열거형
+ */
+export enum EvictionPolicyType {
+  /** 가장 오래 접근하지 않은 항목부터 */
+  LRU = 'lru',
+  /** 접근 횟수가 가장 적은 항목부터 */
+  LFU = 'lfu',
+  /** 만료 시각이 가장 이른 항목부터 */
+  TTL = 'ttl',
+  /** 크기 대비 접근 빈도가 낮은 항목부터 (Greedy-Dual-Size-Frequency) */
+  GDSF = 'gdsf'
+}
+
+/**
+ * 캐시 항목을 내보낸 이유 열거형
+ */
+export enum EvictionReason {
+  /** 최대 항목 수 초과 */
+  MAX_ITEMS = 'max_items',
+  /** 최대 캐시 크기 초과 */
+  MAX_SIZE = 'max_size',
+  /** 저장소 용량 초과 */
+  QUOTA = 'quota'
+}
+
+/**
+ * 단어별 빈도 벡터 (JSON으로 저장 가능한 희소 벡터)
+ */
+export type TermVector = Record<string, number>;
+
+/**
+ * 유사도 검색 결과 인터페이스
+ */
+export interface SimilarCacheMatch<T = any> {
+  /** 캐시 키 */
+  key: string;
+  /** 캐시 데이터 */
+  data: T;
+  /** 코사인 유사도 (0~1) */
+  similarity: number;
+}
+
+/**
+ * 캐시 내보내기 파일 인터페이스
+ */
+export interface CacheExport {
+  /** 내보내기 형식 버전 */
+  version: number;
+  /** 내보낸 시간 (ISO 8601) */
+  exportedAt: string;
+  /** 캐시 항목 (압축하지 않은 원본 데이터) */
+  items: CacheItem[];
+}
+
+/**
+ * 캐시 가져오기 결과 인터페이스
+ */
+export interface CacheImportResult {
+  /** 가져온 항목 수 */
+  imported: number;
+  /** 이미 있거나 만료되어 건너뛴 항목 수 */
+  skipped: number;
+  /** 형식이 올바르지 않아 버린 항목 수 */
+  invalid: number;
+}
+
+/**
+ * 검수한 FAQ 항목 인터페이스
+ */
+export interface FaqEntry {
+  /** 질문 */
+  question: string;
+  /** 검수한 답변 */
+  answer: string;
+  /** 출처 (선택적) */
+  citations?: Citation[];
+}
+
+/**
+ * 캐시를 미리 채우는 FAQ 파일 (data/faq.json)
+ */
+export interface FaqFile {
+  /** FAQ 파일 형식 버전 */
+  version: number;
+  /** FAQ 목록 */
+  entries: FaqEntry[];
 }
 
 /**
@@ -121,8 +231,16 @@ export interface CacheStats {
   totalSize: number;
   /** 평균 항목 크기 (바이트) */
   averageItemSize: number;
+  /** 압축 전 총 크기 (바이트) */
+  totalOriginalSize: number;
+  /** 압축률 (저장 크기 / 압축 전 크기, 1이면 압축 효과 없음) */
+  compressionRatio: number;
   /** 만료된 항목 수 */
   expiredItems: number;
+  /** 교체 정책으로 내보낸 항목 수 */
+  evictedItems: number;
+  /** 내보낸 이유별 항목 수 */
+  evictionsByReason: Record<EvictionReason, number>;
   /** 가장 많이 접근된 항목 */
   mostAccessedItem?: string;
 }
@@ -143,6 +261,12 @@ export interface CacheConfig {
   cleanupInterval: number;
   /** 압축 사용 여부 */
   useCompression: boolean;
+  /** 유사 질문 검색 사용 여부 */
+  semanticLookup: boolean;
+  /** 유사 질문으로 인정할 최소 유사도 (0~1) */
+  similarityThreshold: number;
+  /** 최대 항목 수나 크기를 넘을 때 쓰는 교체 정책 */
+  evictionPolicy: EvictionPolicyType;
 }
 
 // ============================================================================
@@ -181,6 +305,21 @@ export interface RateLimitStatus {
   waitTime: number;
 }
 
+/**
+ * 요청 대기(쿨다운) 상태 인터페이스
+ * 서버가 알려준 한도 초기화 시점까지 모든 요청을 멈추기 위해 사용
+ */
+export interface CooldownState {
+  /** 대기 시작 시간 */
+  startedAt: number;
+  /** 요청 가능해지는 시간 */
+  until: number;
+  /** 대기 원인이 된 에러 타입 */
+  reason?: ApiErrorType;
+  /** 대기 원인이 된 백엔드 (프로바이더 ID) */
+  backend?: string;
+}
+
 // ============================================================================
 // API 응답 관련 타입
 // ============================================================================
@@ -193,7 +332,8 @@ export enum ApiResponseStatus {
   ERROR = 'error',
   RATE_LIMITED = 'rate_limited',
   CACHED = 'cached',
-  RETRYING = 'retrying'
+  RETRYING = 'retrying',
+  CANCELLED = 'cancelled'
 }
 
 /**
@@ -206,16 +346,225 @@ export interface ApiResponse<T = any> {
   data?: T;
   /** 에러 메시지 */
   error?: string;
+  /** 에러 타입 */
+  errorType?: ApiErrorType;
   /** 응답 시간 (밀리초) */
   responseTime: number;
   /** 캐시 히트 여부 */
   fromCache: boolean;
+  /** 캐시 답변의 질문 유사도 (1이면 같은 질문, 1 미만이면 유사 질문) */
+  cacheSimilarity?: number;
   /** 재시도 횟수 */
   retryCount: number;
+  /** 서버가 알려준 재시도 가능 시점까지 남은 시간 (밀리초) */
+  retryAfter?: number;
   /** 요청 ID */
   requestId: string;
   /** 타임스탬프 */
   timestamp: number;
+  /** 답변 근거 출처 */
+  citations?: Citation[];
+  /** 응답한 LLM 백엔드 (프로바이더 ID) */
+  backend?: string;
+  /** 응답한 모델 (LLM이 직접 답변한 경우) */
+  model?: string;
+  /** 토큰 사용량 (백엔드가 알려준 경우) */
+  usage?: TokenUsage;
+}
+
+/**
+ * 요청 하나의 토큰 사용량
+ */
+export interface TokenUsage {
+  /** 입력(프롬프트) 토큰 수 */
+  promptTokens: number;
+  /** 생성된 토큰 수 */
+  completionTokens: number;
+  /** 토큰 생성에 걸린 시간 (밀리초, 백엔드가 알려준 경우) */
+  generationTime?: number;
+}
+
+/**
+ * 답변 출처 인터페이스
+ */
+export interface Citation {
+  /** 문서 파일명 (pdf/manifest.json 기준) */
+  documentName: string;
+  /** 페이지 번호 (페이지 정보가 없으면 0) */
+  pageNumber: number;
+  /** 인용 구절 */
+  snippet: string;
+}
+
+// ============================================================================
+// 사용량 관련 타입
+// ============================================================================
+
+/**
+ * 사용량 집계 기간
+ */
+export type UsagePeriod = 'minute' | 'day';
+
+/**
+ * 예산 기준 (tokens: 입력+생성 토큰 수, requests: 요청 수)
+ */
+export type UsageMetric = 'tokens' | 'requests';
+
+/**
+ * 백엔드·모델별 사용량 집계 (기간 하나)
+ */
+export interface UsageAggregate {
+  /** 집계 기간 */
+  period: UsagePeriod;
+  /** 기간 시작 시간 (분 단위 또는 자정) */
+  startedAt: number;
+  /** LLM 백엔드 (프로바이더 ID) */
+  backend: string;
+  /** 모델 */
+  model: string;
+  /** 요청 수 */
+  requests: number;
+  /** 입력 토큰 수 */
+  promptTokens: number;
+  /** 생성 토큰 수 */
+  completionTokens: number;
+}
+
+/**
+ * 사용량 예산
+ * 소프트 한도에 도달하면 경고하고, 하드 한도에 도달하면 요청을 차단하거나 다른 백엔드로 전환
+ */
+export interface UsageBudget {
+  /** LLM 백엔드 (프로바이더 ID) */
+  backend: string;
+  /** 모델 (지정하지 않으면 백엔드 전체) */
+  model?: string;
+  /** 집계 기간 */
+  period: UsagePeriod;
+  /** 예산 기준 */
+  metric: UsageMetric;
+  /** 경고 한도 */
+  softLimit?: number;
+  /** 차단 한도 */
+  hardLimit?: number;
+  /** 일 단위 예산이 초기화되는 시간대 (IANA 이름, 지정하지 않으면 브라우저 시간대의 자정) */
+  timeZone?: string;
+}
+
+/**
+ * 예산 도달 단계
+ */
+export enum BudgetLevel {
+  OK = 'ok',
+  SOFT = 'soft',
+  HARD = 'hard'
+}
+
+/**
+ * 현재 기간의 예산 사용 상태
+ */
+export interface BudgetStatus {
+  /** 예산 */
+  budget: UsageBudget;
+  /** 현재 기간 사용량 */
+  used: number;
+  /** 도달 단계 */
+  level: BudgetLevel;
+  /** 사용량이 초기화되는 시간 */
+  resetAt: number;
+}
+
+// ============================================================================
+// 서비스 통계 관련 타입
+// ============================================================================
+
+/**
+ * 응답 시간 통계 (밀리초)
+ */
+export interface LatencyStats {
+  /** 집계한 응답 수 */
+  count: number;
+  /** 평균 */
+  average: number;
+  /** 중앙값 */
+  p50: number;
+  /** 90번째 백분위수 */
+  p90: number;
+  /** 99번째 백분위수 */
+  p99: number;
+}
+
+/**
+ * 통계 타임라인의 시간 구간 하나
+ */
+export interface StatsTimelineBucket {
+  /** 구간 시작 시간 */
+  startedAt: number;
+  /** LLM에 보낸 요청 수 (캐시 답변 제외) */
+  requests: number;
+  /** 캐시 답변 수 */
+  cacheHits: number;
+  /** 실패한 요청 수 */
+  errors: number;
+  /** LLM 응답 평균 시간 (밀리초, 응답이 없으면 0) */
+  averageLatency: number;
+}
+
+/**
+ * 서비스 통계 스냅샷
+ */
+export interface ServiceStatsSnapshot {
+  /** 현재 LLM 백엔드 (프로바이더 ID) */
+  backend: string;
+  /** 캐시 통계 */
+  cache: CacheStats;
+  /** 요청 큐 상태 */
+  queue: RequestQueueStatus;
+  /** LLM 응답 시간 (집계 기간 내, 캐시 답변 제외) */
+  latency: LatencyStats;
+  /** 집계 기간 내 재시도 횟수 */
+  retries: number;
+  /** 집계 기간 내 초당 생성 토큰 수 (생성 시간을 알려주는 백엔드만, 없으면 undefined) */
+  tokensPerSecond?: number;
+  /** 집계 기간 내 백엔드별 응답 수 (자동 전환으로 다른 백엔드가 답한 응답 포함) */
+  responsesByBackend: Record<string, number>;
+  /** 시간 구간별 요청 추이 (오래된 순) */
+  timeline: StatsTimelineBucket[];
+  /** 스냅샷 생성 시간 */
+  updatedAt: number;
+}
+
+/**
+ * 서비스 통계 집계 설정
+ */
+export interface ServiceStatsConfig {
+  /** 집계 기간 (밀리초) */
+  window: number;
+  /** 타임라인 구간 크기 (밀리초) */
+  bucketSize: number;
+}
+
+// ============================================================================
+// 스트리밍 관련 타입
+// ============================================================================
+
+/**
+ * 캐시 답변을 나누는 단위 (grapheme: 문자소 묶음, sentence: 문장)
+ */
+export type StreamChunkMode = 'grapheme' | 'sentence';
+
+/**
+ * 캐시 답변 스트림 재생 설정
+ */
+export interface StreamReplayConfig {
+  /** 조각 단위 */
+  chunkBy: StreamChunkMode;
+  /** 조각당 문자소 수 (grapheme 단위일 때) */
+  graphemesPerChunk: number;
+  /** 조각 사이 간격 (밀리초) */
+  interval: number;
+  /** 간격 없이 답변 전체를 한 번에 전달 */
+  instant: boolean;
 }
 
 // ============================================================================
@@ -231,6 +580,7 @@ export enum ApiErrorType {
   TIMEOUT = 'timeout',
   INVALID_REQUEST = 'invalid_request',
   SERVER_ERROR = 'server_error',
+  CANCELLED = 'cancelled',
   UNKNOWN = 'unknown'
 }
 
@@ -250,6 +600,496 @@ export interface ApiError extends Error {
   requestId?: string;
 }
 
+// ============================================================================
+// Retrieval 관련 타입
+// ============================================================================
+
+/**
+ * 문서 청크 인터페이스
+ */
+export interface DocumentChunk {
+  /** 청크 ID */
+  id: string;
+  /** 문서 순번 (0부터 시작) */
+  documentIndex: number;
+  /** 문서 파일명 */
+  documentName: string;
+  /** 페이지 번호 (페이지 표시가 없으면 0) */
+  pageNumber: number;
+  /** 청크 본문 */
+  content: string;
+}
+
+/**
+ * 검색된 청크 인터페이스
+ */
+export interface RetrievedChunk {
+  /** 청크 */
+  chunk: DocumentChunk;
+  /** BM25 점수 */
+  score: number;
+}
+
+/**
+ * 검색 설정 인터페이스
+ */
+export interface RetrievalConfig {
+  /** 청크 최대 길이 (문자) */
+  chunkSize: number;
+  /** 인접 청크 간 겹치는 길이 (문자) */
+  chunkOverlap: number;
+  /** 질문당 사용할 청크 수 */
+  topK: number;
+  /** BM25 단어 빈도 포화 계수 */
+  k1: number;
+  /** BM25 문서 길이 정규화 계수 */
+  b: number;
+}
+
+// ============================================================================
+// 대화 기록 관련 타입
+// ============================================================================
+
+/**
+ * 대화 턴 인터페이스
+ */
+export interface ConversationTurn {
+  /** 발화자 */
+  role: 'user' | 'assistant';
+  /** 발화 내용 */
+  content: string;
+  /** 발화 시간 */
+  timestamp: number;
+}
+
+/**
+ * 대화 기록 설정 인터페이스
+ */
+export interface ConversationMemoryConfig {
+  /** 대화 기록에 사용할 최대 토큰 수 (추정치) */
+  maxTokens: number;
+  /** 잘려나간 이전 대화 요약의 최대 길이 (문자) */
+  maxSummaryLength: number;
+}
+
+// ============================================================================
+// 대화 저장 관련 타입
+// ============================================================================
+
+/**
+ * 저장된 채팅 메시지 인터페이스
+ */
+export interface StoredMessage {
+  /** 발화자 */
+  role: 'user' | 'model';
+  /** 메시지 내용 */
+  content: string;
+  /** 작성 시간 */
+  timestamp: number;
+  /** 답변 출처 */
+  citations?: Citation[];
+  /** 답변한 LLM 백엔드 이름 */
+  backend?: string;
+  /** 사용자가 생성을 중지한 답변 여부 */
+  cancelled?: boolean;
+  /** 캐시 답변의 질문 유사도 */
+  cacheSimilarity?: number;
+  /** 첫 응답 조각까지 걸린 시간 (밀리초) */
+  timeToFirstToken?: number;
+  /** 생성 도중 실패한 답변의 에러 메시지 */
+  error?: string;
+}
+
+/**
+ * 저장된 대화 인터페이스
+ */
+export interface StoredConversation {
+  /** 고유 ID */
+  id: string;
+  /** 대화 제목 */
+  title: string;
+  /** 메시지 목록 */
+  messages: StoredMessage[];
+  /** 사용한 LLM 서비스 */
+  serviceType: string;
+  /** 사용한 모델 (Ollama가 아니면 null) */
+  model: string | null;
+  /** 생성 시간 */
+  createdAt: number;
+  /** 마지막 수정 시간 */
+  updatedAt: number;
+}
+
+// ============================================================================
+// 문서 코퍼스 관련 타입
+// ============================================================================
+
+/**
+ * 코퍼스 페이지 인터페이스
+ */
+export interface CorpusPage {
+  /** 페이지 번호 (1부터 시작) */
+  pageNumber: number;
+  /** 추출된 텍스트 */
+  text: string;
+  /** 텍스트 SHA-256 해시 */
+  hash: string;
+}
+
+/**
+ * 코퍼스 문서 인터페이스
+ */
+export interface CorpusDocument {
+  /** 문서 ID (파일명 기반) */
+  id: string;
+  /** PDF 파일명 */
+  fileName: string;
+  /** PDF 파일 SHA-256 해시 */
+  sha256: string;
+  /** 페이지 수 */
+  pageCount: number;
+  /** 페이지별 텍스트 */
+  pages: CorpusPage[];
+}
+
+/**
+ * 빌드 시 생성되는 문서 코퍼스 (scripts/buildCorpus.js)
+ */
+export interface DocumentCorpus {
+  /** 코퍼스 형식 버전 */
+  version: number;
+  /** 생성 시간 (ISO 8601) */
+  generatedAt: string;
+  /** 문서 목록 */
+  documents: CorpusDocument[];
+}
+
+/**
+ * PDF 목록(manifest.json) 항목
+ * 이전 형식처럼 파일명 문자열만 있으면 sha256 없이 취급
+ */
+export interface PdfManifestEntry {
+  /** PDF 파일명 */
+  fileName: string;
+  /** PDF 파일 SHA-256 해시 (scripts/buildCorpus.js가 기록) */
+  sha256?: string;
+}
+
+/**
+ * 불러온 문서 인터페이스
+ */
+export interface LoadedDocument {
+  /** PDF 파일명 */
+  fileName: string;
+  /** 페이지별 텍스트 (순서대로) */
+  pages: string[];
+  /** 텍스트 출처 (빌드 코퍼스 또는 브라우저 파싱) */
+  source: 'corpus' | 'parsed';
+}
+
+// ============================================================================
+// LLM 프로바이더 관련 타입
+// ============================================================================
+
+/**
+ * 스트림 메시지 전송 옵션
+ */
+export interface StreamMessageOptions {
+  /**
+   * 끊긴 답변을 이어서 생성할 때 이미 받은 답변
+   * 캐시를 건너뛰고, 새로 받은 내용은 이 답변 뒤에 붙여 같은 질문의 답변으로 대화 기록에 남김
+   */
+  continueFrom?: string;
+}
+
+/**
+ * 통합 LLM 서비스 인터페이스
+ */
+export interface LlmService {
+  setSourceText(sourceText: string): Promise<void>;
+  sendMessage(message: string, signal?: AbortSignal): Promise<ApiResponse<string>>;
+  sendMessageStream(
+    message: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    options?: StreamMessageOptions
+  ): Promise<ApiResponse<void>>;
+  resetConversation(): void;
+  restoreConversation(turns: ConversationTurn[]): void;
+  getServiceStatus(): any;
+  getCacheStats(): any;
+  getQueueStatus(): any;
+  clearCache(): void;
+  clearQueue(): void;
+  on(event: string, callback: EventCallback): void;
+  off(event: string, callback: EventCallback): void;
+}
+
+/**
+ * LLM 모델 정보 인터페이스
+ */
+export interface LlmModelInfo {
+  /** 모델 이름 */
+  name: string;
+  /** 모델 크기 (GB, 알 수 없으면 0) */
+  size: number;
+  /** 모델 설명 */
+  description: string;
+  /** 추천 여부 */
+  recommended: boolean;
+  /** 이 기기에서의 메모리 적합도 (추정할 수 있는 프로바이더만) */
+  memory?: ModelMemoryAssessment;
+}
+
+/**
+ * LLM 프로바이더 인터페이스
+ * 레지스트리에 등록하면 팩토리와 선택 UI에 자동으로 노출됨
+ */
+export interface LlmProvider {
+  /** 프로바이더 ID (설정의 SERVICE_TYPE 값) */
+  id: string;
+  /** 표시 이름 */
+  name: string;
+  /** 설명 */
+  description: string;
+  /** 서비스 구현 */
+  service: LlmService;
+  /** 사용 가능 여부 확인 (API 키, 서버 연결 등) */
+  isAvailable(): Promise<boolean>;
+  /** 모델 목록 조회 (모델 선택을 지원하지 않으면 생략) */
+  listModels?(): Promise<LlmModelInfo[]>;
+  /** 현재 모델 조회 */
+  getCurrentModel?(): string | null;
+  /** 모델 변경 */
+  setModel?(modelName: string): Promise<void>;
+  /** 모델 설치·삭제 관리 (지원하지 않으면 생략) */
+  modelManager?: ModelManager;
+}
+
+/**
+ * 선택 UI에 표시할 프로바이더 정보
+ */
+export interface LlmProviderInfo {
+  /** 프로바이더 ID */
+  type: string;
+  /** 표시 이름 */
+  name: string;
+  /** 설명 */
+  description: string;
+  /** 사용 가능 여부 */
+  available: boolean;
+  /** 모델 선택 지원 여부 */
+  supportsModels: boolean;
+  /** 모델 설치·삭제 지원 여부 */
+  supportsModelManagement: boolean;
+}
+
+/**
+ * 답변 생성 설정 (지정하지 않은 항목은 백엔드 기본값 사용)
+ * Ollama options, Gemini generationConfig, OpenAI 호환 요청 파라미터로 각각 변환
+ */
+export interface GenerationProfile {
+  /** 샘플링 온도 (0-2) */
+  temperature?: number;
+  /** 누적 확률 샘플링 (top_p, 0-1) */
+  topP?: number;
+  /** 상위 K개 토큰 샘플링 (top_k) */
+  topK?: number;
+  /** 컨텍스트 길이 (num_ctx, Ollama 전용) */
+  numCtx?: number;
+  /** 최대 생성 토큰 수 (num_predict, -1이면 제한 없음) */
+  numPredict?: number;
+  /** 반복 억제 (repeat_penalty, Ollama 전용) */
+  repeatPenalty?: number;
+  /** 난수 시드 (같은 시드면 같은 답변) */
+  seed?: number;
+  /** 생성을 멈출 문자열 */
+  stop?: string[];
+}
+
+// ============================================================================
+// 모델 관리 관련 타입
+// ============================================================================
+
+/**
+ * 모델 다운로드 단계
+ */
+export type ModelPullPhase = 'pulling' | 'cancelled' | 'completed' | 'failed';
+
+/**
+ * 모델 다운로드 진행 상황
+ */
+export interface ModelPullProgress {
+  /** 모델 이름 */
+  model: string;
+  /** 다운로드 단계 */
+  phase: ModelPullPhase;
+  /** 서버가 알려준 진행 상태 (예: pulling manifest, verifying sha256 digest) */
+  status: string;
+  /** 받은 바이트 수 (모든 레이어 합계) */
+  completed: number;
+  /** 전체 바이트 수 (모든 레이어 합계, 알 수 없으면 0) */
+  total: number;
+  /** 실패 사유 */
+  error?: string;
+  /** 마지막 갱신 시간 */
+  updatedAt: number;
+}
+
+/**
+ * 모델 카탈로그 항목 (추천 모델 목록과 설치된 모델을 합친 목록)
+ */
+export interface ModelCatalogEntry extends LlmModelInfo {
+  /** 설치 여부 */
+  installed: boolean;
+  /** 디스크 사용량 (바이트, 설치된 모델만) */
+  diskSize?: number;
+  /** 마지막 수정 시간 (설치된 모델만) */
+  modifiedAt?: string;
+}
+
+/**
+ * 설치된 모델의 디스크 사용량
+ */
+export interface ModelDiskUsage {
+  /** 전체 사용량 (바이트) */
+  totalBytes: number;
+  /** 설치된 모델 수 */
+  modelCount: number;
+}
+
+/**
+ * 모델 설치·삭제 관리 인터페이스
+ * 이벤트: pullProgress, pullCompleted, pullCancelled, pullFailed, modelDeleted, modelsChanged
+ */
+export interface ModelManager {
+  /** 추천 모델과 설치된 모델을 합친 카탈로그 조회 */
+  listCatalog(): Promise<ModelCatalogEntry[]>;
+  /** 모델 다운로드 (중단한 다운로드는 받은 부분부터 이어받음) */
+  pull(model: string): Promise<void>;
+  /** 진행 중인 다운로드 취소 */
+  cancelPull(model: string): void;
+  /** 모델별 마지막 다운로드 진행 상황 조회 */
+  getPullProgress(): ModelPullProgress[];
+  /** 설치된 모델 삭제 */
+  deleteModel(model: string): Promise<void>;
+  /** 설치된 모델의 디스크 사용량 조회 */
+  getDiskUsage(): Promise<ModelDiskUsage>;
+  on(event: string, callback: EventCallback): void;
+  off(event: string, callback: EventCallback): void;
+}
+
+/**
+ * 모델 메모리 적합도 (ok: 충분, tight: 주의, insufficient: 부족)
+ */
+export type MemoryFit = 'ok' | 'tight' | 'insufficient';
+
+/**
+ * 모델 실행 환경의 하드웨어 정보
+ */
+export interface HardwareProfile {
+  /** 시스템 메모리 (GB) */
+  memoryGB: number;
+  /** 메모리 값 출처 (config: 설정값, browser: navigator.deviceMemory, default: 기본 가정값) */
+  memorySource: 'config' | 'browser' | 'default';
+  /** 모델 외 용도로 남겨둔 메모리 (GB) */
+  reservedMemoryGB: number;
+  /** 모델에 쓸 수 있는 메모리 (시스템 메모리에서 예약 메모리를 뺀 값, GB) */
+  availableMemoryGB: number;
+  /** CPU 논리 코어 수 (알 수 없으면 생략) */
+  cpuCores?: number;
+}
+
+/**
+ * 모델 실행에 필요한 메모리 추정치
+ */
+export interface ModelMemoryEstimate {
+  /** 모델 이름 */
+  model: string;
+  /** 파라미터 수 */
+  parameterCount?: number;
+  /** 양자화 방식 (예: Q4_K_M) */
+  quantization?: string;
+  /** 추정에 사용한 컨텍스트 길이 */
+  contextLength?: number;
+  /** 모델이 지원하는 최대 컨텍스트 길이 */
+  maxContextLength?: number;
+  /** 가중치 메모리 (GB) */
+  weightsGB: number;
+  /** KV 캐시 메모리 (GB, 알 수 없으면 0) */
+  kvCacheGB: number;
+  /** 실행 여유분 (GB) */
+  overheadGB: number;
+  /** 전체 필요 메모리 (GB) */
+  totalGB: number;
+  /** 추정 근거 (loaded: 이미 로드된 모델의 실제 사용량, estimated: 모델 정보로 계산) */
+  source: 'loaded' | 'estimated';
+}
+
+/**
+ * 모델의 메모리 적합도 평가 결과
+ */
+export interface ModelMemoryAssessment {
+  /** 필요 메모리 추정치 */
+  estimate: ModelMemoryEstimate;
+  /** 메모리 적합도 */
+  fit: MemoryFit;
+  /** 판단 이유 */
+  reasons: string[];
+  /** 이 기기에서의 추천 순위 (1부터, 여러 모델을 함께 평가한 경우) */
+  rank?: number;
+}
+
+// ============================================================================
+// Failover 관련 타입
+// ============================================================================
+
+/**
+ * 서킷 브레이커 상태
+ */
+export enum CircuitState {
+  /** 정상 - 요청 허용 */
+  CLOSED = 'closed',
+  /** 차단 - 요청을 다른 백엔드로 우회 */
+  OPEN = 'open',
+  /** 시험 - 제한된 수의 요청으로 복구 여부 확인 */
+  HALF_OPEN = 'half_open'
+}
+
+/**
+ * 서킷 브레이커 설정 인터페이스
+ */
+export interface CircuitBreakerConfig {
+  /** 차단까지의 연속 실패 횟수 */
+  failureThreshold: number;
+  /** 차단 후 시험 요청까지의 대기 시간 (밀리초) */
+  resetTimeout: number;
+  /** 시험 상태에서 동시에 허용할 요청 수 */
+  halfOpenMaxProbes: number;
+  /** 실패로 집계할 에러 타입 */
+  tripOn: ApiErrorType[];
+}
+
+/**
+ * 백엔드 상태 인터페이스
+ */
+export interface BackendHealth {
+  /** 프로바이더 ID */
+  backend: string;
+  /** 서킷 상태 */
+  state: CircuitState;
+  /** 연속 실패 횟수 */
+  consecutiveFailures: number;
+  /** 마지막 실패 시간 */
+  lastFailureAt?: number;
+  /** 마지막 성공 시간 */
+  lastSuccessAt?: number;
+  /** 마지막 에러 타입 */
+  lastErrorType?: ApiErrorType;
+  /** 차단 해제(시험 요청) 예정 시간 */
+  retryAt?: number;
+}
+
 // ============================================================================
 // 유틸리티 타입
 // ============================================================================
@@ -271,7 +1111,7 @@ export type EventCallback<T = any> = (data: T) => void;
 /**
  * 요청 핸들러 타입
  */
-export type RequestHandler<T = any, R = any> = (request: T) => Promise<R>;
+export type RequestHandler<T = any, R = any> = (request: T, signal: AbortSignal) => Promise<R>;
 
 /**
  * 에러 핸들러 타입
@@ -312,5 +1152,70 @@ export const DEFAULT_CACHE_CONFIG: CacheConfig = {
   maxSize: 10 * 1024 * 1024, // 10MB
   maxItems: 1000,
   cleanupInterval: 60 * 60 * 1000, // 1시간
-  useCompression: false
+  useCompression: true,
+  semanticLookup: true,
+  similarityThreshold: 0.9,
+  evictionPolicy: EvictionPolicyType.LRU
+};
+
+/**
+ * 기본 검색 설정
+ */
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  chunkSize: 800,
+  chunkOverlap: 150,
+  topK: 5,
+  k1: 1.2,
+  b: 0.75
+};
+
+/**
+ * 기본 대화 기록 설정
+ */
+export const DEFAULT_CONVERSATION_MEMORY_CONFIG: ConversationMemoryConfig = {
+  maxTokens: 2048,
+  maxSummaryLength: 400
+};
+
+/**
+ * 기본 서비스 통계 집계 설정 (최근 1시간, 1분 단위)
+ */
+export const DEFAULT_SERVICE_STATS_CONFIG: ServiceStatsConfig = {
+  window: 60 * 60 * 1000,
+  bucketSize: 60 * 1000
+};
+
+/**
+ * 기본 캐시 답변 스트림 재생 설정
+ */
+export const DEFAULT_STREAM_REPLAY_CONFIG: StreamReplayConfig = {
+  chunkBy: 'grapheme',
+  graphemesPerChunk: 6,
+  interval: 20,
+  instant: false
+};
+
+/**
+ * 지원하는 문서 코퍼스 형식 버전 (scripts/buildCorpus.js의 CORPUS_VERSION)
+ */
+export const DOCUMENT_CORPUS_VERSION = 1;
+
+/**
+ * 캐시 내보내기 형식 버전
+ */
+export const CACHE_EXPORT_VERSION = 1;
+
+/**
+ * 지원하는 FAQ 파일 형식 버전 (data/faq.json)
+ */
+export const FAQ_FILE_VERSION = 1;
+
+/**
+ * 기본 서킷 브레이커 설정
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 2,
+  resetTimeout: 30 * 1000, // 30초
+  halfOpenMaxProbes: 1,
+  tripOn: [ApiErrorType.RATE_LIMIT_EXCEEDED, ApiErrorType.NETWORK_ERROR]
 };
@@ -1,12 +1,33 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+import { buildCorpus, CORPUS_FILE_NAME } from './scripts/buildCorpus.js';
+
+/**
+ * 빌드 시 pdf/ 폴더의 PDF 텍스트를 추출해 dist/pdf/corpus.json으로 내보냄
+ */
+function documentCorpusPlugin(): Plugin {
+  return {
+    name: 'document-corpus',
+    apply: 'build',
+    async generateBundle() {
+      const corpus = await buildCorpus(path.resolve(__dirname, 'pdf'));
+      this.emitFile({
+        type: 'asset',
+        fileName: `pdf/${CORPUS_FILE_NAME}`,
+        source: JSON.stringify(corpus)
+      });
+    }
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [documentCorpusPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_COMPAT_API_KEY': JSON.stringify(env.OPENAI_COMPAT_API_KEY)
       },
       resolve: {
         alias: {